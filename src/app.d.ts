@@ -1,9 +1,16 @@
 // See https://svelte.dev/docs/kit/types#app.d.ts
 // for information about these interfaces
+import type { AuthenticatedAgent, SessionUser } from '$lib/server/bluesky';
+
 declare global {
 	namespace App {
 		// interface Error {}
-		// interface Locals {}
+		interface Locals {
+			/** Active account, resolved once per request by the auth guard in hooks.server.ts */
+			user: SessionUser | null;
+			/** Authenticated agent for `user`, created on first call (rejects when signed out) */
+			getAgent(): Promise<AuthenticatedAgent>;
+		}
 		// interface PageData {}
 		// interface PageState {}
 		// interface Platform {}
@@ -0,0 +1,13 @@
+// Server hooks - resolves the signed-in user for every request
+import type { Handle } from '@sveltejs/kit';
+import { createAuthGuard, getBlueskyService } from '$lib/server/bluesky';
+
+// Route prefixes that need a signed-in user. Page requests are redirected to
+// the login page; API routes (under /api) get a 401 JSON response instead.
+// Admin routes are limited to the DIDs in ADMIN_DIDS.
+export const handle: Handle = createAuthGuard(getBlueskyService, {
+	protectedRoutes: ['/dashboard', '/tv-guide', '/search', '/notifications', '/feeds', '/lists', '/settings', '/api'],
+	apiRoutes: ['/api'],
+	adminRoutes: ['/admin'],
+	loginPath: '/'
+});
@@ -29,6 +29,10 @@ const meta: Meta<ApiResponseDisplay> = {
 			control: 'text',
 			description: 'Error message if API call failed'
 		},
+		reauthorizeUrl: {
+			control: 'text',
+			description: 'Re-authorization link shown when the error is a missing OAuth scope'
+		},
 		copyPostJson: {
 			action: 'copyPostJson',
 			description: 'Function to copy JSON data to clipboard'
@@ -71,6 +75,17 @@ export const ErrorState: Story = {
 	}
 };
 
+export const InsufficientScope: Story = {
+	args: {
+		demos: sampleDemos,
+		currentDemo: 'timeline',
+		apiData: null,
+		apiError: 'Insufficient OAuth scope for getTimeline',
+		reauthorizeUrl: '/auth/reauthorize?scope=rpc%3Aapp.bsky.feed.getTimeline%3Faud%3D*&returnTo=%2Fdashboard%3Fdemo%3Dtimeline',
+		copyPostJson: mockCopyFunction
+	}
+};
+
 export const ProfileData: Story = {
 	args: {
 		demos: sampleDemos,
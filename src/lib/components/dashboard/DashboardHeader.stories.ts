@@ -17,6 +17,10 @@ const meta: Meta<DashboardHeader> = {
 			control: 'text',
 			description: 'User identifier or handle'
 		},
+		accounts: {
+			control: 'object',
+			description: 'All accounts linked to the browser session, shown in the account switcher'
+		},
 		showTvGuide: {
 			control: 'boolean',
 			description: 'Whether to show the TV Guide button'
@@ -78,4 +82,13 @@ export const LongUsername: Story = {
 		showTvGuide: true,
 		showDebug: true
 	}
+};
+
+export const MultipleAccounts: Story = {
+	args: {
+		user: 'did:plc:personal123',
+		accounts: ['did:plc:personal123', 'did:plc:project456', 'did:plc:team789'],
+		showTvGuide: true,
+		showDebug: true
+	}
 };
\ No newline at end of file
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Unit tests for app-password credentials
+ *
+ * Replaces AtpAgent with a fake to cover sign-in, session persistence and
+ * resumption, refusal of privileged or full-access passwords, and API calls
+ * made through a BlueskyService configured with an app password.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AtpAgent } from '@atproto/api';
+import type { AtpPersistSessionHandler, AtpSessionData } from '@atproto/api';
+import { AppPasswordProvider } from '../app-password.js';
+import { MemoryStore } from '../stores.js';
+import { BlueskyService } from '../index.js';
+
+vi.mock('@atproto/api', () => ({
+  AtpAgent: vi.fn(),
+  Agent: vi.fn()
+}));
+
+const DID = 'did:plc:bot';
+
+const jwt = (scope: string) =>
+  ['header', Buffer.from(JSON.stringify({ scope, sub: DID })).toString('base64url'), 'signature'].join('.');
+
+const sessionWith = (scope: string): AtpSessionData => ({
+  did: DID,
+  handle: 'bot.example.com',
+  accessJwt: jwt(scope),
+  refreshJwt: 'refresh',
+  active: true
+});
+
+class FakeAgent {
+  session?: AtpSessionData;
+  private readonly persist: AtpPersistSessionHandler;
+
+  constructor(options: { persistSession: AtpPersistSessionHandler }) {
+    this.persist = options.persistSession;
+  }
+
+  get did() {
+    return this.session?.did;
+  }
+
+  get assertDid() {
+    return this.session!.did;
+  }
+
+  login = vi.fn(async ({ password }: { identifier: string; password: string }) => {
+    if (password === 'wrong') {
+      await this.persist('create-failed', undefined);
+      throw new Error('Invalid identifier or password');
+    }
+    this.session = sessionWith(issuedScope);
+    await this.persist('create', this.session);
+  });
+
+  resumeSession = vi.fn(async (session: AtpSessionData) => {
+    if (session.refreshJwt === 'revoked') {
+      throw new Error('Token has been revoked');
+    }
+    this.session = session;
+  });
+
+  logout = vi.fn(async () => {
+    this.session = undefined;
+  });
+
+  getProfile = vi.fn(async ({ actor }: { actor: string }) => ({ data: { did: actor, handle: 'bot.example.com' } }));
+}
+
+let issuedScope: string;
+let agents: FakeAgent[];
+let store: MemoryStore<AtpSessionData>;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  issuedScope = 'com.atproto.appPass';
+  agents = [];
+  store = new MemoryStore<AtpSessionData>();
+  vi.mocked(AtpAgent).mockImplementation((options) => {
+    const agent = new FakeAgent(options as { persistSession: AtpPersistSessionHandler });
+    agents.push(agent);
+    return agent as unknown as AtpAgent;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const provider = (options: { password?: string; allowDirectMessages?: boolean } = {}) =>
+  new AppPasswordProvider(
+    { identifier: '@Bot.example.com', password: options.password ?? 'abcd-efgh-ijkl-mnop', allowDirectMessages: options.allowDirectMessages },
+    store
+  );
+
+describe('AppPasswordProvider', () => {
+  it('should sign in once and persist the session', async () => {
+    const credentials = provider();
+
+    const [did] = await Promise.all([credentials.signIn(), credentials.getAuthenticatedAgent(DID)]);
+
+    expect(did).toBe(DID);
+    expect(agents).toHaveLength(1);
+    expect(await store.get('bot.example.com')).toMatchObject({ did: DID });
+  });
+
+  it('should resume a stored session instead of signing in again', async () => {
+    await store.set('bot.example.com', sessionWith('com.atproto.appPass'));
+
+    await provider().signIn();
+
+    expect(agents[0].resumeSession).toHaveBeenCalled();
+    expect(agents[0].login).not.toHaveBeenCalled();
+  });
+
+  it('should sign in again when the stored session cannot be resumed', async () => {
+    await store.set('bot.example.com', { ...sessionWith('com.atproto.appPass'), refreshJwt: 'revoked' });
+
+    await provider().signIn();
+
+    expect(agents[0].login).toHaveBeenCalled();
+    expect((await store.get('bot.example.com'))?.refreshJwt).toBe('refresh');
+  });
+
+  it('should refuse an app password with direct message access unless allowed', async () => {
+    issuedScope = 'com.atproto.appPassPrivileged';
+
+    await expect(provider().signIn()).rejects.toMatchObject({ code: 'APP_PASSWORD_PRIVILEGED' });
+    expect(agents[0].logout).toHaveBeenCalled();
+    expect(await store.get('bot.example.com')).toBeUndefined();
+
+    await expect(provider({ allowDirectMessages: true }).signIn()).resolves.toBe(DID);
+  });
+
+  it('should refuse the account password', async () => {
+    issuedScope = 'com.atproto.access';
+
+    await expect(provider({ allowDirectMessages: true }).signIn()).rejects.toMatchObject({ code: 'APP_PASSWORD_REQUIRED' });
+  });
+
+  it('should report failed sign-ins and retry on the next call', async () => {
+    const credentials = provider({ password: 'wrong' });
+
+    await expect(credentials.signIn()).rejects.toMatchObject({ code: 'APP_PASSWORD_LOGIN_FAILED', statusCode: 401 });
+    await expect(credentials.signIn()).rejects.toThrow();
+    expect(agents).toHaveLength(2);
+  });
+
+  it('should only hand out agents for its own account', async () => {
+    const credentials = provider();
+
+    await expect(credentials.getAuthenticatedAgent('did:plc:someone-else')).rejects.toMatchObject({ code: 'AUTH_REQUIRED' });
+    expect(await credentials.hasValidSession('did:plc:someone-else')).toBe(false);
+    expect(await credentials.hasValidSession(DID)).toBe(true);
+  });
+
+  it('should delete the session on sign-out', async () => {
+    const credentials = provider();
+    await credentials.signIn();
+
+    await credentials.signOut();
+
+    expect(agents[0].logout).toHaveBeenCalled();
+    expect(await store.get('bot.example.com')).toBeUndefined();
+  });
+
+  it('should redact the password from its configuration', () => {
+    expect(provider().getConfig()).toEqual({
+      identifier: '@Bot.example.com',
+      password: '[redacted]',
+      service: 'https://bsky.social',
+      allowDirectMessages: false
+    });
+  });
+});
+
+describe('BlueskyService with an app password', () => {
+  it('should run API methods through the app-password agent', async () => {
+    const bluesky = new BlueskyService({
+      developmentMode: true,
+      cleanupInterval: 0,
+      appPassword: { identifier: 'bot.example.com', password: 'abcd-efgh-ijkl-mnop' }
+    });
+
+    const did = await bluesky.signInWithAppPassword();
+    const profile = await bluesky.getProfile(did, did);
+
+    expect(profile).toMatchObject({ success: true, data: { did: DID } });
+    expect(agents[0].getProfile).toHaveBeenCalledWith({ actor: DID });
+  });
+
+  it('should reject app-password calls on an OAuth-only service', async () => {
+    const bluesky = new BlueskyService({ developmentMode: true, cleanupInterval: 0 });
+
+    await expect(bluesky.signInWithAppPassword()).rejects.toMatchObject({ code: 'APP_PASSWORD_NOT_CONFIGURED' });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Unit tests for the client metadata builder
+ *
+ * Covers the loopback, hosted public and hosted confidential profiles and
+ * the rule violations validateClientMetadata reports.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { OAuthClientMetadataInput } from '@atproto/oauth-client-node';
+import { buildClientMetadata, loopbackClientId, validateClientMetadata } from '../client-metadata.js';
+
+const SCOPE = 'atproto transition:generic';
+
+const problemsOf = (metadata: OAuthClientMetadataInput): string => {
+  try {
+    validateClientMetadata(metadata);
+    return '';
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+describe('buildClientMetadata', () => {
+  it('should build a native public client for the loopback profile', () => {
+    const metadata = buildClientMetadata({
+      clientId: loopbackClientId('http://127.0.0.1:5174', SCOPE),
+      publicUrl: 'http://127.0.0.1:5174',
+      clientAuth: 'public',
+      scope: SCOPE
+    });
+
+    expect(metadata).toMatchObject({
+      application_type: 'native',
+      token_endpoint_auth_method: 'none',
+      redirect_uris: ['http://127.0.0.1:5174/'],
+      scope: SCOPE
+    });
+  });
+
+  it('should build a web client for a hosted public client ID', () => {
+    const metadata = buildClientMetadata({
+      clientId: 'https://playground.example.com/client-metadata.json',
+      publicUrl: 'https://playground.example.com',
+      clientAuth: 'public',
+      scope: SCOPE
+    });
+
+    expect(metadata).toMatchObject({ application_type: 'web', token_endpoint_auth_method: 'none' });
+    expect(metadata.jwks_uri).toBeUndefined();
+  });
+
+  it('should publish jwks_uri for a confidential client', () => {
+    const metadata = buildClientMetadata({
+      clientId: 'https://playground.example.com/client-metadata.json',
+      publicUrl: 'https://playground.example.com',
+      clientAuth: 'confidential',
+      scope: SCOPE
+    });
+
+    expect(metadata).toMatchObject({
+      application_type: 'web',
+      token_endpoint_auth_method: 'private_key_jwt',
+      token_endpoint_auth_signing_alg: 'ES256',
+      jwks_uri: 'https://playground.example.com/jwks.json'
+    });
+  });
+
+  it('should reject localhost redirect URIs in the loopback profile', () => {
+    expect(() =>
+      buildClientMetadata({
+        clientId: loopbackClientId('http://localhost:5173', SCOPE),
+        publicUrl: 'http://localhost:5173',
+        clientAuth: 'public',
+        scope: SCOPE
+      })
+    ).toThrow('Loopback redirect URIs must use http://127.0.0.1 or http://[::1]');
+  });
+
+  it('should reject confidential mode with a loopback client ID', () => {
+    expect(() =>
+      buildClientMetadata({
+        clientId: loopbackClientId('http://127.0.0.1:5174', SCOPE),
+        publicUrl: 'http://127.0.0.1:5174',
+        clientAuth: 'confidential',
+        scope: SCOPE
+      })
+    ).toThrow('Confidential client mode needs a hosted client ID');
+  });
+});
+
+describe('validateClientMetadata', () => {
+  const hosted: OAuthClientMetadataInput = {
+    client_id: 'https://playground.example.com/client-metadata.json',
+    client_uri: 'https://playground.example.com',
+    redirect_uris: ['https://playground.example.com/'],
+    grant_types: ['authorization_code', 'refresh_token'],
+    response_types: ['code'],
+    scope: SCOPE,
+    application_type: 'web',
+    token_endpoint_auth_method: 'none',
+    dpop_bound_access_tokens: true
+  };
+
+  it('should accept valid hosted metadata', () => {
+    expect(problemsOf(hosted)).toBe('');
+  });
+
+  it('should reject redirect URIs on another origin', () => {
+    expect(problemsOf({ ...hosted, redirect_uris: ['https://elsewhere.example.com/'] })).toContain(
+      'redirect_uri https://elsewhere.example.com/ must be https on the client_id origin https://playground.example.com'
+    );
+  });
+
+  it('should reject a hosted client ID without a document path', () => {
+    expect(problemsOf({ ...hosted, client_id: 'https://playground.example.com' })).toContain(
+      'A hosted client_id must be the https URL of the metadata document'
+    );
+  });
+
+  it('should reject scopes without atproto or with unknown entries', () => {
+    const message = problemsOf({ ...hosted, scope: 'transition:generic transition:everything' });
+
+    expect(message).toContain('scope must include "atproto"');
+    expect(message).toContain('scope contains invalid scopes: transition:everything');
+  });
+
+  it('should require keys for private_key_jwt and forbid them for public clients', () => {
+    expect(problemsOf({ ...hosted, token_endpoint_auth_method: 'private_key_jwt' })).toContain(
+      'private_key_jwt needs jwks_uri (or jwks)'
+    );
+    expect(problemsOf({ ...hosted, jwks_uri: 'https://playground.example.com/jwks.json' })).toContain(
+      'must not declare signing keys'
+    );
+  });
+
+  it('should report every problem at once', () => {
+    const message = problemsOf({ ...hosted, scope: 'transition:generic', dpop_bound_access_tokens: false });
+
+    expect(message.split('\n- ')).toHaveLength(3);
+  });
+
+  it('should reject a loopback client ID whose scope differs from the metadata', () => {
+    const metadata = buildClientMetadata({
+      clientId: loopbackClientId('http://127.0.0.1:5174', SCOPE),
+      publicUrl: 'http://127.0.0.1:5174',
+      clientAuth: 'public',
+      scope: SCOPE
+    });
+
+    expect(problemsOf({ ...metadata, scope: `${SCOPE} transition:chat.bsky` })).toContain(
+      'differs from the metadata scope'
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Unit tests for session envelope encryption
+ *
+ * Covers encrypt/decrypt round trips, tamper detection, lazy key rotation
+ * through EncryptedStore, and the production-mode key requirement.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { SessionEncryption, EncryptedStore, encryptionKeysFromEnv, isEncryptedEnvelope } from '../encryption.js';
+import type { EncryptedEnvelope } from '../encryption.js';
+import { MemoryStore } from '../stores.js';
+import { BlueskyOAuthService } from '../oauth.js';
+
+vi.mock('@atproto/oauth-client-node', () => ({
+  NodeOAuthClient: vi.fn()
+}));
+
+const newKey = (kid: string) => ({ kid, key: randomBytes(32).toString('base64') });
+
+const session = {
+  dpopJwk: { kty: 'EC', crv: 'P-256', d: 'private-key-material' },
+  tokenSet: { sub: 'did:plc:test123', refresh_token: 'refresh-secret' }
+};
+
+describe('SessionEncryption', () => {
+  it('should round-trip values without exposing plaintext', () => {
+    const encryption = new SessionEncryption([newKey('k1')]);
+
+    const envelope = encryption.encrypt(session, 'did:plc:test123');
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(envelope.kid).toBe('k1');
+    expect(JSON.stringify(envelope)).not.toContain('refresh-secret');
+    expect(encryption.decrypt(envelope, 'did:plc:test123')).toEqual(session);
+  });
+
+  it('should reject an envelope moved to another key', () => {
+    const encryption = new SessionEncryption([newKey('k1')]);
+    const envelope = encryption.encrypt(session, 'did:plc:alice');
+
+    expect(() => encryption.decrypt(envelope, 'did:plc:mallory')).toThrow('Failed to decrypt stored session');
+  });
+
+  it('should reject tampered ciphertext', () => {
+    const encryption = new SessionEncryption([newKey('k1')]);
+    const envelope = encryption.encrypt(session, 'did:plc:test123');
+    const bytes = Buffer.from(envelope.ciphertext, 'base64');
+    bytes[bytes.length - 1] ^= 0xff;
+
+    expect(() =>
+      encryption.decrypt({ ...envelope, ciphertext: bytes.toString('base64') }, 'did:plc:test123')
+    ).toThrow('Failed to decrypt stored session');
+  });
+
+  it('should reject malformed keys', () => {
+    expect(() => new SessionEncryption([])).toThrow('At least one session encryption key is required');
+    expect(() => new SessionEncryption([{ kid: 'short', key: 'c2hvcnQ=' }])).toThrow('must be 32 bytes');
+  });
+});
+
+describe('EncryptedStore', () => {
+  it('should lazily re-encrypt entries written under an old key', async () => {
+    const oldKey = newKey('old');
+    const inner = new MemoryStore<EncryptedEnvelope | typeof session>();
+    await new EncryptedStore(inner, new SessionEncryption([oldKey])).set('did:plc:test123', session);
+
+    const rotated = new EncryptedStore(inner, new SessionEncryption([newKey('new'), oldKey]));
+
+    expect((await inner.get('did:plc:test123') as EncryptedEnvelope).kid).toBe('old');
+    expect(await rotated.get('did:plc:test123')).toEqual(session);
+    expect((await inner.get('did:plc:test123') as EncryptedEnvelope).kid).toBe('new');
+  });
+
+  it('should encrypt legacy plaintext entries on read', async () => {
+    const inner = new MemoryStore<unknown>();
+    await inner.set('did:plc:test123', session);
+    const store = new EncryptedStore(inner, new SessionEncryption([newKey('k1')]));
+
+    expect(await store.get('did:plc:test123')).toEqual(session);
+    expect(isEncryptedEnvelope(await inner.get('did:plc:test123'))).toBe(true);
+  });
+});
+
+describe('encryptionKeysFromEnv', () => {
+  const original = process.env.SESSION_ENCRYPTION_KEYS;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.SESSION_ENCRYPTION_KEYS;
+    } else {
+      process.env.SESSION_ENCRYPTION_KEYS = original;
+    }
+  });
+
+  it('should parse kid:key pairs in order', () => {
+    process.env.SESSION_ENCRYPTION_KEYS = 'new:bmV3LWtleQ==, old:b2xkLWtleQ==';
+
+    expect(encryptionKeysFromEnv()).toEqual([
+      { kid: 'new', key: 'bmV3LWtleQ==' },
+      { kid: 'old', key: 'b2xkLWtleQ==' }
+    ]);
+  });
+
+  it('should return no keys when unset', () => {
+    delete process.env.SESSION_ENCRYPTION_KEYS;
+
+    expect(encryptionKeysFromEnv()).toEqual([]);
+  });
+});
+
+describe('BlueskyOAuthService encryption requirement', () => {
+  beforeEach(() => {
+    delete process.env.SESSION_ENCRYPTION_KEYS;
+  });
+
+  it('should refuse to start in production mode without a key', () => {
+    expect(() => new BlueskyOAuthService({ developmentMode: false })).toThrow('Session encryption key required');
+  });
+
+  it('should start in production mode with a key', () => {
+    const service = new BlueskyOAuthService({ developmentMode: false, encryptionKeys: [newKey('k1')] });
+
+    expect(service.getConfig().encryptionKeys).toEqual([{ kid: 'k1', key: '[redacted]' }]);
+  });
+
+  it('should allow plaintext storage in development mode', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(() => new BlueskyOAuthService({ developmentMode: true })).not.toThrow();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Unit tests for session and state expiry
+ *
+ * Covers fixed and sliding TTLs, sweeping and counting expired entries, and
+ * the cleanup/stats/sweeper wiring in BlueskyOAuthService.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { randomBytes } from 'node:crypto';
+import { ExpiringStore, isTrackedEntry } from '../expiry.js';
+import type { TrackedEntry } from '../expiry.js';
+import { isEncryptedEnvelope } from '../encryption.js';
+import { MemoryStore } from '../stores.js';
+import { BlueskyOAuthService } from '../oauth.js';
+
+vi.mock('@atproto/oauth-client-node', () => ({
+  NodeOAuthClient: vi.fn()
+}));
+
+const MINUTE = 60 * 1000;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('ExpiringStore', () => {
+  it('should wrap values with creation and last-use timestamps', async () => {
+    const inner = new MemoryStore<TrackedEntry<string> | string>();
+    const store = new ExpiringStore<string>(inner, { ttl: 60 });
+
+    await store.set('key', 'value');
+
+    expect(await inner.get('key')).toEqual({ createdAt: Date.now(), lastUsedAt: Date.now(), value: 'value' });
+    expect(await store.get('key')).toBe('value');
+  });
+
+  it('should expire fixed-TTL entries after creation regardless of use', async () => {
+    const store = new ExpiringStore<string>(new MemoryStore(), { ttl: 600 });
+    await store.set('state', 'pkce');
+
+    vi.advanceTimersByTime(9 * MINUTE);
+    expect(await store.get('state')).toBe('pkce');
+
+    vi.advanceTimersByTime(2 * MINUTE);
+    expect(await store.get('state')).toBeUndefined();
+  });
+
+  it('should keep sliding-TTL entries alive while they are used', async () => {
+    const inner = new MemoryStore<TrackedEntry<string> | string>();
+    const store = new ExpiringStore<string>(inner, { ttl: 600, sliding: true });
+    await store.set('did:plc:test123', 'session');
+
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(8 * MINUTE);
+      expect(await store.get('did:plc:test123')).toBe('session');
+    }
+
+    vi.advanceTimersByTime(11 * MINUTE);
+    expect(await store.get('did:plc:test123')).toBeUndefined();
+    expect(await inner.size()).toBe(0);
+  });
+
+  it('should keep the creation time when an entry is updated', async () => {
+    const inner = new MemoryStore<TrackedEntry<string> | string>();
+    const store = new ExpiringStore<string>(inner, { ttl: 600, sliding: true });
+    const createdAt = Date.now();
+    await store.set('did:plc:test123', 'tokens-v1');
+
+    vi.advanceTimersByTime(5 * MINUTE);
+    await store.set('did:plc:test123', 'tokens-v2');
+
+    expect(await inner.get('did:plc:test123')).toMatchObject({ createdAt, lastUsedAt: Date.now() });
+  });
+
+  it('should adopt entries written before tracking', async () => {
+    const inner = new MemoryStore<unknown>();
+    await inner.set('did:plc:test123', { tokenSet: {} });
+    const store = new ExpiringStore(inner, { ttl: 600 });
+
+    expect(await store.get('did:plc:test123')).toEqual({ tokenSet: {} });
+    expect(isTrackedEntry(await inner.get('did:plc:test123'))).toBe(true);
+  });
+
+  it('should sweep and count only expired entries', async () => {
+    const store = new ExpiringStore<string>(new MemoryStore(), { ttl: 600 });
+    await store.set('old', 'a');
+    vi.advanceTimersByTime(8 * MINUTE);
+    await store.set('new', 'b');
+    vi.advanceTimersByTime(3 * MINUTE);
+
+    expect(await store.stats()).toEqual({ active: 1, expired: 1 });
+    expect(await store.sweep()).toEqual(['old']);
+    expect(await store.stats()).toEqual({ active: 1, expired: 0 });
+  });
+});
+
+describe('BlueskyOAuthService expiry', () => {
+  let sessionStore: MemoryStore<TrackedEntry<unknown>>;
+  let stateStore: MemoryStore<TrackedEntry<unknown>>;
+
+  beforeEach(() => {
+    sessionStore = new MemoryStore();
+    stateStore = new MemoryStore();
+  });
+
+  const createService = (options: ConstructorParameters<typeof BlueskyOAuthService>[0] = {}) =>
+    new BlueskyOAuthService({
+      developmentMode: false,
+      encryptionKeys: [{ kid: 'k1', key: randomBytes(32).toString('base64') }],
+      storage: { sessionStore, stateStore },
+      sessionTTL: 3600,
+      stateTTL: 600,
+      cleanupInterval: 0,
+      ...options
+    });
+
+  const seed = async (service: BlueskyOAuthService) => {
+    // The client writes through these stores; reach them the same way it does
+    const stores = service as unknown as {
+      sessionStore: { set(key: string, value: unknown): Promise<void> };
+      stateStore: { set(key: string, value: unknown): Promise<void> };
+    };
+    await stores.sessionStore.set('did:plc:alice', { tokenSet: { sub: 'did:plc:alice' } });
+    await stores.stateStore.set('state-1', { iss: 'https://bsky.social' });
+  };
+
+  it('should keep timestamps readable outside the encrypted session', async () => {
+    await seed(createService());
+
+    const stored = (await sessionStore.get('did:plc:alice'))!;
+    expect(isTrackedEntry(stored)).toBe(true);
+    expect(isEncryptedEnvelope(stored.value)).toBe(true);
+  });
+
+  it('should report and delete expired entries in cleanup', async () => {
+    const service = createService();
+    await seed(service);
+
+    vi.advanceTimersByTime(30 * MINUTE);
+    expect(await service.getSessionStats()).toMatchObject({
+      activeSessions: 1,
+      expiredSessions: 0,
+      activeStates: 0,
+      expiredStates: 1
+    });
+
+    vi.advanceTimersByTime(31 * MINUTE);
+    expect(await service.cleanup()).toBe(2);
+    expect(await service.getSessionStats()).toMatchObject({
+      activeSessions: 0,
+      expiredSessions: 0,
+      activeStates: 0,
+      expiredStates: 0
+    });
+  });
+
+  it('should sweep in development mode too', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const service = createService({ developmentMode: true, encryptionKeys: [] });
+    await seed(service);
+
+    vi.advanceTimersByTime(61 * MINUTE);
+
+    expect(await service.cleanup()).toBe(2);
+  });
+
+  it('should sweep stores created with createExpiringStore', async () => {
+    const service = createService();
+    const store = service.createExpiringStore<{ accounts: string[] }>('expiring_test', { ttl: 600 });
+    await store.set('web-1', { accounts: ['did:plc:alice'] });
+
+    vi.advanceTimersByTime(11 * MINUTE);
+
+    expect(await service.cleanup()).toBe(1);
+    expect(await store.size()).toBe(0);
+  });
+
+  it('should run the sweeper periodically', async () => {
+    const service = createService({ cleanupInterval: 60 });
+    await seed(service);
+
+    await vi.advanceTimersByTimeAsync(61 * MINUTE);
+
+    expect(await sessionStore.size()).toBe(0);
+    expect(await stateStore.size()).toBe(0);
+    service.stopSweeper();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Unit tests for custom feeds
+ *
+ * Covers reading a feed as an enriched feed, generator metadata, and the
+ * saved feeds taken from preferences, against a mock agent.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BlueskyAPIService } from '../api.js';
+import type { AuthenticatedAgent } from '../types.js';
+
+const CREATOR = 'did:plc:creator';
+const feedUri = (rkey: string) => `at://${CREATOR}/app.bsky.feed.generator/${rkey}`;
+
+const generator = (rkey: string) => ({
+  uri: feedUri(rkey),
+  cid: `bafy${rkey}`,
+  did: 'did:web:feeds.example.com',
+  creator: { did: CREATOR, handle: 'creator.example.com' },
+  displayName: `Feed ${rkey}`,
+  likeCount: 3,
+  indexedAt: '2024-01-01T00:00:00Z'
+});
+
+describe('BlueskyAPIService custom feeds', () => {
+  let service: BlueskyAPIService;
+  let feed: Record<'getFeed' | 'getFeedGenerator' | 'getFeedGenerators' | 'getActorFeeds', ReturnType<typeof vi.fn>>;
+  let agent: { app: { bsky: { feed: typeof feed } }; getPreferences: ReturnType<typeof vi.fn>; getPostThread: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new BlueskyAPIService();
+    feed = {
+      getFeed: vi.fn(),
+      getFeedGenerator: vi.fn(),
+      getFeedGenerators: vi.fn(async ({ feeds }: { feeds: string[] }) => ({
+        data: { feeds: feeds.map((uri) => generator(uri.split('/').pop()!)) }
+      })),
+      getActorFeeds: vi.fn()
+    };
+    agent = { app: { bsky: { feed } }, getPreferences: vi.fn(), getPostThread: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const asAgent = () => agent as unknown as AuthenticatedAgent;
+
+  it('should return a feed in the enriched feed shape', async () => {
+    const post = {
+      uri: 'at://did:plc:alice/app.bsky.feed.post/1',
+      cid: 'bafy1',
+      author: { did: 'did:plc:alice', handle: 'alice.example.com' },
+      record: { text: 'hello', createdAt: '2024-01-01T00:00:00Z' },
+      indexedAt: '2024-01-01T00:00:00Z'
+    };
+    feed.getFeed.mockResolvedValue({
+      data: { feed: [{ post }, { post, reason: { $type: 'app.bsky.feed.defs#reasonRepost' } }], cursor: 'c2' }
+    });
+
+    const result = await service.getFeed(asAgent(), feedUri('cats'), 500, 'c1');
+
+    expect(feed.getFeed).toHaveBeenCalledWith({ feed: feedUri('cats'), limit: 100, cursor: 'c1' });
+    expect(result.data?.feed.map((item) => item.isRepost)).toEqual([false, true]);
+    expect(result.data?.analytics).toMatchObject({ totalItems: 2, originalPosts: 1, reposts: 1 });
+    expect(result.pagination).toEqual({ cursor: 'c2', hasMore: true, limit: 500 });
+  });
+
+  it('should report a generator with the health of its service', async () => {
+    feed.getFeedGenerator.mockResolvedValue({ data: { view: generator('cats'), isOnline: false, isValid: true } });
+
+    const result = await service.getFeedGenerator(asAgent(), feedUri('cats'));
+
+    expect(result.data).toEqual({ view: generator('cats'), isOnline: false, isValid: true });
+  });
+
+  it('should request generators in batches of 25', async () => {
+    const uris = Array.from({ length: 30 }, (_, i) => feedUri(String(i)));
+
+    const result = await service.getFeedGenerators(asAgent(), uris);
+
+    expect(feed.getFeedGenerators.mock.calls.map(([{ feeds }]) => feeds.length)).toEqual([25, 5]);
+    expect(result.data?.feeds).toHaveLength(30);
+  });
+
+  it("should page through an account's feeds", async () => {
+    feed.getActorFeeds.mockResolvedValue({ data: { feeds: [generator('cats')], cursor: 'c2' } });
+
+    const result = await service.getActorFeeds(asAgent(), CREATOR, 10);
+
+    expect(feed.getActorFeeds).toHaveBeenCalledWith({ actor: CREATOR, limit: 10, cursor: undefined });
+    expect(result).toMatchObject({ data: { feeds: [generator('cats')] }, pagination: { hasMore: true } });
+  });
+
+  it('should list saved custom feeds pinned first, skipping lists and the timeline', async () => {
+    agent.getPreferences.mockResolvedValue({
+      savedFeeds: [
+        { id: '1', type: 'timeline', value: 'following', pinned: true },
+        { id: '2', type: 'feed', value: feedUri('dogs'), pinned: false },
+        { id: '3', type: 'list', value: 'at://did:plc:me/app.bsky.graph.list/l1', pinned: true },
+        { id: '4', type: 'feed', value: feedUri('cats'), pinned: true }
+      ]
+    });
+
+    const result = await service.getSavedFeeds(asAgent());
+
+    expect(feed.getFeedGenerators).toHaveBeenCalledWith({ feeds: [feedUri('dogs'), feedUri('cats')] });
+    expect(result.data?.feeds.map((saved) => [saved.id, saved.pinned, saved.generator?.displayName])).toEqual([
+      ['4', true, 'Feed cats'],
+      ['2', false, 'Feed dogs']
+    ]);
+  });
+
+  it('should still list saved feeds when their generators cannot be fetched', async () => {
+    agent.getPreferences.mockResolvedValue({
+      savedFeeds: [{ id: '1', type: 'feed', value: feedUri('cats'), pinned: true }]
+    });
+    feed.getFeedGenerators.mockRejectedValue(new Error('upstream failure'));
+
+    const result = await service.getSavedFeeds(asAgent());
+
+    expect(result).toMatchObject({ success: true, data: { feeds: [{ id: '1', uri: feedUri('cats'), pinned: true }] } });
+    expect(result.data?.feeds[0].generator).toBeUndefined();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Unit tests for the auth guard hook
+ *
+ * Runs the handle hook against a stub service to cover locals population,
+ * accounts whose OAuth session has ended, profile caching, the redirect
+ * versus 401 responses for protected routes, and admin-only routes.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Cookies, RequestEvent } from '@sveltejs/kit';
+import { createAuthGuard } from '../guard.js';
+import type { BlueskyService } from '../index.js';
+import type { WebSession } from '../web-sessions.js';
+import type { DID } from '../types.js';
+
+const ALICE = 'did:plc:alice' as DID;
+const BOB = 'did:plc:bob' as DID;
+
+let session: WebSession | null;
+let validDids: Set<DID>;
+let service: {
+  getSessionAccounts: ReturnType<typeof vi.fn>;
+  hasValidSession: ReturnType<typeof vi.fn>;
+  setSessionExpired: ReturnType<typeof vi.fn>;
+  getProfile: ReturnType<typeof vi.fn>;
+  getAuthenticatedAgent: ReturnType<typeof vi.fn>;
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+  session = { accounts: [ALICE, BOB], activeDid: ALICE, createdAt: Date.now() };
+  validDids = new Set([ALICE, BOB]);
+  service = {
+    getSessionAccounts: vi.fn(async () => session),
+    hasValidSession: vi.fn(async (did: DID) => validDids.has(did)),
+    setSessionExpired: vi.fn(async (_cookies: Cookies, did: DID, expired: boolean) => {
+      const others = (session!.expired ?? []).filter((account) => account !== did);
+      session = { ...session!, expired: expired ? [...others, did] : others };
+    }),
+    getProfile: vi.fn(async (did: DID) => ({
+      success: true,
+      data: { did, handle: `${did.slice(8)}.bsky.social` }
+    })),
+    getAuthenticatedAgent: vi.fn(async (did: DID) => ({ did }))
+  };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const run = async (path: string, method = 'GET') => {
+  const handle = createAuthGuard(() => service as unknown as BlueskyService, {
+    protectedRoutes: ['/dashboard', '/api'],
+    adminRoutes: ['/admin', '/api/admin'],
+    adminDids: [BOB]
+  });
+  const event = {
+    url: new URL(`http://127.0.0.1${path}`),
+    request: new Request(`http://127.0.0.1${path}`, { method }),
+    cookies: {},
+    locals: {}
+  } as unknown as RequestEvent;
+  const resolve = vi.fn(async () => new Response('page'));
+
+  const response = await handle({ event, resolve });
+  return { response, locals: event.locals, resolve };
+};
+
+describe('createAuthGuard', () => {
+  it('should expose the active user and resolve the request', async () => {
+    const { response, locals } = await run('/dashboard');
+
+    expect(await response.text()).toBe('page');
+    expect(locals.user).toEqual({
+      did: ALICE,
+      handle: 'alice.bsky.social',
+      profile: { did: ALICE, handle: 'alice.bsky.social' },
+      accounts: [ALICE, BOB],
+      sessionExpired: false
+    });
+  });
+
+  it('should create the agent lazily and only once', async () => {
+    const { locals } = await run('/dashboard');
+    expect(service.getAuthenticatedAgent).not.toHaveBeenCalled();
+
+    const [first, second] = await Promise.all([locals.getAgent(), locals.getAgent()]);
+
+    expect(first).toBe(second);
+    expect(service.getAuthenticatedAgent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep an account whose OAuth session ended on the page and mark it expired', async () => {
+    validDids.delete(ALICE);
+
+    const { response, locals } = await run('/dashboard?demo=likes');
+
+    expect(await response.text()).toBe('page');
+    expect(service.setSessionExpired).toHaveBeenCalledWith({}, ALICE, true);
+    expect(service.getProfile).not.toHaveBeenCalled();
+    expect(locals.user).toMatchObject({ did: ALICE, handle: ALICE, accounts: [ALICE, BOB], sessionExpired: true });
+    await expect(locals.getAgent()).rejects.toMatchObject({ code: 'SESSION_EXPIRED' });
+    expect(service.getAuthenticatedAgent).not.toHaveBeenCalled();
+  });
+
+  it('should answer API requests for an expired account with 401 JSON', async () => {
+    validDids.delete(ALICE);
+
+    const { response, resolve } = await run('/api/timeline');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Session expired, sign in again', code: 'SESSION_EXPIRED' });
+    expect(resolve).not.toHaveBeenCalled();
+  });
+
+  it('should use a cached profile for an expired account and clear the mark once it is valid again', async () => {
+    const handle = createAuthGuard(() => service as unknown as BlueskyService);
+    const event = () =>
+      ({ url: new URL('http://127.0.0.1/'), request: new Request('http://127.0.0.1/'), cookies: {}, locals: {} }) as unknown as RequestEvent;
+    const resolve = async () => new Response('page');
+
+    await handle({ event: event(), resolve });
+    validDids.delete(ALICE);
+    const expired = event();
+    await handle({ event: expired, resolve });
+    validDids.add(ALICE);
+    const recovered = event();
+    await handle({ event: recovered, resolve });
+
+    expect(expired.locals.user).toMatchObject({ handle: 'alice.bsky.social', sessionExpired: true });
+    expect(recovered.locals.user).toMatchObject({ sessionExpired: false });
+    expect(service.setSessionExpired.mock.calls).toEqual([
+      [{}, ALICE, true],
+      [{}, ALICE, false]
+    ]);
+    expect(session!.expired).toEqual([]);
+  });
+
+  it('should redirect signed-out page requests to the login page with a return path', async () => {
+    session = null;
+
+    const { response, resolve } = await run('/dashboard?demo=likes');
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('/?returnTo=%2Fdashboard%3Fdemo%3Dlikes');
+    expect(resolve).not.toHaveBeenCalled();
+  });
+
+  it('should not carry a return path for non-GET requests', async () => {
+    session = null;
+
+    const { response } = await run('/dashboard', 'POST');
+
+    expect(response.headers.get('location')).toBe('/');
+  });
+
+  it('should answer signed-out API requests with 401 JSON', async () => {
+    session = null;
+
+    const { response } = await run('/api/timeline');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: 'Authentication required', code: 'AUTH_REQUIRED' });
+  });
+
+  it('should let signed-out requests through to public routes', async () => {
+    session = null;
+
+    const { response, locals } = await run('/apis');
+
+    expect(response.status).toBe(200);
+    expect(locals.user).toBeNull();
+    await expect(locals.getAgent()).rejects.toMatchObject({ code: 'AUTH_REQUIRED' });
+  });
+
+  it('should refuse admin routes to accounts not listed as admins', async () => {
+    await expect(run('/admin/audit')).rejects.toMatchObject({ status: 403 });
+
+    const { response } = await run('/api/admin/audit');
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Admin access required', code: 'FORBIDDEN' });
+  });
+
+  it('should let admins through and send signed-out visitors to the login page', async () => {
+    session = { accounts: [BOB], activeDid: BOB, createdAt: Date.now() };
+    expect((await run('/admin/audit')).response.status).toBe(200);
+
+    session = null;
+    const { response } = await run('/admin/audit');
+    expect(response.headers.get('location')).toBe('/?returnTo=%2Fadmin%2Faudit');
+  });
+
+  it('should reuse a fetched profile across requests', async () => {
+    const handle = createAuthGuard(() => service as unknown as BlueskyService);
+    const event = () =>
+      ({ url: new URL('http://127.0.0.1/'), request: new Request('http://127.0.0.1/'), cookies: {}, locals: {} }) as unknown as RequestEvent;
+    const resolve = async () => new Response('page');
+
+    await handle({ event: event(), resolve });
+    await handle({ event: event(), resolve });
+
+    expect(service.getProfile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Unit tests for confidential client signing keys
+ *
+ * Covers keyset generation and persistence, kid-based rotation, key
+ * validation, and the metadata/JWKS produced in confidential mode.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JoseKey } from '@atproto/jwk-jose';
+import { loadSigningKeys, rotateSigningKeys, publicJwks } from '../keyset.js';
+import { BlueskyOAuthService } from '../oauth.js';
+
+vi.mock('@atproto/oauth-client-node', () => ({
+  NodeOAuthClient: vi.fn()
+}));
+
+let tempDir: string;
+let keysetPath: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'bsky-keyset-'));
+  keysetPath = join(tempDir, 'keyset.json');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+describe('loadSigningKeys', () => {
+  it('should generate and persist a keyset on first use', async () => {
+    const [key] = await loadSigningKeys({ path: keysetPath });
+    const [reloaded] = await loadSigningKeys({ path: keysetPath });
+
+    expect(key.isPrivate).toBe(true);
+    expect(key.algorithms).toContain('ES256');
+    expect(reloaded.kid).toBe(key.kid);
+  });
+
+  it('should rotate an expired current key and keep the previous one', async () => {
+    const oldKid = await rotateSigningKeys(keysetPath);
+    const file = JSON.parse(await readFile(keysetPath, 'utf8'));
+    file.keys[0].createdAt = Date.now() - 100 * 24 * 60 * 60 * 1000;
+    await writeFile(keysetPath, JSON.stringify(file));
+
+    const keys = await loadSigningKeys({ path: keysetPath, rotateAfterDays: 90 });
+
+    expect(keys).toHaveLength(2);
+    expect(keys[0].kid).not.toBe(oldKid);
+    expect(keys[1].kid).toBe(oldKid);
+  });
+
+  it('should drop keys beyond the retention limit', async () => {
+    const first = await rotateSigningKeys(keysetPath, 2);
+    await rotateSigningKeys(keysetPath, 2);
+    await rotateSigningKeys(keysetPath, 2);
+
+    const kids = (await loadSigningKeys({ path: keysetPath })).map((key) => key.kid);
+
+    expect(kids).toHaveLength(2);
+    expect(kids).not.toContain(first);
+  });
+
+  it('should use explicit keys in order', async () => {
+    const current = await JoseKey.generate(['ES256'], 'current');
+    const previous = await JoseKey.generate(['ES256'], 'previous');
+
+    const keys = await loadSigningKeys({ keys: [current.privateJwk!, previous.privateJwk!], path: keysetPath });
+
+    expect(keys.map((key) => key.kid)).toEqual(['current', 'previous']);
+  });
+
+  it('should reject public keys and keys without a kid', async () => {
+    const key = await JoseKey.generate(['ES256'], 'k1');
+    const withoutKid = { ...key.privateJwk!, kid: undefined };
+
+    await expect(loadSigningKeys({ keys: [key.publicJwk!] })).rejects.toThrow('must be private ES256 keys');
+    await expect(loadSigningKeys({ keys: [withoutKid] })).rejects.toThrow('must be private ES256 keys');
+  });
+});
+
+describe('publicJwks', () => {
+  it('should publish every key without private material', async () => {
+    await rotateSigningKeys(keysetPath);
+    await rotateSigningKeys(keysetPath);
+
+    const jwks = publicJwks(await loadSigningKeys({ path: keysetPath }));
+
+    expect(jwks.keys).toHaveLength(2);
+    expect(JSON.stringify(jwks)).not.toContain('"d"');
+  });
+});
+
+describe('BlueskyOAuthService confidential mode', () => {
+  const options = {
+    developmentMode: true,
+    publicUrl: 'https://playground.example.com',
+    clientAuth: 'confidential' as const
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should describe private_key_jwt in the client metadata', () => {
+    const service = new BlueskyOAuthService({ ...options, keyset: { path: keysetPath } });
+
+    expect(service.getClientMetadata()).toMatchObject({
+      client_id: 'https://playground.example.com/client-metadata.json',
+      application_type: 'web',
+      token_endpoint_auth_method: 'private_key_jwt',
+      token_endpoint_auth_signing_alg: 'ES256',
+      jwks_uri: 'https://playground.example.com/jwks.json'
+    });
+  });
+
+  it('should publish the signing keys from getPublicJwks', async () => {
+    const service = new BlueskyOAuthService({ ...options, keyset: { path: keysetPath } });
+
+    const jwks = await service.getPublicJwks();
+
+    expect(jwks.keys).toHaveLength(1);
+    expect(jwks.keys[0]).toMatchObject({ kty: 'EC', crv: 'P-256' });
+  });
+
+  it('should reject the localhost client ID pattern', () => {
+    expect(() => new BlueskyOAuthService({ ...options, clientId: 'http://localhost?scope=atproto' })).toThrow(
+      'Confidential client mode needs a hosted client ID'
+    );
+  });
+
+  it('should keep public clients on token_endpoint_auth_method none', async () => {
+    const service = new BlueskyOAuthService({ developmentMode: true, clientAuth: 'public' });
+
+    expect(service.getClientMetadata().token_endpoint_auth_method).toBe('none');
+    expect(await service.getPublicJwks()).toEqual({ keys: [] });
+  });
+});
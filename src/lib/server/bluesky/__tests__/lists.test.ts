@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Unit tests for lists
+ *
+ * Covers how list purposes become curation, moderation and reference lists,
+ * members and list feeds, and the lists the user mutes or blocks, against a
+ * mock agent.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BlueskyAPIService } from '../api.js';
+import type { AuthenticatedAgent } from '../types.js';
+
+const ME = 'did:plc:me';
+const listUri = (rkey: string) => `at://${ME}/app.bsky.graph.list/${rkey}`;
+
+const listView = (rkey: string, purpose: string, viewer?: object) => ({
+  uri: listUri(rkey),
+  cid: `bafy${rkey}`,
+  creator: { did: ME, handle: 'me.example.com' },
+  name: `List ${rkey}`,
+  purpose,
+  listItemCount: 2,
+  viewer,
+  indexedAt: '2024-01-01T00:00:00Z'
+});
+
+describe('BlueskyAPIService lists', () => {
+  let service: BlueskyAPIService;
+  let graph: Record<'getLists' | 'getList' | 'getListMutes' | 'getListBlocks', ReturnType<typeof vi.fn>>;
+  let agent: {
+    app: { bsky: { graph: typeof graph; feed: { getListFeed: ReturnType<typeof vi.fn> } } };
+    getPostThread: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new BlueskyAPIService();
+    graph = { getLists: vi.fn(), getList: vi.fn(), getListMutes: vi.fn(), getListBlocks: vi.fn() };
+    agent = { app: { bsky: { graph, feed: { getListFeed: vi.fn() } } }, getPostThread: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const asAgent = () => agent as unknown as AuthenticatedAgent;
+
+  it('should tell curation, moderation and reference lists apart', async () => {
+    graph.getLists.mockResolvedValue({
+      data: {
+        lists: [
+          listView('a', 'app.bsky.graph.defs#curatelist', { muted: false }),
+          listView('b', 'app.bsky.graph.defs#modlist', { muted: true }),
+          listView('c', 'app.bsky.graph.defs#referencelist'),
+          listView('d', 'app.bsky.graph.defs#somethingnew')
+        ],
+        cursor: 'c2'
+      }
+    });
+
+    const result = await service.getLists(asAgent(), ME);
+
+    expect(result.data?.lists.map((list) => list.kind)).toEqual(['curation', 'moderation', 'reference', 'reference']);
+    expect(result.data?.lists[0]).not.toHaveProperty('viewer');
+    expect(result.data?.lists[1]).toMatchObject({ kind: 'moderation', viewer: { muted: true } });
+    expect(result.pagination).toEqual({ cursor: 'c2', hasMore: true, limit: 50 });
+  });
+
+  it('should ask only for the requested kind of list', async () => {
+    graph.getLists.mockResolvedValue({ data: { lists: [] } });
+
+    await service.getLists(asAgent(), ME, 'moderation', 10, 'c1');
+
+    expect(graph.getLists).toHaveBeenCalledWith({ actor: ME, purposes: ['modlist'], limit: 10, cursor: 'c1' });
+  });
+
+  it('should return a list with a page of its members', async () => {
+    const alice = { did: 'did:plc:alice', handle: 'alice.example.com' };
+    graph.getList.mockResolvedValue({
+      data: {
+        list: listView('a', 'app.bsky.graph.defs#curatelist'),
+        items: [{ uri: 'at://did:plc:me/app.bsky.graph.listitem/1', subject: alice }],
+        cursor: 'c2'
+      }
+    });
+
+    const result = await service.getList(asAgent(), listUri('a'), 200);
+
+    expect(graph.getList).toHaveBeenCalledWith({ list: listUri('a'), limit: 100, cursor: undefined });
+    expect(result.data).toMatchObject({
+      list: { kind: 'curation', name: 'List a' },
+      members: [{ uri: 'at://did:plc:me/app.bsky.graph.listitem/1', subject: alice }],
+      cursor: 'c2'
+    });
+  });
+
+  it('should return a list feed in the enriched feed shape', async () => {
+    const post = {
+      uri: 'at://did:plc:alice/app.bsky.feed.post/1',
+      cid: 'bafy1',
+      author: { did: 'did:plc:alice', handle: 'alice.example.com' },
+      record: { text: 'hello', createdAt: '2024-01-01T00:00:00Z' },
+      indexedAt: '2024-01-01T00:00:00Z'
+    };
+    agent.app.bsky.feed.getListFeed.mockResolvedValue({ data: { feed: [{ post }] } });
+
+    const result = await service.getListFeed(asAgent(), listUri('a'));
+
+    expect(result.data?.feed).toHaveLength(1);
+    expect(result.data?.analytics.totalItems).toBe(1);
+    expect(result.pagination?.hasMore).toBe(false);
+  });
+
+  it('should list the moderation lists the user mutes and blocks', async () => {
+    graph.getListMutes.mockResolvedValue({ data: { lists: [listView('m', 'app.bsky.graph.defs#modlist', { muted: true })] } });
+    graph.getListBlocks.mockRejectedValue(new Error('upstream failure'));
+
+    const muted = await service.getListMutes(asAgent(), 20);
+    const blocked = await service.getListBlocks(asAgent());
+
+    expect(graph.getListMutes).toHaveBeenCalledWith({ limit: 20, cursor: undefined });
+    expect(muted.data?.lists).toMatchObject([{ kind: 'moderation', viewer: { muted: true } }]);
+    expect(blocked.success).toBe(false);
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * @fileoverview Tests for the token refresh locks
+ *
+ * Covers the lock backends and runs concurrent getAuthenticatedAgent calls
+ * against an expiring session: the real NodeOAuthClient refreshes at a local
+ * stand-in authorization server that rotates single-use refresh tokens.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JoseKey } from '@atproto/jwk-jose';
+import { OAuthServerAgent } from '@atproto/oauth-client-node';
+import type { NodeSavedSession, NodeSavedState } from '@atproto/oauth-client-node';
+import { FileLock, MemoryLock, createLockProvider } from '../locks.js';
+import { BlueskyOAuthService } from '../oauth.js';
+import { MemoryStore } from '../stores.js';
+import type { TrackedEntry } from '../expiry.js';
+import type { LockProvider } from '../types.js';
+
+const USER_DID = 'did:plc:abcdefghijklmnopqrstuvwx';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'bsky-locks-'));
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+// Records when each holder runs, to check nobody overlaps
+const track = (lock: LockProvider, name: string, log: string[], id: string) =>
+  lock.withLock(name, async () => {
+    log.push(`start ${id}`);
+    await sleep(20);
+    log.push(`end ${id}`);
+    return id;
+  });
+
+describe('MemoryLock', () => {
+  it('should run holders of the same name one at a time', async () => {
+    const lock = new MemoryLock();
+    const log: string[] = [];
+
+    const results = await Promise.all(['a', 'b', 'c'].map((id) => track(lock, 'session', log, id)));
+
+    expect(results).toEqual(['a', 'b', 'c']);
+    expect(log).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+  });
+
+  it('should not hold up other names or stay locked after an error', async () => {
+    const lock = new MemoryLock();
+    const log: string[] = [];
+
+    await expect(lock.withLock('session', () => Promise.reject(new Error('refresh failed')))).rejects.toThrow(
+      'refresh failed'
+    );
+    await Promise.all([track(lock, 'session', log, 'a'), track(lock, 'other', log, 'b')]);
+
+    expect(log.slice(0, 2)).toEqual(['start a', 'start b']);
+  });
+});
+
+describe('FileLock', () => {
+  it('should exclude holders in other processes sharing the directory', async () => {
+    // Separate instances stand in for separate processes
+    const log: string[] = [];
+
+    await Promise.all([
+      track(new FileLock(tempDir), 'session', log, 'a'),
+      track(new FileLock(tempDir), 'session', log, 'b')
+    ]);
+
+    expect(log).toEqual(expect.arrayContaining(['start a', 'end a', 'start b', 'end b']));
+    expect(log[1]).toBe(`end ${log[0].slice(6)}`);
+    expect(await readdir(tempDir)).toEqual([]);
+  });
+
+  it('should time out while another process holds the lock', async () => {
+    const holder = new FileLock(tempDir);
+    let release!: () => void;
+    const held = holder.withLock('session', () => new Promise<void>((resolve) => (release = resolve)));
+    await vi.waitFor(async () => expect(await readdir(tempDir)).toHaveLength(1));
+
+    await expect(new FileLock(tempDir, 100).withLock('session', () => 'never')).rejects.toMatchObject({
+      name: 'OAuthError',
+      code: 'LOCK_TIMEOUT'
+    });
+
+    release();
+    await held;
+  });
+
+  it('should break a lock abandoned by a crashed process', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // A holder that never finishes, with a lock file as old as a crashed one
+    new FileLock(tempDir).withLock('session', () => new Promise(() => {}));
+    await vi.waitFor(async () => expect(await readdir(tempDir)).toHaveLength(1));
+    const [file] = await readdir(tempDir);
+    const old = new Date(Date.now() - 60_000);
+    await utimes(join(tempDir, file), old, old);
+
+    await expect(new FileLock(tempDir, 1000, 5000).withLock('session', () => 'acquired')).resolves.toBe('acquired');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Broke stale OAuth lock'));
+  });
+
+  it('should let only one of several waiters break the same stale lock', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const log: string[] = [];
+    let lockFile!: string;
+    await new FileLock(tempDir).withLock('session', async () => {
+      [lockFile] = await readdir(tempDir);
+    });
+    // Left behind by a crashed holder, unchanged for a minute
+    await writeFile(join(tempDir, lockFile), JSON.stringify({ owner: 'crashed' }));
+    const old = new Date(Date.now() - 60_000);
+    await utimes(join(tempDir, lockFile), old, old);
+
+    await Promise.all(['a', 'b', 'c'].map((id) => track(new FileLock(tempDir, 2000, 5000), 'session', log, id)));
+
+    // Each holder finished before the next one started
+    expect(log).toHaveLength(6);
+    for (let i = 0; i < log.length; i += 2) {
+      expect(log[i + 1]).toBe(log[i].replace('start', 'end'));
+    }
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect(await readdir(tempDir)).toEqual([]);
+  });
+
+  it('should put back a live lock taken after it was judged stale', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let release!: () => void;
+    const held = new FileLock(tempDir).withLock('session', () => new Promise<void>((resolve) => (release = resolve)));
+    await vi.waitFor(async () => expect(await readdir(tempDir)).toHaveLength(1));
+    const [lockFile] = await readdir(tempDir);
+
+    // The waiter's first look happened before another waiter broke the stale lock and took it
+    const waiter = new FileLock(tempDir, 100, 5000);
+    vi.spyOn(waiter as unknown as { isStale(path: string): Promise<boolean> }, 'isStale').mockResolvedValueOnce(true);
+
+    await expect(waiter.withLock('session', () => 'never')).rejects.toMatchObject({ code: 'LOCK_TIMEOUT' });
+    expect(await readdir(tempDir)).toEqual([lockFile]);
+    expect(console.warn).not.toHaveBeenCalled();
+
+    release();
+    await held;
+    expect(await readdir(tempDir)).toEqual([]);
+  });
+
+  it('should keep the lock of a holder that runs longer than staleAfter', async () => {
+    const log: string[] = [];
+    const slow = new FileLock(tempDir, 2000, 150).withLock('session', async () => {
+      log.push('start slow');
+      await sleep(500);
+      log.push('end slow');
+    });
+    await vi.waitFor(() => expect(log).toEqual(['start slow']));
+
+    await track(new FileLock(tempDir, 2000, 150), 'session', log, 'other');
+    await slow;
+
+    expect(log).toEqual(['start slow', 'end slow', 'start other', 'end other']);
+  });
+});
+
+describe('createLockProvider', () => {
+  it('should share the in-process lock and honour custom providers', () => {
+    const provider = new MemoryLock();
+
+    expect(createLockProvider()).toBe(createLockProvider({ backend: 'memory' }));
+    expect(createLockProvider({ backend: 'file', path: tempDir })).toBeInstanceOf(FileLock);
+    expect(createLockProvider({ backend: 'file', provider })).toBe(provider);
+  });
+
+  it('should reject an unknown backend', () => {
+    expect(() => createLockProvider({ backend: 'redis' as 'memory' })).toThrow('Unknown OAuth lock backend: redis');
+  });
+});
+
+// ============================================================================
+// Concurrent refresh of one session
+// ============================================================================
+
+describe('concurrent token refresh', () => {
+  // Stand-in authorization server: refresh tokens can be used once
+  let server: Server;
+  let issuer: string;
+  let refreshes: number;
+  let validRefreshToken: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const json = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      if (req.url === '/.well-known/oauth-authorization-server') {
+        return json(200, {
+          issuer,
+          authorization_endpoint: `${issuer}/oauth/authorize`,
+          token_endpoint: `${issuer}/oauth/token`,
+          pushed_authorization_request_endpoint: `${issuer}/oauth/par`,
+          require_pushed_authorization_requests: true,
+          response_types_supported: ['code'],
+          grant_types_supported: ['authorization_code', 'refresh_token'],
+          code_challenge_methods_supported: ['S256'],
+          token_endpoint_auth_methods_supported: ['none', 'private_key_jwt'],
+          token_endpoint_auth_signing_alg_values_supported: ['ES256'],
+          scopes_supported: ['atproto', 'transition:generic'],
+          dpop_signing_alg_values_supported: ['ES256'],
+          authorization_response_iss_parameter_supported: true,
+          client_id_metadata_document_supported: true
+        });
+      }
+
+      if (req.url === '/oauth/token' && req.method === 'POST') {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          const refreshToken = new URLSearchParams(body).get('refresh_token');
+          if (refreshToken !== validRefreshToken) {
+            return json(400, { error: 'invalid_grant', error_description: 'Refresh token already used' });
+          }
+          refreshes++;
+          validRefreshToken = `refresh-token-${refreshes}`;
+          // Slow enough for concurrent callers to pile up
+          setTimeout(
+            () =>
+              json(200, {
+                access_token: `access-token-${refreshes}`,
+                token_type: 'DPoP',
+                refresh_token: validRefreshToken,
+                scope: 'atproto transition:generic',
+                expires_in: 3600,
+                sub: USER_DID
+              }),
+            50
+          );
+        });
+        return;
+      }
+
+      json(404, { error: 'not_found' });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  let sessionStore: MemoryStore<NodeSavedSession>;
+  let storage: { sessionStore: MemoryStore<NodeSavedSession>; stateStore: MemoryStore<NodeSavedState> };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // The DID is not resolvable here; trust the stand-in server as its issuer
+    vi.spyOn(OAuthServerAgent.prototype as unknown as { verifyIssuer(): Promise<string> }, 'verifyIssuer').mockResolvedValue(
+      'http://127.0.0.1:1'
+    );
+
+    refreshes = 0;
+    validRefreshToken = 'refresh-token';
+    sessionStore = new MemoryStore<NodeSavedSession>();
+    storage = { sessionStore, stateStore: new MemoryStore<NodeSavedState>() };
+
+    // Access token already expired, so the next use refreshes it
+    const dpopKey = await JoseKey.generate(['ES256']);
+    await sessionStore.set(USER_DID, {
+      dpopJwk: dpopKey.privateJwk!,
+      authMethod: { method: 'none' },
+      tokenSet: {
+        iss: issuer,
+        sub: USER_DID,
+        aud: 'http://127.0.0.1:1',
+        scope: 'atproto transition:generic',
+        access_token: 'access-token',
+        refresh_token: 'refresh-token',
+        token_type: 'DPoP',
+        expires_at: new Date(Date.now() - 60 * 1000).toISOString()
+      }
+    } as NodeSavedSession);
+  });
+
+  // Seeded as a bare session; written back by the service as a tracked entry
+  const storedAccessToken = async () => {
+    const entry = (await sessionStore.get(USER_DID)) as unknown as TrackedEntry<NodeSavedSession> | undefined;
+    return entry?.value.tokenSet.access_token;
+  };
+
+  it('should refresh once for concurrent getAuthenticatedAgent calls', async () => {
+    const service = new BlueskyOAuthService({ developmentMode: true, cleanupInterval: 0, storage });
+
+    const agents = await Promise.all(Array.from({ length: 5 }, () => service.getAuthenticatedAgent(USER_DID)));
+
+    expect(agents).toHaveLength(5);
+    expect(refreshes).toBe(1);
+    expect(await storedAccessToken()).toBe('access-token-1');
+  });
+
+  it('should refresh once when several processes share the session store and a file lock', async () => {
+    const withLock = vi.spyOn(FileLock.prototype, 'withLock');
+
+    // Each service has its own OAuth client, as it would in its own process
+    const services: BlueskyOAuthService[] = [];
+    for (let i = 0; i < 3; i++) {
+      const service = new BlueskyOAuthService({
+        developmentMode: true,
+        cleanupInterval: 0,
+        storage,
+        lock: { backend: 'file', path: tempDir }
+      });
+      services.push(service);
+    }
+
+    const agents = await Promise.all(
+      services.flatMap((service) => [service.getAuthenticatedAgent(USER_DID), service.getAuthenticatedAgent(USER_DID)])
+    );
+
+    expect(agents).toHaveLength(6);
+    expect(refreshes).toBe(1);
+    expect(await storedAccessToken()).toBe('access-token-1');
+    // Clients in one process also share the library's fallback lock, so check ours was taken
+    expect(withLock).toHaveBeenCalledWith(`@atproto-oauth-client-${USER_DID}`, expect.any(Function));
+    expect(await readdir(tempDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Tests for token revocation on logout
+ *
+ * Runs the real NodeOAuthClient against a local stand-in authorization
+ * server that records revocation requests, so the full sign-out path is
+ * exercised without touching the network.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Cookies } from '@sveltejs/kit';
+import { JoseKey } from '@atproto/jwk-jose';
+import type { NodeSavedSession, NodeSavedState } from '@atproto/oauth-client-node';
+import { BlueskyOAuthService } from '../oauth.js';
+import { BlueskyService } from '../index.js';
+import { MemoryStore, createOAuthStore } from '../stores.js';
+import { SESSION_COOKIE, WebSessionManager } from '../web-sessions.js';
+import type { WebSession } from '../web-sessions.js';
+import type { AuthEvent } from '../types.js';
+
+const USER_DID = 'did:plc:abcdefghijklmnopqrstuvwx';
+
+// Stand-in authorization server: serves metadata and records revocations
+let server: Server;
+let issuer: string;
+let revokedTokens: string[];
+let revocationStatus: number;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/oauth-authorization-server') {
+      return json(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/oauth/authorize`,
+        token_endpoint: `${issuer}/oauth/token`,
+        revocation_endpoint: `${issuer}/oauth/revoke`,
+        pushed_authorization_request_endpoint: `${issuer}/oauth/par`,
+        require_pushed_authorization_requests: true,
+        response_types_supported: ['code'],
+        grant_types_supported: ['authorization_code', 'refresh_token'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['none', 'private_key_jwt'],
+        token_endpoint_auth_signing_alg_values_supported: ['ES256'],
+        scopes_supported: ['atproto', 'transition:generic'],
+        dpop_signing_alg_values_supported: ['ES256'],
+        authorization_response_iss_parameter_supported: true,
+        client_id_metadata_document_supported: true
+      });
+    }
+
+    if (req.url === '/oauth/revoke' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        if (revocationStatus !== 200) {
+          return json(revocationStatus, { error: 'server_error' });
+        }
+        revokedTokens.push(new URLSearchParams(body).get('token')!);
+        json(200, {});
+      });
+      return;
+    }
+
+    json(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const seedSession = async (store: MemoryStore<NodeSavedSession>) => {
+  const dpopKey = await JoseKey.generate(['ES256']);
+  await store.set(USER_DID, {
+    dpopJwk: dpopKey.privateJwk!,
+    authMethod: { method: 'none' },
+    tokenSet: {
+      iss: issuer,
+      sub: USER_DID,
+      aud: 'http://127.0.0.1:1',
+      scope: 'atproto transition:generic',
+      access_token: 'access-token',
+      refresh_token: 'refresh-token',
+      token_type: 'DPoP',
+      expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    }
+  } as NodeSavedSession);
+};
+
+let sessionStore: MemoryStore<NodeSavedSession>;
+let storage: { sessionStore: MemoryStore<NodeSavedSession>; stateStore: MemoryStore<NodeSavedState> };
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  revokedTokens = [];
+  revocationStatus = 200;
+  sessionStore = new MemoryStore<NodeSavedSession>();
+  storage = { sessionStore, stateStore: new MemoryStore<NodeSavedState>() };
+  await seedSession(sessionStore);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('BlueskyOAuthService.logout', () => {
+  it('should revoke the refresh and access tokens and delete the session', async () => {
+    const service = new BlueskyOAuthService({ developmentMode: true, storage });
+
+    const result = await service.logout(USER_DID);
+
+    expect(result).toEqual({ userDid: USER_DID, revoked: true });
+    expect(revokedTokens).toEqual(['refresh-token', 'access-token']);
+    expect(await sessionStore.get(USER_DID)).toBeUndefined();
+  });
+
+  it('should record a rejected revocation and still delete the session', async () => {
+    revocationStatus = 500;
+    const service = new BlueskyOAuthService({ developmentMode: true, storage });
+
+    const result = await service.logout(USER_DID);
+
+    expect(result.revoked).toBe(false);
+    expect(result.error).toBeDefined();
+    expect(await sessionStore.get(USER_DID)).toBeUndefined();
+    expect(service.getRevocationFailures()).toEqual([
+      expect.objectContaining({ userDid: USER_DID, error: result.error })
+    ]);
+    expect((await service.getSessionStats()).revocationFailures).toBe(1);
+  });
+
+  it('should record an unreachable authorization server', async () => {
+    const saved = (await sessionStore.get(USER_DID))!;
+    await sessionStore.set(USER_DID, { ...saved, tokenSet: { ...saved.tokenSet, iss: 'http://127.0.0.1:1' } });
+    const service = new BlueskyOAuthService({ developmentMode: true, storage });
+
+    const result = await service.logout(USER_DID);
+
+    expect(result.revoked).toBe(false);
+    expect(await sessionStore.get(USER_DID)).toBeUndefined();
+    expect(service.getRevocationFailures()).toHaveLength(1);
+  });
+
+  it('should emit a single logout event for the revoked session', async () => {
+    const service = new BlueskyOAuthService({ developmentMode: true, storage });
+    const events: AuthEvent[] = [];
+    service.addAuthEventListener((event) => events.push(event));
+
+    await service.logout(USER_DID);
+
+    // signOut() makes the client report the session as deleted; that is not a separate event
+    expect(events).toEqual([{ type: 'logout', did: USER_DID, reason: 'revoked', timestamp: expect.any(String) }]);
+  });
+
+  it('should report nothing to revoke without a stored session', async () => {
+    await sessionStore.del(USER_DID);
+    const service = new BlueskyOAuthService({ developmentMode: true, storage });
+
+    expect(await service.logout(USER_DID)).toEqual({ userDid: USER_DID, revoked: false });
+    expect(revokedTokens).toEqual([]);
+  });
+});
+
+describe('BlueskyService.logout', () => {
+  it('should clear the browser session even when revocation fails', async () => {
+    revocationStatus = 500;
+    const jar = new Map<string, string>();
+    const cookies = {
+      get: (name: string) => jar.get(name),
+      set: (name: string, value: string) => void jar.set(name, value),
+      delete: (name: string) => void jar.delete(name)
+    } as unknown as Cookies;
+
+    const bluesky = new BlueskyService({ developmentMode: true, storage, sessionSecret: 'test-secret' });
+    // Sign in through a manager sharing the service's web session store and secret
+    await new WebSessionManager(createOAuthStore<WebSession>({}, 'web_session'), {
+      secret: 'test-secret',
+      developmentMode: true
+    }).create(cookies, USER_DID);
+
+    const result = await bluesky.logout(cookies);
+
+    expect(result).toMatchObject({ userDid: USER_DID, revoked: false });
+    expect(jar.has(SESSION_COOKIE)).toBe(false);
+    expect(bluesky.getRevocationFailures()).toHaveLength(1);
+  });
+
+  it('should sign out every browser and revoke the tokens when signing out everywhere', async () => {
+    const browser = () => {
+      const jar = new Map<string, string>();
+      return {
+        get: (name: string) => jar.get(name),
+        set: (name: string, value: string) => void jar.set(name, value),
+        delete: (name: string) => void jar.delete(name)
+      } as unknown as Cookies;
+    };
+    const laptop = browser();
+    const phone = browser();
+
+    const bluesky = new BlueskyService({ developmentMode: true, storage, sessionSecret: 'test-secret' });
+    const manager = new WebSessionManager(createOAuthStore<WebSession>({}, 'web_session'), {
+      secret: 'test-secret',
+      developmentMode: true
+    });
+    await manager.create(laptop, USER_DID);
+    await manager.create(phone, USER_DID);
+    expect(await bluesky.listSessions(laptop)).toHaveLength(2);
+
+    const result = await bluesky.signOutEverywhere(laptop);
+
+    expect(result).toEqual({ userDid: USER_DID, revoked: true });
+    expect(revokedTokens).toEqual(['refresh-token', 'access-token']);
+    expect(await bluesky.getSessionDid(phone)).toBeNull();
+    expect(await bluesky.getSessionDid(laptop)).toBeNull();
+  });
+});
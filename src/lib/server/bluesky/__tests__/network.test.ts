@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Unit tests for the network configuration
+ *
+ * Covers option parsing and the authorization server allowlist, and how
+ * BlueskyOAuthService applies both to the OAuth client, sign-in and API
+ * calls (the OAuth client is replaced with a mock).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NodeOAuthClient } from '@atproto/oauth-client-node';
+import {
+  DEFAULT_PLC_DIRECTORY_URL,
+  isAllowedAuthorizationServer,
+  networkOptionsFromEnv,
+  resolveNetworkOptions
+} from '../network.js';
+import { BlueskyOAuthService } from '../oauth.js';
+import type { BlueskyServiceOptions } from '../types.js';
+
+vi.mock('@atproto/oauth-client-node', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@atproto/oauth-client-node')>()),
+  NodeOAuthClient: vi.fn()
+}));
+
+const USER_DID = 'did:plc:abcdefghijklmnopqrstuvwx';
+const LOCAL_PDS = 'http://localhost:2583';
+
+describe('resolveNetworkOptions', () => {
+  it('should default to the public PLC directory and allow every server', () => {
+    expect(resolveNetworkOptions()).toEqual({
+      handleResolver: undefined,
+      plcDirectoryUrl: DEFAULT_PLC_DIRECTORY_URL,
+      allowedAuthorizationServers: [],
+      entryway: undefined
+    });
+  });
+
+  it('should reduce every URL to its origin', () => {
+    expect(
+      resolveNetworkOptions({
+        handleResolver: `${LOCAL_PDS}/`,
+        plcDirectoryUrl: 'http://localhost:2582/some/path',
+        allowedAuthorizationServers: [`${LOCAL_PDS}/`],
+        entryway: LOCAL_PDS
+      })
+    ).toEqual({
+      handleResolver: LOCAL_PDS,
+      plcDirectoryUrl: 'http://localhost:2582',
+      allowedAuthorizationServers: [LOCAL_PDS],
+      entryway: LOCAL_PDS
+    });
+  });
+
+  it.each([
+    { plcDirectoryUrl: 'plc.local' },
+    { entryway: 'ftp://pds.local' },
+    { allowedAuthorizationServers: ['not a url'] }
+  ])('should reject %j', (options) => {
+    expect(() => resolveNetworkOptions(options)).toThrow(expect.objectContaining({ code: 'INVALID_NETWORK_CONFIG' }));
+  });
+});
+
+describe('isAllowedAuthorizationServer', () => {
+  it('should compare issuers by origin', () => {
+    expect(isAllowedAuthorizationServer(`${LOCAL_PDS}/`, [LOCAL_PDS])).toBe(true);
+    expect(isAllowedAuthorizationServer('https://bsky.social', [LOCAL_PDS])).toBe(false);
+    expect(isAllowedAuthorizationServer(undefined, [LOCAL_PDS])).toBe(false);
+  });
+
+  it('should allow any server when the list is empty', () => {
+    expect(isAllowedAuthorizationServer('https://bsky.social', [])).toBe(true);
+  });
+});
+
+describe('networkOptionsFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should read the resolver, directory, allowlist and entryway', () => {
+    vi.stubEnv('ATPROTO_HANDLE_RESOLVER', LOCAL_PDS);
+    vi.stubEnv('ATPROTO_PLC_DIRECTORY_URL', 'http://localhost:2582');
+    vi.stubEnv('OAUTH_ALLOWED_ISSUERS', ` ${LOCAL_PDS}, https://staging.example.com ,`);
+    vi.stubEnv('OAUTH_ENTRYWAY', LOCAL_PDS);
+
+    expect(networkOptionsFromEnv()).toEqual({
+      handleResolver: LOCAL_PDS,
+      plcDirectoryUrl: 'http://localhost:2582',
+      allowedAuthorizationServers: [LOCAL_PDS, 'https://staging.example.com'],
+      entryway: LOCAL_PDS
+    });
+  });
+});
+
+describe('BlueskyOAuthService on a self-hosted network', () => {
+  const network = {
+    handleResolver: LOCAL_PDS,
+    plcDirectoryUrl: 'http://localhost:2582',
+    allowedAuthorizationServers: [LOCAL_PDS],
+    entryway: LOCAL_PDS
+  };
+  let client: {
+    authorize: ReturnType<typeof vi.fn>;
+    callback: ReturnType<typeof vi.fn>;
+    restore: ReturnType<typeof vi.fn>;
+  };
+
+  const session = (issuer: string) => ({
+    did: USER_DID,
+    sub: USER_DID,
+    serverMetadata: { issuer },
+    getTokenInfo: vi.fn(async () => ({ expiresAt: new Date(Date.now() + 60 * 60 * 1000) })),
+    fetchHandler: vi.fn()
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    client = {
+      authorize: vi.fn(async () => new URL(`${LOCAL_PDS}/oauth/authorize?request_uri=r1`)),
+      callback: vi.fn(),
+      restore: vi.fn()
+    };
+    vi.mocked(NodeOAuthClient).mockImplementation(
+      () => ({ ...client, addEventListener: vi.fn() }) as unknown as NodeOAuthClient
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const service = (options: BlueskyServiceOptions = {}) =>
+    new BlueskyOAuthService({ developmentMode: true, cleanupInterval: 0, network, ...options });
+
+  it('should resolve identities through the configured resolver and PLC directory', async () => {
+    client.restore.mockResolvedValue(session(LOCAL_PDS));
+
+    await service().hasValidSession(USER_DID);
+
+    expect(NodeOAuthClient).toHaveBeenCalledWith(
+      expect.objectContaining({ handleResolver: LOCAL_PDS, plcDirectoryUrl: 'http://localhost:2582' })
+    );
+  });
+
+  it('should start a sign-in without a handle at the entryway', async () => {
+    await service().initiateLogin('');
+
+    expect(client.authorize).toHaveBeenCalledWith(LOCAL_PDS, expect.anything());
+  });
+
+  it('should refuse a callback from a server that is not allowed and drop its session', async () => {
+    client.callback.mockResolvedValue({
+      session: session('https://bsky.social'),
+      state: JSON.stringify({ handle: 'alice.example.com' })
+    });
+    const events: string[] = [];
+    const oauth = service();
+    oauth.addAuthEventListener((event) => events.push(event.type));
+
+    const result = await oauth.handleCallback(`http://127.0.0.1:5173/?code=c1&state=s1`);
+
+    expect(result).toMatchObject({ success: false, errorCode: 'SERVER_NOT_ALLOWED', handle: 'alice.example.com' });
+    expect(events).toEqual(['callback_failed']);
+  });
+
+  it('should not hand out agents for sessions from servers that are not allowed', async () => {
+    client.restore.mockResolvedValue(session('https://bsky.social'));
+
+    await expect(service().getAuthenticatedAgent(USER_DID)).rejects.toThrow('is not allowed');
+    expect(await service().hasValidSession(USER_DID)).toBe(false);
+    expect(await service({ network: {} }).hasValidSession(USER_DID)).toBe(true);
+  });
+});
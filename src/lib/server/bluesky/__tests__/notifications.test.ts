@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Unit tests for notifications
+ *
+ * Covers how notifications are grouped, how subject posts are hydrated in
+ * batches, and the unread count and seen marker, against a mock agent.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BlueskyAPIService, groupNotifications } from '../api.js';
+import type { AuthenticatedAgent, BlueskyNotification, NotificationReason } from '../types.js';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+const postUri = (rkey: string) => `at://did:plc:me/app.bsky.feed.post/${rkey}`;
+
+let sequence = 0;
+const notification = (
+  reason: NotificationReason,
+  author: string,
+  options: { subject?: string; hoursAgo?: number; isRead?: boolean } = {}
+): BlueskyNotification => ({
+  uri: `at://did:plc:${author}/app.bsky.feed.${reason}/${++sequence}`,
+  cid: `bafy${sequence}`,
+  author: { did: `did:plc:${author}`, handle: `${author}.example.com` },
+  reason,
+  reasonSubject: options.subject,
+  record: {},
+  isRead: options.isRead ?? true,
+  indexedAt: new Date(NOW - (options.hoursAgo ?? 0) * HOUR).toISOString()
+});
+
+describe('groupNotifications', () => {
+  it('should group likes of the same post and follows, keeping other reasons apart', () => {
+    const groups = groupNotifications([
+      notification('like', 'alice', { subject: postUri('1') }),
+      notification('follow', 'carol'),
+      notification('like', 'bob', { subject: postUri('1'), hoursAgo: 1 }),
+      notification('like', 'alice', { subject: postUri('2'), hoursAgo: 2 }),
+      notification('reply', 'dave', { subject: postUri('1'), hoursAgo: 3 }),
+      notification('follow', 'erin', { hoursAgo: 4 }),
+      notification('like', 'alice', { subject: postUri('1'), hoursAgo: 5 })
+    ]);
+
+    expect(groups.map((group) => [group.reason, group.authors.map((author) => author.handle)])).toEqual([
+      ['like', ['alice.example.com', 'bob.example.com']],
+      ['follow', ['carol.example.com', 'erin.example.com']],
+      ['like', ['alice.example.com']],
+      ['reply', ['dave.example.com']]
+    ]);
+    expect(groups[0].notifications).toHaveLength(3);
+    expect(groups[0].subjectUri).toBe(postUri('1'));
+    expect(groups[1].subjectUri).toBeUndefined();
+    // A reply is its own subject
+    expect(groups[3].subjectUri).toBe(groups[3].notifications[0].uri);
+  });
+
+  it('should start a new group after 48 hours', () => {
+    const groups = groupNotifications([
+      notification('repost', 'alice', { subject: postUri('1') }),
+      notification('repost', 'bob', { subject: postUri('1'), hoursAgo: 47 }),
+      notification('repost', 'carol', { subject: postUri('1'), hoursAgo: 49 })
+    ]);
+
+    expect(groups.map((group) => group.authors.length)).toEqual([2, 1]);
+  });
+
+  it('should mark a group unread when any notification in it is unread', () => {
+    const [group] = groupNotifications([
+      notification('like', 'alice', { subject: postUri('1') }),
+      notification('like', 'bob', { subject: postUri('1'), isRead: false })
+    ]);
+
+    expect(group.isRead).toBe(false);
+    expect(group.indexedAt).toBe(new Date(NOW).toISOString());
+  });
+});
+
+describe('BlueskyAPIService notifications', () => {
+  let service: BlueskyAPIService;
+  let agent: {
+    listNotifications: ReturnType<typeof vi.fn>;
+    getPosts: ReturnType<typeof vi.fn>;
+    countUnreadNotifications: ReturnType<typeof vi.fn>;
+    updateSeenNotifications: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new BlueskyAPIService();
+    agent = {
+      listNotifications: vi.fn(),
+      getPosts: vi.fn(async ({ uris }: { uris: string[] }) => ({
+        data: { posts: uris.map((uri) => ({ uri, record: { text: `text of ${uri}` } })) }
+      })),
+      countUnreadNotifications: vi.fn(),
+      updateSeenNotifications: vi.fn()
+    };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const asAgent = () => agent as unknown as AuthenticatedAgent;
+
+  it('should hydrate subject posts in batches of 25', async () => {
+    const notifications = Array.from({ length: 30 }, (_, i) =>
+      notification('like', 'alice', { subject: postUri(String(i)) })
+    );
+    agent.listNotifications.mockResolvedValue({ data: { notifications, cursor: 'c2', seenAt: '2024-06-01T00:00:00Z' } });
+
+    const result = await service.listNotifications(asAgent(), { reasons: ['like'], limit: 30, cursor: 'c1' });
+
+    expect(agent.listNotifications).toHaveBeenCalledWith({ reasons: ['like'], limit: 30, cursor: 'c1' });
+    expect(agent.getPosts.mock.calls.map(([{ uris }]) => uris.length)).toEqual([25, 5]);
+    expect(result.data?.groups).toHaveLength(30);
+    expect(result.data?.groups[29].subject?.uri).toBe(postUri('29'));
+    expect(result.data).toMatchObject({ cursor: 'c2', seenAt: '2024-06-01T00:00:00Z' });
+    expect(result.pagination).toEqual({ cursor: 'c2', hasMore: true, limit: 30 });
+  });
+
+  it('should still list notifications when subjects cannot be fetched', async () => {
+    agent.listNotifications.mockResolvedValue({
+      data: { notifications: [notification('like', 'alice', { subject: postUri('1') })] }
+    });
+    agent.getPosts.mockRejectedValue(new Error('upstream failure'));
+
+    const result = await service.listNotifications(asAgent());
+
+    expect(result.success).toBe(true);
+    expect(result.data?.groups[0]).toMatchObject({ subjectUri: postUri('1'), subject: undefined });
+  });
+
+  it('should count unread notifications and mark them seen', async () => {
+    agent.countUnreadNotifications.mockResolvedValue({ data: { count: 7 } });
+    const seenAt = new Date('2024-06-01T12:00:00Z');
+
+    expect((await service.getUnreadCount(asAgent())).data).toEqual({ count: 7 });
+    expect((await service.updateSeen(asAgent(), seenAt)).data).toEqual({ seenAt: '2024-06-01T12:00:00.000Z' });
+    expect(agent.updateSeenNotifications).toHaveBeenCalledWith('2024-06-01T12:00:00.000Z');
+  });
+});
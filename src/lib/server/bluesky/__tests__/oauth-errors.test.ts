@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Unit tests for OAuth failure codes
+ *
+ * Covers how callback failures are classified and that handleCallback
+ * returns the code together with the handle and return path from the state
+ * (the OAuth client is replaced with a mock).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NodeOAuthClient, OAuthCallbackError } from '@atproto/oauth-client-node';
+import { callbackErrorCode, isOAuthErrorCode, oauthErrorPath } from '../oauth-errors.js';
+import { BlueskyOAuthService } from '../oauth.js';
+import { OAuthError } from '../types.js';
+
+vi.mock('@atproto/oauth-client-node', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@atproto/oauth-client-node')>()),
+  NodeOAuthClient: vi.fn()
+}));
+
+const params = (query: string) => new URLSearchParams(query);
+const STATE = JSON.stringify({ returnTo: '/dashboard?demo=likes', handle: 'alice.example.com' });
+
+describe('callbackErrorCode', () => {
+  it('should tell a cancelled sign-in from other authorization server errors', () => {
+    const denied = params('error=access_denied&state=s1');
+    const failed = params('error=server_error&state=s1');
+
+    expect(callbackErrorCode(new OAuthCallbackError(denied, undefined, STATE), denied, false)).toBe('ACCESS_DENIED');
+    expect(callbackErrorCode(new OAuthCallbackError(failed, undefined, STATE), failed, false)).toBe('AUTHORIZATION_FAILED');
+  });
+
+  it('should report an unknown or missing state as expired', () => {
+    const unknown = params('code=c1&state=s1');
+
+    expect(
+      callbackErrorCode(new OAuthCallbackError(unknown, 'Unknown authorization session "s1"'), unknown, false)
+    ).toBe('STATE_EXPIRED');
+    expect(callbackErrorCode(new Error('Missing "state" parameter'), params('code=c1'), false)).toBe('STATE_EXPIRED');
+  });
+
+  it('should separate malformed callbacks from failed token exchanges', () => {
+    const callback = params('code=c1&state=s1&iss=https://evil.example');
+    const tokenError = new Error('invalid_grant');
+
+    expect(callbackErrorCode(new OAuthCallbackError(callback, 'Issuer mismatch', STATE), callback, false)).toBe(
+      'INVALID_CALLBACK'
+    );
+    expect(callbackErrorCode(OAuthCallbackError.from(tokenError, callback, STATE), callback, false)).toBe(
+      'TOKEN_EXCHANGE_FAILED'
+    );
+  });
+
+  it('should blame the session check once tokens were issued', () => {
+    expect(callbackErrorCode(new Error('Profile not found'), params('code=c1&state=s1'), true)).toBe('SESSION_CHECK_FAILED');
+  });
+
+  it('should keep a refused authorization server apart from session check failures', () => {
+    const refused = new OAuthError('Authorization server https://other.example is not allowed', 'SERVER_NOT_ALLOWED');
+
+    expect(callbackErrorCode(refused, params('code=c1&state=s1'), true)).toBe('SERVER_NOT_ALLOWED');
+  });
+});
+
+describe('oauthErrorPath', () => {
+  it('should carry the code, handle and return path', () => {
+    expect(oauthErrorPath('ACCESS_DENIED', 'alice.example.com', '/dashboard')).toBe(
+      '/auth/error?code=ACCESS_DENIED&handle=alice.example.com&returnTo=%2Fdashboard'
+    );
+    expect(oauthErrorPath('STATE_EXPIRED')).toBe('/auth/error?code=STATE_EXPIRED');
+  });
+});
+
+describe('isOAuthErrorCode', () => {
+  it('should only accept failure codes', () => {
+    expect(isOAuthErrorCode('TOKEN_EXCHANGE_FAILED')).toBe(true);
+    expect(isOAuthErrorCode('oauth_failed')).toBe(false);
+    expect(isOAuthErrorCode('constructor')).toBe(false);
+  });
+});
+
+describe('BlueskyOAuthService callback failures', () => {
+  let client: { callback: ReturnType<typeof vi.fn>; authorize: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    client = { callback: vi.fn(), authorize: vi.fn() };
+    vi.mocked(NodeOAuthClient).mockImplementation(
+      () => ({ ...client, addEventListener: vi.fn() }) as unknown as NodeOAuthClient
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const service = () => new BlueskyOAuthService({ developmentMode: true, cleanupInterval: 0 });
+
+  it('should return the code with the handle and return path from the state', async () => {
+    const callback = params('error=access_denied&state=s1');
+    client.callback.mockRejectedValue(new OAuthCallbackError(callback, 'Access denied', STATE));
+
+    const result = await service().handleCallback(`http://127.0.0.1:5173/?${callback}`);
+
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: 'ACCESS_DENIED',
+      handle: 'alice.example.com',
+      redirectTo: '/dashboard?demo=likes'
+    });
+  });
+
+  it('should drop an unsafe return path from the state of a failed callback', async () => {
+    const callback = params('code=c1&state=s1');
+    const state = JSON.stringify({ returnTo: 'https://evil.example/', handle: 'alice.example.com' });
+    client.callback.mockRejectedValue(OAuthCallbackError.from(new Error('invalid_grant'), callback, state));
+
+    const result = await service().handleCallback(`http://127.0.0.1:5173/?${callback}`);
+
+    expect(result.errorCode).toBe('TOKEN_EXCHANGE_FAILED');
+    expect(result.redirectTo).toBeUndefined();
+  });
+
+  it('should raise AUTHORIZE_FAILED when the authorization request fails', async () => {
+    client.authorize.mockRejectedValue(new Error('PAR request rejected'));
+
+    await expect(service().initiateLogin('alice.example.com')).rejects.toMatchObject({
+      name: 'OAuthError',
+      code: 'AUTHORIZE_FAILED'
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Unit tests for background token refresh
+ *
+ * Covers when BlueskyOAuthService refreshes a session ahead of its access
+ * token's expiry, with the OAuth client replaced by a mock.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NodeOAuthClient } from '@atproto/oauth-client-node';
+import { BlueskyOAuthService } from '../oauth.js';
+import type { BlueskyServiceOptions } from '../types.js';
+
+vi.mock('@atproto/oauth-client-node', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@atproto/oauth-client-node')>()),
+  NodeOAuthClient: vi.fn()
+}));
+
+const USER_DID = 'did:plc:abcdefghijklmnopqrstuvwx';
+
+describe('BlueskyOAuthService background refresh', () => {
+  let restore: ReturnType<typeof vi.fn>;
+  let expiresAt: Date;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expiresAt = new Date(Date.now() + 60 * 1000);
+    const session = {
+      did: USER_DID,
+      getTokenInfo: vi.fn(async () => ({ expiresAt })),
+      fetchHandler: vi.fn()
+    };
+    restore = vi.fn().mockResolvedValue(session);
+    vi.mocked(NodeOAuthClient).mockImplementation(
+      () => ({ restore, addEventListener: vi.fn() }) as unknown as NodeOAuthClient
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const service = (options: BlueskyServiceOptions = {}) =>
+    new BlueskyOAuthService({ developmentMode: true, cleanupInterval: 0, ...options });
+
+  const forcedRefreshes = () => restore.mock.calls.filter(([, refresh]) => refresh === true).length;
+
+  it('should refresh a token that expires soon once, without holding up the requests', async () => {
+    const oauth = service();
+
+    const agents = await Promise.all([oauth.getAuthenticatedAgent(USER_DID), oauth.getAuthenticatedAgent(USER_DID)]);
+
+    expect(agents).toHaveLength(2);
+    await vi.waitFor(() => expect(restore).toHaveBeenCalledWith(USER_DID, true));
+    expect(forcedRefreshes()).toBe(1);
+  });
+
+  it('should leave a token alone until it is within the refresh window', async () => {
+    expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+
+    expect(await service().hasValidSession(USER_DID)).toBe(true);
+    expect(await service({ refreshAhead: 0 }).hasValidSession(USER_DID)).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(forcedRefreshes()).toBe(0);
+  });
+
+  it('should not disturb the request when the background refresh fails', async () => {
+    restore.mockImplementation(async (did: string, refresh?: boolean) => {
+      if (refresh === true) {
+        throw new Error('invalid_grant');
+      }
+      return { did, getTokenInfo: async () => ({ expiresAt }), fetchHandler: vi.fn() };
+    });
+
+    expect(await service().hasValidSession(USER_DID)).toBe(true);
+
+    await vi.waitFor(() =>
+      expect(console.warn).toHaveBeenCalledWith(`Background token refresh failed for ${USER_DID}:`, expect.any(Error))
+    );
+  });
+});
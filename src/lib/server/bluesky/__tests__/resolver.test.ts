@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Unit tests for the login preflight
+ *
+ * Runs resolveLoginIdentity against a stub resolver to cover identifier
+ * normalization and how each resolution failure maps to an error code.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FetchRequestError, FetchResponseError, OAuthResolverError } from '@atproto/oauth-client-node';
+import { isLoginErrorCode, normalizeLoginIdentifier, resolveLoginIdentity } from '../resolver.js';
+
+const DID = 'did:plc:alice';
+const PDS = 'https://pds.example.com';
+
+const didDoc = (service: object[] = [{ id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: PDS }]) => ({
+  id: DID,
+  alsoKnownAs: ['at://alice.example.com'],
+  service
+});
+
+let resolver: {
+  resolveIdentity: ReturnType<typeof vi.fn>;
+  resolveFromService: ReturnType<typeof vi.fn>;
+  getResourceServerMetadata: ReturnType<typeof vi.fn>;
+};
+
+beforeEach(() => {
+  resolver = {
+    resolveIdentity: vi.fn(async () => ({ did: DID, didDoc: didDoc(), handle: 'alice.example.com' })),
+    resolveFromService: vi.fn(async () => ({ metadata: { issuer: 'https://entryway.example.com' } })),
+    getResourceServerMetadata: vi.fn(async () => ({ issuer: 'https://entryway.example.com' }))
+  };
+});
+
+const resolve = (input: string) => resolveLoginIdentity(resolver as never, input);
+
+// The resolver wraps fetch failures the same way the real one does
+const wrapped = (cause: Error) => new OAuthResolverError('Failed to resolve OAuth server metadata', { cause });
+
+describe('normalizeLoginIdentifier', () => {
+  it('should trim, drop a leading @ and lowercase handles', () => {
+    expect(normalizeLoginIdentifier('  @Alice.Example.COM ')).toBe('alice.example.com');
+  });
+
+  it('should keep DIDs and reduce service URLs to their origin', () => {
+    expect(normalizeLoginIdentifier('did:plc:ewvi7nxzyoun6zhxrhs64oiz')).toBe('did:plc:ewvi7nxzyoun6zhxrhs64oiz');
+    expect(normalizeLoginIdentifier('https://bsky.social/some/path')).toBe('https://bsky.social');
+  });
+
+  it.each(['', 'alice', 'alice..example.com', 'alice_example.com', 'did:key:z6Mk', 'alice.123'])('should reject %j', (input) => {
+    expect(normalizeLoginIdentifier(input)).toBeNull();
+  });
+});
+
+describe('resolveLoginIdentity', () => {
+  it('should resolve a handle to its DID, PDS and authorization server', async () => {
+    await expect(resolve('@Alice.Example.com')).resolves.toEqual({
+      did: DID,
+      handle: 'alice.example.com',
+      pds: PDS,
+      authorizationServer: 'https://entryway.example.com'
+    });
+    expect(resolver.resolveIdentity).toHaveBeenCalledWith('alice.example.com');
+    expect(resolver.getResourceServerMetadata).toHaveBeenCalledWith(PDS);
+  });
+
+  it('should omit a handle that does not verify', async () => {
+    resolver.resolveIdentity.mockResolvedValue({ did: DID, didDoc: didDoc(), handle: 'handle.invalid' });
+
+    const identity = await resolve(DID);
+
+    expect(identity.did).toBe(DID);
+    expect(identity.handle).toBeUndefined();
+  });
+
+  it('should check a PDS or entryway URL without resolving an identity', async () => {
+    await expect(resolve('https://bsky.social')).resolves.toEqual({
+      pds: 'https://bsky.social',
+      authorizationServer: 'https://entryway.example.com'
+    });
+    expect(resolver.resolveIdentity).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed input without any network lookup', async () => {
+    await expect(resolve('not a handle')).rejects.toMatchObject({ code: 'INVALID_IDENTIFIER' });
+    expect(resolver.resolveIdentity).not.toHaveBeenCalled();
+  });
+
+  it('should report an unknown handle', async () => {
+    resolver.resolveIdentity.mockRejectedValue(new Error('Handle "alice.exmaple.com" does not resolve to a DID'));
+
+    await expect(resolve('alice.exmaple.com')).rejects.toMatchObject({
+      name: 'OAuthError',
+      code: 'HANDLE_NOT_FOUND',
+      message: expect.stringContaining('typos')
+    });
+  });
+
+  it('should report a PDS that cannot be contacted', async () => {
+    const request = new Request(`${PDS}/.well-known/oauth-protected-resource`);
+    resolver.getResourceServerMetadata.mockRejectedValue(wrapped(new FetchRequestError(request, undefined, 'fetch failed')));
+
+    await expect(resolve('alice.example.com')).rejects.toMatchObject({ code: 'PDS_UNREACHABLE' });
+  });
+
+  it('should treat a 5xx answer as unreachable and a 404 as no OAuth support', async () => {
+    resolver.getResourceServerMetadata.mockRejectedValueOnce(wrapped(new FetchResponseError(new Response(null, { status: 503 }))));
+    await expect(resolve('alice.example.com')).rejects.toMatchObject({ code: 'PDS_UNREACHABLE' });
+
+    resolver.getResourceServerMetadata.mockRejectedValueOnce(wrapped(new FetchResponseError(new Response(null, { status: 404 }))));
+    await expect(resolve('alice.example.com')).rejects.toMatchObject({ code: 'OAUTH_UNSUPPORTED' });
+  });
+
+  it('should refuse accounts whose authorization server is not allowed', async () => {
+    const network = { allowedAuthorizationServers: ['https://pds.internal.example'] };
+
+    await expect(resolveLoginIdentity(resolver as never, 'alice.example.com', network)).rejects.toMatchObject({
+      code: 'SERVER_NOT_ALLOWED'
+    });
+    await expect(resolveLoginIdentity(resolver as never, 'https://bsky.social', network)).rejects.toMatchObject({
+      code: 'SERVER_NOT_ALLOWED'
+    });
+    await expect(
+      resolveLoginIdentity(resolver as never, 'alice.example.com', { allowedAuthorizationServers: ['https://entryway.example.com'] })
+    ).resolves.toMatchObject({ did: DID });
+  });
+
+  it('should check the entryway when no identifier is given', async () => {
+    await expect(resolveLoginIdentity(resolver as never, ' ', { entryway: 'http://localhost:2583' })).resolves.toEqual({
+      pds: 'http://localhost:2583',
+      authorizationServer: 'https://entryway.example.com'
+    });
+    await expect(resolve('')).rejects.toMatchObject({ code: 'INVALID_IDENTIFIER' });
+  });
+
+  it('should report a DID document without a PDS as unsupported', async () => {
+    resolver.resolveIdentity.mockResolvedValue({ did: DID, didDoc: didDoc([]), handle: 'alice.example.com' });
+
+    await expect(resolve('alice.example.com')).rejects.toMatchObject({ code: 'OAUTH_UNSUPPORTED' });
+    expect(resolver.getResourceServerMetadata).not.toHaveBeenCalled();
+  });
+});
+
+describe('isLoginErrorCode', () => {
+  it('should only accept preflight codes', () => {
+    expect(isLoginErrorCode('HANDLE_NOT_FOUND')).toBe(true);
+    expect(isLoginErrorCode('oauth_failed')).toBe(false);
+    expect(isLoginErrorCode('toString')).toBe(false);
+    expect(isLoginErrorCode(null)).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Unit tests for post-login return paths
+ *
+ * Covers which paths sanitizeReturnTo accepts and that initiateLogin
+ * carries only a validated path (and the handle) through the OAuth state.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NodeOAuthClient } from '@atproto/oauth-client-node';
+import { sanitizeReturnTo } from '../return-to.js';
+import { BlueskyOAuthService } from '../oauth.js';
+
+vi.mock('@atproto/oauth-client-node', () => ({
+  NodeOAuthClient: vi.fn()
+}));
+
+describe('sanitizeReturnTo', () => {
+  it('should accept local paths with query and fragment', () => {
+    expect(sanitizeReturnTo('/tv-guide')).toBe('/tv-guide');
+    expect(sanitizeReturnTo('/dashboard?demo=likes')).toBe('/dashboard?demo=likes');
+    expect(sanitizeReturnTo('/dashboard?demo=likes#top')).toBe('/dashboard?demo=likes#top');
+  });
+
+  it('should normalize dot segments without leaving the origin', () => {
+    expect(sanitizeReturnTo('/dashboard/../tv-guide')).toBe('/tv-guide');
+  });
+
+  it.each([
+    'https://evil.example/dashboard',
+    '//evil.example/dashboard',
+    '/\\evil.example',
+    '/dash\tboard',
+    'dashboard',
+    'javascript:alert(1)',
+    ''
+  ])('should reject %j', (value) => {
+    expect(sanitizeReturnTo(value)).toBeUndefined();
+  });
+
+  it('should reject auth endpoints, non-strings and overlong paths', () => {
+    expect(sanitizeReturnTo('/auth/logout')).toBeUndefined();
+    expect(sanitizeReturnTo(42)).toBeUndefined();
+    expect(sanitizeReturnTo(`/${'a'.repeat(3000)}`)).toBeUndefined();
+  });
+});
+
+describe('BlueskyOAuthService return paths', () => {
+  let authorize: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    authorize = vi.fn().mockResolvedValue(new URL('https://bsky.social/oauth/authorize?request_uri=x'));
+    vi.mocked(NodeOAuthClient).mockImplementation(() => ({ authorize, addEventListener: vi.fn() }) as unknown as NodeOAuthClient);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const stateOf = async (returnTo?: string) => {
+    await new BlueskyOAuthService({ developmentMode: true, cleanupInterval: 0 }).initiateLogin('alice.bsky.social', undefined, returnTo);
+    return JSON.parse(authorize.mock.calls[0][1].state);
+  };
+
+  it('should carry a local return path in the OAuth state', async () => {
+    expect(await stateOf('/dashboard?demo=likes')).toEqual({ returnTo: '/dashboard?demo=likes', handle: 'alice.bsky.social' });
+  });
+
+  it('should drop an unsafe return path before it reaches the state', async () => {
+    expect(await stateOf('https://evil.example/')).toEqual({ handle: 'alice.bsky.social' });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Unit tests for OAuth scope configuration
+ *
+ * Covers scope validation, mapping refused permissions to declared scopes,
+ * and how BlueskyOAuthService uses the configuration for the client
+ * metadata, sign-in and re-authorization.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NodeOAuthClient } from '@atproto/oauth-client-node';
+import { resolveScopes, scopeForRequirement, declaredScope, SCOPES } from '../scopes.js';
+import { BlueskyOAuthService } from '../oauth.js';
+
+vi.mock('@atproto/oauth-client-node', () => ({
+  NodeOAuthClient: vi.fn()
+}));
+
+const USER_DID = 'did:plc:abcdefghijklmnopqrstuvwx';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('resolveScopes', () => {
+  it('should default to generic access at sign-in', () => {
+    expect(resolveScopes({})).toEqual({ requested: ['atproto', 'transition:generic'], optional: [] });
+  });
+
+  it('should always request atproto and drop duplicate optional scopes', () => {
+    const scopes = resolveScopes({
+      requested: ['transition:generic'],
+      optional: ['transition:generic', 'transition:chat.bsky', 'transition:chat.bsky']
+    });
+
+    expect(scopes).toEqual({ requested: ['atproto', 'transition:generic'], optional: ['transition:chat.bsky'] });
+    expect(declaredScope(scopes)).toBe('atproto transition:generic transition:chat.bsky');
+  });
+
+  it('should accept granular scopes and reject unknown ones', () => {
+    expect(() => resolveScopes({ optional: ['rpc:app.bsky.feed.getTimeline?aud=*', 'repo:app.bsky.feed.post'] })).not.toThrow();
+    expect(() => resolveScopes({ optional: ['transition:everything'] })).toThrow('Invalid OAuth scope(s): transition:everything');
+    expect(() => resolveScopes({ requested: ['atproto', 'rpc:'] })).toThrow('Invalid OAuth scope(s)');
+  });
+});
+
+describe('scopeForRequirement', () => {
+  const declared = ['atproto', 'transition:generic', 'transition:chat.bsky', 'rpc:app.bsky.feed.getTimeline?aud=*'];
+
+  it('should return a declared scope as-is', () => {
+    expect(scopeForRequirement('transition:chat.bsky', declared)).toBe('transition:chat.bsky');
+  });
+
+  it('should map chat methods to transition:chat.bsky', () => {
+    expect(scopeForRequirement('chat.bsky.convo.listConvos', declared)).toBe(SCOPES.CHAT);
+  });
+
+  it('should map other methods to a declared rpc permission', () => {
+    expect(scopeForRequirement('app.bsky.feed.getTimeline', declared)).toBe('rpc:app.bsky.feed.getTimeline?aud=*');
+    expect(scopeForRequirement('rpc:app.bsky.feed.getTimeline', declared)).toBe('rpc:app.bsky.feed.getTimeline?aud=*');
+  });
+
+  it('should return null when nothing declared covers the permission', () => {
+    expect(scopeForRequirement('transition:email', declared)).toBeNull();
+    expect(scopeForRequirement('app.bsky.graph.getLists', declared)).toBeNull();
+    expect(scopeForRequirement('chat.bsky.convo.listConvos', ['atproto'])).toBeNull();
+  });
+});
+
+describe('BlueskyOAuthService scopes', () => {
+  const scopes = { requested: ['atproto', 'transition:generic'], optional: ['transition:chat.bsky'] };
+  let client: {
+    restore: ReturnType<typeof vi.fn>;
+    authorize: ReturnType<typeof vi.fn>;
+    addEventListener: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    client = {
+      restore: vi.fn().mockResolvedValue({
+        getTokenInfo: vi.fn().mockResolvedValue({ scope: 'atproto transition:generic transition:email' })
+      }),
+      authorize: vi.fn().mockResolvedValue(new URL('https://bsky.social/oauth/authorize?request_uri=x')),
+      addEventListener: vi.fn()
+    };
+    vi.mocked(NodeOAuthClient).mockImplementation(() => client as unknown as NodeOAuthClient);
+  });
+
+  const createService = () =>
+    new BlueskyOAuthService({ developmentMode: true, publicUrl: 'http://127.0.0.1:5174', cleanupInterval: 0, scopes });
+
+  it('should declare sign-in and optional scopes in the metadata and localhost client ID', () => {
+    const service = createService();
+
+    expect(service.getClientMetadata().scope).toBe('atproto transition:generic transition:chat.bsky');
+    expect(new URL(service.getClientMetadata().client_id!).searchParams.get('scope')).toBe(
+      'atproto transition:generic transition:chat.bsky'
+    );
+  });
+
+  it('should request only the sign-in scopes at login', async () => {
+    await createService().initiateLogin('alice.bsky.social');
+
+    expect(client.authorize).toHaveBeenCalledWith('alice.bsky.social', expect.objectContaining({
+      scope: 'atproto transition:generic'
+    }));
+  });
+
+  it('should request granted scopes plus the missing one on re-authorization', async () => {
+    await createService().reauthorize(USER_DID, 'transition:chat.bsky', '/dashboard?demo=timeline');
+
+    expect(client.authorize).toHaveBeenCalledWith(USER_DID, {
+      state: JSON.stringify({ returnTo: '/dashboard?demo=timeline' }),
+      scope: 'atproto transition:generic transition:email transition:chat.bsky'
+    });
+  });
+
+  it('should refuse to re-authorize for an undeclared scope', async () => {
+    await expect(createService().reauthorize(USER_DID, 'transition:email', '/dashboard')).rejects.toThrow(
+      'not declared in the client metadata'
+    );
+    expect(client.authorize).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Unit tests for post search
+ *
+ * Covers post search (filter normalization, the enriched feed shape of
+ * results, the dashboard demo) and actor search with its typeahead, against
+ * a mock agent.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BlueskyAPIService, DEMO_SEARCH_QUERY, normalizePostSearch } from '../api.js';
+import type { AuthenticatedAgent, BlueskyPost, EnrichedFeedResponse } from '../types.js';
+
+const post = (rkey: string, reply?: { root: string; parent: string }): BlueskyPost =>
+  ({
+    uri: `at://did:plc:alice/app.bsky.feed.post/${rkey}`,
+    cid: `bafy${rkey}`,
+    author: { did: 'did:plc:alice', handle: 'alice.example.com' },
+    record: {
+      $type: 'app.bsky.feed.post',
+      text: `post ${rkey}`,
+      createdAt: '2024-01-01T00:00:00Z',
+      ...(reply && { reply: { root: { uri: reply.root, cid: 'r' }, parent: { uri: reply.parent, cid: 'p' } } })
+    },
+    indexedAt: '2024-01-01T00:00:00Z'
+  }) as unknown as BlueskyPost;
+
+describe('normalizePostSearch', () => {
+  it('should trim filters, drop empty ones and strip @ and # prefixes', () => {
+    expect(
+      normalizePostSearch({
+        q: '  atproto ',
+        sort: 'relevance' as never,
+        author: ' @alice.example.com',
+        mentions: '',
+        since: '2024-01-01',
+        until: '  ',
+        lang: 'en',
+        domain: undefined,
+        tag: ['#bluesky', ' ', 'atdev']
+      })
+    ).toEqual({
+      q: 'atproto',
+      sort: undefined,
+      author: 'alice.example.com',
+      mentions: undefined,
+      since: '2024-01-01',
+      until: undefined,
+      lang: 'en',
+      domain: undefined,
+      tag: ['bluesky', 'atdev']
+    });
+  });
+});
+
+describe('BlueskyAPIService.searchPosts', () => {
+  let service: BlueskyAPIService;
+  let agent: {
+    app: { bsky: { feed: { searchPosts: ReturnType<typeof vi.fn> } } };
+    getPostThread: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new BlueskyAPIService();
+    agent = { app: { bsky: { feed: { searchPosts: vi.fn() } } }, getPostThread: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const search = (...args: Parameters<BlueskyAPIService['searchPosts']> extends [unknown, ...infer Rest] ? Rest : never) =>
+    service.searchPosts(agent as unknown as AuthenticatedAgent, ...args);
+
+  it('should return hits as an enriched feed with analytics and a cursor', async () => {
+    const root = 'at://did:plc:bob/app.bsky.feed.post/root';
+    agent.app.bsky.feed.searchPosts.mockResolvedValue({
+      data: { posts: [post('1'), post('2', { root, parent: root })], cursor: 'c2', hitsTotal: 120 }
+    });
+    agent.getPostThread.mockResolvedValue({ data: { thread: { post: post('root') } } });
+
+    const result = await search({ q: 'atproto', sort: 'latest', tag: ['#atdev'] }, 2, 'c1');
+
+    expect(agent.app.bsky.feed.searchPosts).toHaveBeenCalledWith(
+      expect.objectContaining({ q: 'atproto', sort: 'latest', tag: ['atdev'], limit: 2, cursor: 'c1' })
+    );
+    expect(result.success).toBe(true);
+    const data = result.data as EnrichedFeedResponse;
+    expect(data.feed.map((item) => [item.post.uri, item.isReply, item.isRepost])).toEqual([
+      [post('1').uri, false, false],
+      [post('2').uri, true, false]
+    ]);
+    expect(data.feed[1].parentPost?.uri).toBe(post('root').uri);
+    expect(data.analytics).toEqual({ totalItems: 2, originalPosts: 1, reposts: 0, replies: 1, threads: 0 });
+    expect(data.hitsTotal).toBe(120);
+    expect(result.pagination).toEqual({ cursor: 'c2', hasMore: true, limit: 2 });
+  });
+
+  it('should cap the page size at 100', async () => {
+    agent.app.bsky.feed.searchPosts.mockResolvedValue({ data: { posts: [] } });
+
+    const result = await search({ q: 'atproto' }, 500);
+
+    expect(agent.app.bsky.feed.searchPosts).toHaveBeenCalledWith(expect.objectContaining({ limit: 100 }));
+    expect(result.pagination?.hasMore).toBe(false);
+  });
+
+  it('should refuse a search without a query', async () => {
+    const result = await search({ q: '  ', author: 'alice.example.com' });
+
+    expect(agent.app.bsky.feed.searchPosts).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: false, error: { code: 'INVALID_QUERY' } });
+  });
+
+  it('should run the dashboard demo as a latest-first search', async () => {
+    agent.app.bsky.feed.searchPosts.mockResolvedValue({ data: { posts: [post('1')] } });
+
+    const result = await service.executeDemoAPI(agent as unknown as AuthenticatedAgent, 'search', 'did:plc:alice', 10);
+
+    expect(agent.app.bsky.feed.searchPosts).toHaveBeenCalledWith(
+      expect.objectContaining({ q: DEMO_SEARCH_QUERY, sort: 'latest', limit: 10 })
+    );
+    expect(result.data.feed).toHaveLength(1);
+  });
+});
+
+describe('BlueskyAPIService actor search', () => {
+  let service: BlueskyAPIService;
+  let agent: { searchActors: ReturnType<typeof vi.fn>; searchActorsTypeahead: ReturnType<typeof vi.fn> };
+
+  const alice = { did: 'did:plc:alice', handle: 'alice.example.com', displayName: 'Alice' };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    service = new BlueskyAPIService();
+    agent = { searchActors: vi.fn(), searchActorsTypeahead: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const asAgent = () => agent as unknown as AuthenticatedAgent;
+
+  it('should page through matching accounts', async () => {
+    agent.searchActors.mockResolvedValue({ data: { actors: [alice], cursor: 'c2' } });
+
+    const result = await service.searchActors(asAgent(), ' alice ', 10, 'c1');
+
+    expect(agent.searchActors).toHaveBeenCalledWith({ q: 'alice', limit: 10, cursor: 'c1' });
+    expect(result).toMatchObject({
+      success: true,
+      data: { actors: [alice], cursor: 'c2' },
+      pagination: { cursor: 'c2', hasMore: true, limit: 10 }
+    });
+  });
+
+  it('should refuse an account search without a query', async () => {
+    const result = await service.searchActors(asAgent(), '');
+
+    expect(agent.searchActors).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: false, error: { code: 'INVALID_QUERY' } });
+  });
+
+  it('should suggest accounts for a prefix without its @', async () => {
+    agent.searchActorsTypeahead.mockResolvedValue({ data: { actors: [alice] } });
+
+    const result = await service.searchActorsTypeahead(asAgent(), '@ali', 5);
+
+    expect(agent.searchActorsTypeahead).toHaveBeenCalledWith({ q: 'ali', limit: 5 });
+    expect(result).toMatchObject({ success: true, data: { actors: [alice] } });
+  });
+
+  it('should suggest nothing for a blank prefix without calling the API', async () => {
+    const result = await service.searchActorsTypeahead(asAgent(), ' @ ');
+
+    expect(agent.searchActorsTypeahead).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: true, data: { actors: [] } });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Unit tests for the OAuth store backends
+ *
+ * Runs the same contract tests against every built-in backend and covers
+ * the store factory used by BlueskyOAuthService.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryStore, JsonFileStore, SqliteStore, createOAuthStore } from '../stores.js';
+import type { OAuthStore } from '../types.js';
+
+const hasNodeSqlite = await import('node:sqlite').then(() => true, () => false);
+
+let tempDir: string;
+
+beforeEach(async () => {
+  tempDir = await mkdtemp(join(tmpdir(), 'bsky-stores-'));
+});
+
+afterEach(async () => {
+  await rm(tempDir, { recursive: true, force: true });
+});
+
+const backends: Array<{ name: string; skip?: boolean; create: (namespace: string) => OAuthStore<unknown> }> = [
+  { name: 'MemoryStore', create: () => new MemoryStore() },
+  { name: 'JsonFileStore', create: (namespace) => new JsonFileStore(join(tempDir, 'store.json'), namespace) },
+  {
+    name: 'SqliteStore',
+    skip: !hasNodeSqlite,
+    create: (namespace) => new SqliteStore(join(tempDir, 'store.db'), namespace)
+  }
+];
+
+for (const backend of backends) {
+  describe.skipIf(backend.skip)(backend.name, () => {
+    it('should set, get and delete values', async () => {
+      const store = backend.create('session');
+      const session = { dpopJwk: { kty: 'EC' }, tokenSet: { sub: 'did:plc:test123' } };
+
+      await store.set('did:plc:test123', session);
+      expect(await store.get('did:plc:test123')).toEqual(session);
+
+      await store.del('did:plc:test123');
+      expect(await store.get('did:plc:test123')).toBeUndefined();
+    });
+
+    it('should report keys and size', async () => {
+      const store = backend.create('state');
+
+      await store.set('a', { iss: 'https://bsky.social' });
+      await store.set('b', { iss: 'https://bsky.social' });
+      await store.set('a', { iss: 'https://example.com' });
+
+      expect((await store.keys()).sort()).toEqual(['a', 'b']);
+      expect(await store.size()).toBe(2);
+    });
+
+    it('should keep namespaces separate', async () => {
+      const sessions = backend.create('session');
+      const states = backend.create('state');
+
+      await sessions.set('key', 'session-value');
+      await states.set('key', 'state-value');
+
+      expect(await sessions.get('key')).toBe('session-value');
+      expect(await states.get('key')).toBe('state-value');
+    });
+  });
+}
+
+describe('JsonFileStore persistence', () => {
+  it('should survive a new store instance (process restart)', async () => {
+    const path = join(tempDir, 'nested', 'store.json');
+    await new JsonFileStore(path, 'session').set('did:plc:test123', { tokenSet: {} });
+
+    const reopened = new JsonFileStore(path, 'session');
+    expect(await reopened.get('did:plc:test123')).toEqual({ tokenSet: {} });
+  });
+
+  it('should not lose concurrent writes', async () => {
+    const path = join(tempDir, 'store.json');
+    const store = new JsonFileStore(path, 'state');
+
+    await Promise.all(Array.from({ length: 20 }, (_, i) => store.set(`key-${i}`, i)));
+
+    expect(await store.size()).toBe(20);
+    expect(Object.keys(JSON.parse(await readFile(path, 'utf8')).state)).toHaveLength(20);
+  });
+});
+
+describe('createOAuthStore', () => {
+  it('should share memory stores per namespace', () => {
+    const first = createOAuthStore({ backend: 'memory' }, 'session');
+    const second = createOAuthStore({}, 'session');
+
+    expect(first).toBe(second);
+    expect(first).not.toBe(createOAuthStore({}, 'state'));
+  });
+
+  it('should create file-backed stores', () => {
+    expect(createOAuthStore({ backend: 'json', path: join(tempDir, 'x.json') }, 'session').backend).toBe('json');
+    expect(createOAuthStore({ backend: 'sqlite', path: join(tempDir, 'x.db') }, 'session').backend).toBe('sqlite');
+  });
+
+  it('should reject unknown backends', () => {
+    expect(() => createOAuthStore({ backend: 'redis' as never }, 'session')).toThrow('Unknown OAuth store backend');
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Unit tests for signed browser session cookies
+ *
+ * Covers issuing, resolving, rotating and revoking web sessions, the
+ * handling of forged and stale cookies, linked accounts (including ones
+ * whose OAuth session expired), and listing and revoking an account's
+ * sessions from another browser.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Cookies } from '@sveltejs/kit';
+import { WebSessionManager, SESSION_COOKIE, describeDevice } from '../web-sessions.js';
+import type { WebSession } from '../web-sessions.js';
+import { MemoryStore } from '../stores.js';
+
+// Minimal in-memory stand-in for SvelteKit's cookies object
+const createMockCookies = () => {
+  const jar = new Map<string, string>();
+  return {
+    jar,
+    get: vi.fn((name: string) => jar.get(name)),
+    set: vi.fn((name: string, value: string) => {
+      jar.set(name, value);
+    }),
+    delete: vi.fn((name: string) => {
+      jar.delete(name);
+    })
+  } as unknown as Cookies & { jar: Map<string, string> };
+};
+
+describe('WebSessionManager', () => {
+  let store: MemoryStore<WebSession>;
+  let manager: WebSessionManager;
+  let cookies: ReturnType<typeof createMockCookies>;
+
+  beforeEach(() => {
+    store = new MemoryStore<WebSession>();
+    manager = new WebSessionManager(store, { secret: 'test-secret', developmentMode: false });
+    cookies = createMockCookies();
+  });
+
+  it('should issue an opaque cookie that resolves to the DID', async () => {
+    await manager.create(cookies, 'did:plc:test123');
+
+    const value = cookies.jar.get(SESSION_COOKIE)!;
+    expect(value).not.toContain('did:plc');
+    expect(cookies.set).toHaveBeenCalledWith(
+      SESSION_COOKIE,
+      value,
+      expect.objectContaining({ httpOnly: true, sameSite: 'lax', path: '/' })
+    );
+    expect(await manager.resolve(cookies)).toBe('did:plc:test123');
+  });
+
+  it('should rotate the session ID on login', async () => {
+    await manager.create(cookies, 'did:plc:test123');
+    const first = cookies.jar.get(SESSION_COOKIE);
+
+    await manager.create(cookies, 'did:plc:test123');
+
+    expect(cookies.jar.get(SESSION_COOKIE)).not.toBe(first);
+    expect(await store.size()).toBe(1);
+  });
+
+  it('should clear a raw DID cookie', async () => {
+    cookies.jar.set(SESSION_COOKIE, 'did:plc:test123');
+
+    expect(await manager.resolve(cookies)).toBeNull();
+    expect(cookies.jar.has(SESSION_COOKIE)).toBe(false);
+  });
+
+  it('should clear a cookie signed with another secret', async () => {
+    const other = new WebSessionManager(store, { secret: 'other-secret', developmentMode: false });
+    await other.create(cookies, 'did:plc:test123');
+
+    expect(await manager.resolve(cookies)).toBeNull();
+    expect(cookies.jar.has(SESSION_COOKIE)).toBe(false);
+  });
+
+  it('should clear a validly signed cookie after revocation', async () => {
+    await manager.create(cookies, 'did:plc:test123');
+    const value = cookies.jar.get(SESSION_COOKIE)!;
+
+    await manager.revoke(cookies);
+    cookies.jar.set(SESSION_COOKIE, value);
+
+    expect(await manager.resolve(cookies)).toBeNull();
+    expect(cookies.jar.has(SESSION_COOKIE)).toBe(false);
+  });
+
+  it('should reject and delete a record older than the cookie', async () => {
+    vi.useFakeTimers();
+    try {
+      await manager.create(cookies, 'did:plc:test123');
+      const value = cookies.jar.get(SESSION_COOKIE)!;
+
+      vi.advanceTimersByTime(7 * 24 * 60 * 60 * 1000 - 1000);
+      expect(await manager.resolve(cookies)).toBe('did:plc:test123');
+
+      // The browser dropped the cookie by now; a copy of its value must not work either
+      vi.advanceTimersByTime(7 * 24 * 60 * 60 * 1000);
+      cookies.jar.set(SESSION_COOKIE, value);
+      expect(await manager.resolve(cookies)).toBeNull();
+      expect(cookies.jar.has(SESSION_COOKIE)).toBe(false);
+      expect(await store.size()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should require a secret outside development mode', () => {
+    const original = process.env.SESSION_SECRET;
+    delete process.env.SESSION_SECRET;
+
+    try {
+      expect(() => new WebSessionManager(store, { developmentMode: false })).toThrow('Session cookie secret required');
+    } finally {
+      if (original !== undefined) {
+        process.env.SESSION_SECRET = original;
+      }
+    }
+  });
+});
+
+describe('WebSessionManager linked accounts', () => {
+  let store: MemoryStore<WebSession>;
+  let manager: WebSessionManager;
+  let cookies: ReturnType<typeof createMockCookies>;
+
+  beforeEach(async () => {
+    store = new MemoryStore<WebSession>();
+    manager = new WebSessionManager(store, { secret: 'test-secret', developmentMode: false });
+    cookies = createMockCookies();
+    await manager.create(cookies, 'did:plc:personal');
+  });
+
+  it('should link a second account without dropping the first', async () => {
+    await manager.create(cookies, 'did:plc:project');
+
+    expect(await manager.get(cookies)).toMatchObject({
+      accounts: ['did:plc:personal', 'did:plc:project'],
+      activeDid: 'did:plc:project'
+    });
+    expect(await store.size()).toBe(1);
+  });
+
+  it('should not duplicate an account that signs in again', async () => {
+    await manager.create(cookies, 'did:plc:project');
+    await manager.create(cookies, 'did:plc:personal');
+
+    expect(await manager.get(cookies)).toMatchObject({
+      accounts: ['did:plc:personal', 'did:plc:project'],
+      activeDid: 'did:plc:personal'
+    });
+  });
+
+  it('should switch only to linked accounts', async () => {
+    await manager.create(cookies, 'did:plc:project');
+
+    expect(await manager.switchAccount(cookies, 'did:plc:personal')).toBe(true);
+    expect(await manager.resolve(cookies)).toBe('did:plc:personal');
+
+    expect(await manager.switchAccount(cookies, 'did:plc:stranger')).toBe(false);
+    expect(await manager.resolve(cookies)).toBe('did:plc:personal');
+  });
+
+  it('should fall back to a remaining account when the active one is removed', async () => {
+    await manager.create(cookies, 'did:plc:project');
+
+    const remaining = await manager.removeAccount(cookies, 'did:plc:project');
+
+    expect(remaining).toMatchObject({ accounts: ['did:plc:personal'], activeDid: 'did:plc:personal' });
+    expect(await manager.resolve(cookies)).toBe('did:plc:personal');
+  });
+
+  it('should revoke the session when the last account is removed', async () => {
+    expect(await manager.removeAccount(cookies, 'did:plc:personal')).toBeNull();
+
+    expect(cookies.jar.has(SESSION_COOKIE)).toBe(false);
+    expect(await store.size()).toBe(0);
+  });
+
+  it('should keep an expired account linked until it signs in again', async () => {
+    await manager.create(cookies, 'did:plc:project');
+
+    await manager.setExpired(cookies, 'did:plc:personal', true);
+    await manager.setExpired(cookies, 'did:plc:stranger', true);
+    expect(await manager.get(cookies)).toMatchObject({
+      accounts: ['did:plc:personal', 'did:plc:project'],
+      expired: ['did:plc:personal']
+    });
+
+    await manager.create(cookies, 'did:plc:personal');
+    expect((await manager.get(cookies))?.expired).toBeUndefined();
+  });
+
+  it('should drop the expired mark when the account is removed', async () => {
+    await manager.create(cookies, 'did:plc:project');
+    await manager.setExpired(cookies, 'did:plc:project', true);
+
+    expect(await manager.removeAccount(cookies, 'did:plc:project')).not.toHaveProperty('expired');
+  });
+
+  it('should read single-account records written before linking existed', async () => {
+    const [sessionId] = await store.keys();
+    const createdAt = Date.now() - 60_000;
+    await (store as MemoryStore<unknown>).set(sessionId, { did: 'did:plc:legacy', createdAt });
+
+    expect(await manager.get(cookies)).toEqual({
+      accounts: ['did:plc:legacy'],
+      activeDid: 'did:plc:legacy',
+      createdAt,
+      lastSeenAt: expect.any(Number)
+    });
+  });
+});
+
+describe('WebSessionManager devices', () => {
+  const ALICE = 'did:plc:alice';
+  const laptop = { userAgent: 'Mozilla/5.0 (Macintosh) Firefox/128.0', ipPrefix: '203.0.113.0/24' };
+  const phone = { userAgent: 'Mozilla/5.0 (iPhone) Safari/604.1', ipPrefix: '2001:db8:1::/48' };
+
+  let store: MemoryStore<WebSession>;
+  let manager: WebSessionManager;
+  let laptopCookies: ReturnType<typeof createMockCookies>;
+  let phoneCookies: ReturnType<typeof createMockCookies>;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T10:00:00Z') });
+    store = new MemoryStore<WebSession>();
+    manager = new WebSessionManager(store, { secret: 'test-secret', developmentMode: false });
+    laptopCookies = createMockCookies();
+    phoneCookies = createMockCookies();
+
+    await manager.create(laptopCookies, ALICE, laptop);
+    vi.advanceTimersByTime(60_000);
+    await manager.create(phoneCookies, ALICE, phone);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should list an account\'s sessions with their devices, most recent first', async () => {
+    const sessions = await manager.listForAccount(laptopCookies, ALICE);
+
+    expect(sessions).toEqual([
+      expect.objectContaining({ device: phone, current: false }),
+      expect.objectContaining({ device: laptop, current: true })
+    ]);
+    // The listed ID cannot be turned back into a cookie
+    const [sessionId] = await store.keys();
+    expect(sessions.map((session) => session.id)).not.toContain(sessionId);
+  });
+
+  it('should leave out and delete sessions whose cookie has expired', async () => {
+    const issuedAt = Date.now() - 8 * 24 * 60 * 60 * 1000;
+    await store.set('bob-session', { accounts: ['did:plc:bob'], activeDid: 'did:plc:bob', createdAt: issuedAt, issuedAt });
+    // The laptop session was issued just over a week ago, the phone session just under
+    vi.advanceTimersByTime(7 * 24 * 60 * 60 * 1000 - 30_000);
+
+    const sessions = await manager.listForAccount(phoneCookies, ALICE);
+
+    expect(sessions).toEqual([expect.objectContaining({ device: phone, current: true })]);
+    expect(await store.keys()).toHaveLength(1);
+    expect(await manager.revokeOthersForAccount(phoneCookies, ALICE)).toBe(0);
+  });
+
+  it('should update the last-seen time at most every few minutes', async () => {
+    const lastSeen = async () => (await manager.listForAccount(laptopCookies, ALICE)).find((s) => s.current)!.lastSeenAt;
+    const signedIn = await lastSeen();
+
+    vi.advanceTimersByTime(60_000);
+    await manager.get(laptopCookies);
+    expect(await lastSeen()).toBe(signedIn);
+
+    vi.advanceTimersByTime(5 * 60_000);
+    await manager.get(laptopCookies);
+    expect(await lastSeen()).toBe(Date.now());
+  });
+
+  it('should sign another browser out by its listed ID', async () => {
+    const phoneSession = (await manager.listForAccount(laptopCookies, ALICE)).find((session) => !session.current)!;
+
+    expect(await manager.revokeForAccount(ALICE, phoneSession.id)).toBe(true);
+
+    expect(await manager.resolve(phoneCookies)).toBeNull();
+    expect(await manager.resolve(laptopCookies)).toBe(ALICE);
+    expect(await manager.revokeForAccount(ALICE, phoneSession.id)).toBe(false);
+  });
+
+  it('should only unlink the account from a session shared with other accounts', async () => {
+    await manager.create(phoneCookies, 'did:plc:bob');
+
+    expect(await manager.revokeOthersForAccount(laptopCookies, ALICE)).toBe(1);
+
+    expect(await manager.get(phoneCookies)).toMatchObject({ accounts: ['did:plc:bob'], activeDid: 'did:plc:bob' });
+    expect(await manager.listForAccount(laptopCookies, ALICE)).toHaveLength(1);
+  });
+
+  it('should not revoke a session of another account by ID', async () => {
+    const [phoneSession] = await manager.listForAccount(phoneCookies, ALICE);
+
+    expect(await manager.revokeForAccount('did:plc:mallory', phoneSession.id)).toBe(false);
+    expect(await manager.resolve(phoneCookies)).toBe(ALICE);
+  });
+});
+
+describe('describeDevice', () => {
+  const device = (address: string, userAgent = 'Mozilla/5.0') =>
+    describeDevice({
+      request: new Request('http://127.0.0.1/', { headers: { 'user-agent': userAgent } }),
+      getClientAddress: () => address
+    });
+
+  it('should keep only the network of the client address', () => {
+    expect(device('203.0.113.42').ipPrefix).toBe('203.0.113.0/24');
+    expect(device('::ffff:198.51.100.7').ipPrefix).toBe('198.51.100.0/24');
+    expect(device('2001:db8:85a3:8d3:1319:8a2e:370:7348').ipPrefix).toBe('2001:db8:85a3::/48');
+    expect(device('2001:db8::1').ipPrefix).toBe('2001:db8:0::/48');
+  });
+
+  it('should truncate the user agent and cope without a client address', () => {
+    const info = describeDevice({
+      request: new Request('http://127.0.0.1/', { headers: { 'user-agent': 'x'.repeat(1000) } }),
+      getClientAddress: () => {
+        throw new Error('Not supported by this adapter');
+      }
+    });
+
+    expect(info).toEqual({ userAgent: 'x'.repeat(256), ipPrefix: undefined });
+  });
+});
@@ -33,11 +33,56 @@ import type {
   ThreadResponse,
   APIResponse,
   PaginatedAPIResponse,
-  BlueskyError,
   FeedItem,
   EnrichedFeedItem,
-  DemoType
+  DemoType,
+  PostSearchParams,
+  ActorSearchResponse,
+  ActorSearchResult,
+  ATUri,
+  Timestamp,
+  BlueskyNotification,
+  NotificationGroup,
+  NotificationReason,
+  NotificationsResponse,
+  ListNotificationsOptions,
+  FeedGeneratorView,
+  FeedGeneratorInfo,
+  FeedGeneratorsResponse,
+  SavedFeed,
+  SavedFeedsResponse,
+  BlueskyList,
+  ListKind,
+  ListResponse,
+  ModerationList,
+  ListsResponse
 } from './types.js';
+import { BlueskyError } from './types.js';
+
+/** Query the dashboard's search demo runs */
+export const DEMO_SEARCH_QUERY = 'atproto';
+
+// Most URIs app.bsky.feed.getPosts accepts per call
+const GET_POSTS_BATCH_SIZE = 25;
+// Feed generators per getFeedGenerators call, keeping query strings short for long saved lists
+const GET_FEED_GENERATORS_BATCH_SIZE = 25;
+
+// Reasons grouped by subject, and how far apart notifications in a group may be
+const GROUPED_REASONS: ReadonlySet<NotificationReason> = new Set([
+  'like',
+  'repost',
+  'follow',
+  'like-via-repost',
+  'repost-via-repost'
+]);
+const GROUP_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+// List record purposes and the kind of list each one is
+const LIST_KINDS: Record<string, ListKind> = {
+  'app.bsky.graph.defs#curatelist': 'curation',
+  'app.bsky.graph.defs#modlist': 'moderation',
+  'app.bsky.graph.defs#referencelist': 'reference'
+};
 
 /**
  * Bluesky API Service
@@ -325,6 +370,685 @@ export class BlueskyAPIService {
     }
   }
 
+  // ============================================================================
+  // Feed Generator API Methods
+  // ============================================================================
+
+  /**
+   * Get posts from a custom feed with enriched data
+   * 
+   * The AppView asks the feed's generator service for a skeleton and
+   * hydrates it; the result is enriched like a timeline.
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param feedUri - AT URI of the feed generator record
+   * @param limit - Number of posts to fetch (default: 30, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to the feed's posts
+   */
+  async getFeed(
+    agent: AuthenticatedAgent,
+    feedUri: ATUri,
+    limit: number = 30,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<EnrichedFeedResponse>> {
+    try {
+      console.log(`API: Getting feed ${feedUri} (limit: ${limit})`);
+
+      const response = await agent.app.bsky.feed.getFeed({
+        feed: feedUri,
+        limit: Math.min(limit, 100),
+        cursor
+      });
+
+      const enrichedFeed = await this.enrichFeedItems(agent, response.data.feed as unknown as FeedItem[]);
+      const analytics = this.analyzeFeedContent(enrichedFeed);
+
+      console.log(`API: Feed retrieved with ${enrichedFeed.length} items`);
+
+      return {
+        success: true,
+        data: {
+          feed: enrichedFeed,
+          cursor: response.data.cursor,
+          analytics
+        },
+        pagination: {
+          cursor: response.data.cursor,
+          hasMore: !!response.data.cursor,
+          limit
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error(`API: Failed to get feed ${feedUri}:`, error);
+      return this.createErrorResponse(error, 'getFeed');
+    }
+  }
+
+  /**
+   * Get a feed generator and the health of its service
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param feedUri - AT URI of the feed generator record
+   * @returns Promise resolving to generator metadata with online and valid flags
+   */
+  async getFeedGenerator(
+    agent: AuthenticatedAgent,
+    feedUri: ATUri
+  ): Promise<APIResponse<FeedGeneratorInfo>> {
+    try {
+      const response = await agent.app.bsky.feed.getFeedGenerator({ feed: feedUri });
+
+      return {
+        success: true,
+        data: {
+          view: response.data.view as FeedGeneratorView,
+          isOnline: response.data.isOnline,
+          isValid: response.data.isValid
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error(`API: Failed to get feed generator ${feedUri}:`, error);
+      return this.createErrorResponse(error, 'getFeedGenerator');
+    }
+  }
+
+  /**
+   * Get several feed generators at once
+   * 
+   * Generators that no longer exist are left out of the result.
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param feedUris - AT URIs of feed generator records
+   * @returns Promise resolving to generator metadata
+   */
+  async getFeedGenerators(
+    agent: AuthenticatedAgent,
+    feedUris: ATUri[]
+  ): Promise<APIResponse<FeedGeneratorsResponse>> {
+    try {
+      const feeds: FeedGeneratorView[] = [];
+      for (let i = 0; i < feedUris.length; i += GET_FEED_GENERATORS_BATCH_SIZE) {
+        const response = await agent.app.bsky.feed.getFeedGenerators({
+          feeds: feedUris.slice(i, i + GET_FEED_GENERATORS_BATCH_SIZE)
+        });
+        feeds.push(...(response.data.feeds as FeedGeneratorView[]));
+      }
+
+      return {
+        success: true,
+        data: { feeds },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error(`API: Failed to get ${feedUris.length} feed generators:`, error);
+      return this.createErrorResponse(error, 'getFeedGenerators');
+    }
+  }
+
+  /**
+   * Get the feed generators an account has created
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param actor - User DID or handle
+   * @param limit - Number of generators to fetch (default: 50, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to the account's feed generators
+   */
+  async getActorFeeds(
+    agent: AuthenticatedAgent,
+    actor: DID | string,
+    limit: number = 50,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<FeedGeneratorsResponse>> {
+    try {
+      const response = await agent.app.bsky.feed.getActorFeeds({
+        actor,
+        limit: Math.min(limit, 100),
+        cursor
+      });
+
+      return {
+        success: true,
+        data: {
+          feeds: response.data.feeds as FeedGeneratorView[],
+          cursor: response.data.cursor
+        },
+        pagination: {
+          cursor: response.data.cursor,
+          hasMore: !!response.data.cursor,
+          limit
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error(`API: Failed to get feeds by ${actor}:`, error);
+      return this.createErrorResponse(error, 'getActorFeeds', actor);
+    }
+  }
+
+  /**
+   * Get the custom feeds saved in the user's preferences
+   * 
+   * Saved lists and the home timeline entry are skipped. Pinned feeds come
+   * first, each group in the order the user arranged them. If generator
+   * metadata can't be fetched the feeds are still returned, without it.
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @returns Promise resolving to saved feeds with their generators
+   */
+  async getSavedFeeds(agent: AuthenticatedAgent): Promise<APIResponse<SavedFeedsResponse>> {
+    try {
+      const preferences = await agent.getPreferences();
+      const saved = preferences.savedFeeds.filter((feed) => feed.type === 'feed');
+
+      const generators = new Map<string, FeedGeneratorView>();
+      if (saved.length > 0) {
+        const response = await this.getFeedGenerators(agent, saved.map((feed) => feed.value));
+        if (response.success) {
+          for (const generator of response.data!.feeds) {
+            generators.set(generator.uri, generator);
+          }
+        } else {
+          console.warn('API: Saved feeds listed without generator metadata:', response.error?.message);
+        }
+      }
+
+      const feeds: SavedFeed[] = saved
+        .map((feed) => ({ id: feed.id, uri: feed.value, pinned: feed.pinned, generator: generators.get(feed.value) }))
+        .sort((a, b) => Number(b.pinned) - Number(a.pinned));
+
+      return {
+        success: true,
+        data: { feeds },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error('API: Failed to get saved feeds:', error);
+      return this.createErrorResponse(error, 'getPreferences');
+    }
+  }
+
+  // ============================================================================
+  // List API Methods
+  // ============================================================================
+
+  /**
+   * Get the lists an account has created
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param actor - User DID or handle
+   * @param kind - Only curation or only moderation lists (default: both)
+   * @param limit - Number of lists to fetch (default: 50, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to the account's lists
+   */
+  async getLists(
+    agent: AuthenticatedAgent,
+    actor: DID | string,
+    kind?: 'curation' | 'moderation',
+    limit: number = 50,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<ListsResponse>> {
+    try {
+      console.log(`API: Getting ${kind ?? 'all'} lists by ${actor} (limit: ${limit})`);
+
+      const response = await agent.app.bsky.graph.getLists({
+        actor,
+        purposes: kind ? [kind === 'curation' ? 'curatelist' : 'modlist'] : undefined,
+        limit: Math.min(limit, 100),
+        cursor
+      });
+
+      return this.listsResponse(response.data.lists, response.data.cursor, limit);
+    } catch (error) {
+      console.error(`API: Failed to get lists by ${actor}:`, error);
+      return this.createErrorResponse(error, 'getLists', actor);
+    }
+  }
+
+  /**
+   * Get a list and a page of its members
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param listUri - AT URI of the list record
+   * @param limit - Number of members to fetch (default: 50, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to the list and its members
+   */
+  async getList(
+    agent: AuthenticatedAgent,
+    listUri: ATUri,
+    limit: number = 50,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<ListResponse>> {
+    try {
+      console.log(`API: Getting list ${listUri} (limit: ${limit})`);
+
+      const response = await agent.app.bsky.graph.getList({
+        list: listUri,
+        limit: Math.min(limit, 100),
+        cursor
+      });
+
+      return {
+        success: true,
+        data: {
+          list: toBlueskyList(response.data.list),
+          members: response.data.items.map((item) => ({
+            uri: item.uri,
+            subject: item.subject as ActorSearchResult
+          })),
+          cursor: response.data.cursor
+        },
+        pagination: {
+          cursor: response.data.cursor,
+          hasMore: !!response.data.cursor,
+          limit
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error(`API: Failed to get list ${listUri}:`, error);
+      return this.createErrorResponse(error, 'getList');
+    }
+  }
+
+  /**
+   * Get recent posts by the members of a curation list
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param listUri - AT URI of a curation list
+   * @param limit - Number of posts to fetch (default: 30, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to the list feed
+   */
+  async getListFeed(
+    agent: AuthenticatedAgent,
+    listUri: ATUri,
+    limit: number = 30,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<EnrichedFeedResponse>> {
+    try {
+      console.log(`API: Getting list feed ${listUri} (limit: ${limit})`);
+
+      const response = await agent.app.bsky.feed.getListFeed({
+        list: listUri,
+        limit: Math.min(limit, 100),
+        cursor
+      });
+
+      const enrichedFeed = await this.enrichFeedItems(agent, response.data.feed as unknown as FeedItem[]);
+      const analytics = this.analyzeFeedContent(enrichedFeed);
+
+      return {
+        success: true,
+        data: {
+          feed: enrichedFeed,
+          cursor: response.data.cursor,
+          analytics
+        },
+        pagination: {
+          cursor: response.data.cursor,
+          hasMore: !!response.data.cursor,
+          limit
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error(`API: Failed to get list feed ${listUri}:`, error);
+      return this.createErrorResponse(error, 'getListFeed');
+    }
+  }
+
+  /**
+   * Get the moderation lists the user mutes
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param limit - Number of lists to fetch (default: 50, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to muted lists
+   */
+  async getListMutes(
+    agent: AuthenticatedAgent,
+    limit: number = 50,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<ListsResponse>> {
+    try {
+      const response = await agent.app.bsky.graph.getListMutes({ limit: Math.min(limit, 100), cursor });
+      return this.listsResponse(response.data.lists, response.data.cursor, limit);
+    } catch (error) {
+      console.error('API: Failed to get muted lists:', error);
+      return this.createErrorResponse(error, 'getListMutes');
+    }
+  }
+
+  /**
+   * Get the moderation lists the user blocks
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param limit - Number of lists to fetch (default: 50, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to blocked lists
+   */
+  async getListBlocks(
+    agent: AuthenticatedAgent,
+    limit: number = 50,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<ListsResponse>> {
+    try {
+      const response = await agent.app.bsky.graph.getListBlocks({ limit: Math.min(limit, 100), cursor });
+      return this.listsResponse(response.data.lists, response.data.cursor, limit);
+    } catch (error) {
+      console.error('API: Failed to get blocked lists:', error);
+      return this.createErrorResponse(error, 'getListBlocks');
+    }
+  }
+
+  // ============================================================================
+  // Search API Methods
+  // ============================================================================
+
+  /**
+   * Search posts with enriched data
+   * 
+   * Runs a full-text post search with optional filters and enriches the
+   * results like a timeline, so they can be displayed and analyzed the same
+   * way. Handles given for `author` and `mentions` are resolved by the search
+   * service.
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param params - Query and filters
+   * @param limit - Number of posts to fetch (default: 25, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to matching posts as an enriched feed
+   */
+  async searchPosts(
+    agent: AuthenticatedAgent,
+    params: PostSearchParams,
+    limit: number = 25,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<EnrichedFeedResponse>> {
+    try {
+      const query = normalizePostSearch(params);
+      if (!query.q) {
+        throw new BlueskyError('Enter something to search for', 'INVALID_QUERY', 400);
+      }
+
+      console.log(`API: Searching posts for "${query.q}" (limit: ${limit})`);
+      
+      const response = await agent.app.bsky.feed.searchPosts({
+        ...query,
+        limit: Math.min(limit, 100),
+        cursor
+      });
+
+      // Search hits are bare posts; wrapped as feed items they enrich like any feed
+      const enrichedFeed = await this.enrichFeedItems(
+        agent,
+        response.data.posts.map((post) => ({ post: post as unknown as BlueskyPost }))
+      );
+      const analytics = this.analyzeFeedContent(enrichedFeed);
+
+      const enrichedResponse: EnrichedFeedResponse = {
+        feed: enrichedFeed,
+        cursor: response.data.cursor,
+        analytics,
+        hitsTotal: response.data.hitsTotal
+      };
+
+      console.log(`API: Search returned ${enrichedFeed.length} posts`);
+      
+      return {
+        success: true,
+        data: enrichedResponse,
+        pagination: {
+          cursor: response.data.cursor,
+          hasMore: !!response.data.cursor,
+          limit
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error(`API: Failed to search posts for "${params.q}":`, error);
+      return this.createErrorResponse(error, 'searchPosts');
+    }
+  }
+
+  /**
+   * Search accounts
+   * 
+   * Matches handles, display names and descriptions.
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param query - Search terms
+   * @param limit - Number of accounts to fetch (default: 25, max: 100)
+   * @param cursor - Pagination cursor for next page
+   * @returns Promise resolving to matching accounts
+   */
+  async searchActors(
+    agent: AuthenticatedAgent,
+    query: string,
+    limit: number = 25,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<ActorSearchResponse>> {
+    try {
+      const q = query.trim();
+      if (!q) {
+        throw new BlueskyError('Enter something to search for', 'INVALID_QUERY', 400);
+      }
+
+      console.log(`API: Searching actors for "${q}" (limit: ${limit})`);
+
+      const response = await agent.searchActors({
+        q,
+        limit: Math.min(limit, 100),
+        cursor
+      });
+
+      return {
+        success: true,
+        data: {
+          actors: response.data.actors as ActorSearchResult[],
+          cursor: response.data.cursor
+        },
+        pagination: {
+          cursor: response.data.cursor,
+          hasMore: !!response.data.cursor,
+          limit
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error(`API: Failed to search actors for "${query}":`, error);
+      return this.createErrorResponse(error, 'searchActors');
+    }
+  }
+
+  /**
+   * Suggest accounts for a partially typed handle or name
+   * 
+   * Cheaper than searchActors and meant to run as the user types. A blank
+   * prefix returns no suggestions rather than an error.
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param prefix - What has been typed so far; a leading `@` is ignored
+   * @param limit - Number of suggestions (default: 8, max: 100)
+   * @returns Promise resolving to suggested accounts
+   */
+  async searchActorsTypeahead(
+    agent: AuthenticatedAgent,
+    prefix: string,
+    limit: number = 8
+  ): Promise<APIResponse<ActorSearchResponse>> {
+    const q = prefix.trim().replace(/^@/, '');
+    const metadata = () => ({
+      timestamp: new Date().toISOString(),
+      requestId: crypto.randomUUID()
+    });
+
+    if (!q) {
+      return { success: true, data: { actors: [] }, metadata: metadata() };
+    }
+
+    try {
+      const response = await agent.searchActorsTypeahead({
+        q,
+        limit: Math.min(limit, 100)
+      });
+
+      return {
+        success: true,
+        data: { actors: response.data.actors as ActorSearchResult[] },
+        metadata: metadata()
+      };
+    } catch (error) {
+      console.error(`API: Failed to suggest actors for "${q}":`, error);
+      return this.createErrorResponse(error, 'searchActorsTypeahead');
+    }
+  }
+
+  // ============================================================================
+  // Notification API Methods
+  // ============================================================================
+
+  /**
+   * List notifications, grouped and with their subject posts
+   * 
+   * Likes, reposts and follows are grouped with groupNotifications(). Groups
+   * don't continue across pages, so a busy post can show up in one group per
+   * page.
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param options - Reason filter, page size and cursor
+   * @returns Promise resolving to grouped notifications
+   */
+  async listNotifications(
+    agent: AuthenticatedAgent,
+    options: ListNotificationsOptions = {}
+  ): Promise<PaginatedAPIResponse<NotificationsResponse>> {
+    const { reasons, limit = 30, cursor } = options;
+
+    try {
+      console.log(`API: Listing notifications (limit: ${limit}${reasons ? `, reasons: ${reasons.join(',')}` : ''})`);
+
+      const response = await agent.listNotifications({
+        reasons: reasons?.length ? reasons : undefined,
+        limit: Math.min(limit, 100),
+        cursor
+      });
+
+      const groups = groupNotifications(response.data.notifications as BlueskyNotification[]);
+      await this.hydrateNotificationSubjects(agent, groups);
+
+      console.log(`API: ${response.data.notifications.length} notifications in ${groups.length} groups`);
+
+      return {
+        success: true,
+        data: {
+          groups,
+          cursor: response.data.cursor,
+          seenAt: response.data.seenAt
+        },
+        pagination: {
+          cursor: response.data.cursor,
+          hasMore: !!response.data.cursor,
+          limit
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error('API: Failed to list notifications:', error);
+      return this.createErrorResponse(error, 'listNotifications');
+    }
+  }
+
+  /**
+   * Count notifications not yet marked seen
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @returns Promise resolving to the unread count
+   */
+  async getUnreadCount(agent: AuthenticatedAgent): Promise<APIResponse<{ count: number }>> {
+    try {
+      const response = await agent.countUnreadNotifications();
+
+      return {
+        success: true,
+        data: { count: response.data.count },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error('API: Failed to count unread notifications:', error);
+      return this.createErrorResponse(error, 'getUnreadCount');
+    }
+  }
+
+  /**
+   * Mark notifications up to a point in time as seen
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param seenAt - Notifications indexed before this are read (default: now)
+   * @returns Promise resolving to the time recorded
+   */
+  async updateSeen(
+    agent: AuthenticatedAgent,
+    seenAt: Date = new Date()
+  ): Promise<APIResponse<{ seenAt: Timestamp }>> {
+    try {
+      console.log(`API: Marking notifications seen at ${seenAt.toISOString()}`);
+
+      await agent.updateSeenNotifications(seenAt.toISOString());
+
+      return {
+        success: true,
+        data: { seenAt: seenAt.toISOString() },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          requestId: crypto.randomUUID()
+        }
+      };
+    } catch (error) {
+      console.error('API: Failed to mark notifications seen:', error);
+      return this.createErrorResponse(error, 'updateSeen');
+    }
+  }
+
   // ============================================================================
   // Social Graph API Methods
   // ============================================================================
@@ -524,6 +1248,9 @@ export class BlueskyAPIService {
         case 'followers':
           return await this.getFollowersWithTotals(agent, actor, 20);
           
+        case 'search':
+          return await this.searchPosts(agent, { q: DEMO_SEARCH_QUERY, sort: 'latest' }, limit);
+          
         default:
           return { 
             success: false, 
@@ -543,6 +1270,40 @@ export class BlueskyAPIService {
   // Private Helper Methods
   // ============================================================================
 
+  /**
+   * Attach subject posts to notification groups
+   * 
+   * Subjects are fetched with getPosts in batches of its maximum size. A
+   * failed batch leaves its groups without a subject rather than failing the
+   * page; deleted posts are simply missing from the response.
+   * 
+   * @param agent - Authenticated AT Protocol agent
+   * @param groups - Groups to update in place
+   */
+  private async hydrateNotificationSubjects(
+    agent: AuthenticatedAgent,
+    groups: NotificationGroup[]
+  ): Promise<void> {
+    const uris = [...new Set(groups.map((group) => group.subjectUri).filter((uri): uri is ATUri => !!uri))];
+    const posts = new Map<string, BlueskyPost>();
+
+    for (let i = 0; i < uris.length; i += GET_POSTS_BATCH_SIZE) {
+      const batch = uris.slice(i, i + GET_POSTS_BATCH_SIZE);
+      try {
+        const response = await agent.getPosts({ uris: batch });
+        for (const post of response.data.posts) {
+          posts.set(post.uri, post as unknown as BlueskyPost);
+        }
+      } catch (error) {
+        console.warn(`API: Failed to fetch ${batch.length} notification subjects:`, error);
+      }
+    }
+
+    for (const group of groups) {
+      group.subject = group.subjectUri ? posts.get(group.subjectUri) : undefined;
+    }
+  }
+
   /**
    * Enrich feed items with additional data
    * 
@@ -685,6 +1446,33 @@ export class BlueskyAPIService {
     );
   }
 
+  /**
+   * Wrap a page of list views in the standard response
+   * 
+   * @param views - Lists as returned by the API
+   * @param cursor - Cursor for the next page
+   * @param limit - Requested page size
+   * @returns Paginated response with typed lists
+   */
+  private listsResponse(views: unknown[], cursor: string | undefined, limit: number): PaginatedAPIResponse<ListsResponse> {
+    return {
+      success: true,
+      data: {
+        lists: views.map(toBlueskyList),
+        cursor
+      },
+      pagination: {
+        cursor,
+        hasMore: !!cursor,
+        limit
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        requestId: crypto.randomUUID()
+      }
+    };
+  }
+
   /**
    * Create standardized error response
    * 
@@ -740,6 +1528,7 @@ export class BlueskyAPIService {
       'AUTH_REQUIRED': `Authentication is required for the ${method} API. Please ensure you are logged in with a valid session.`,
       'RATE_LIMITED': `Too many requests to the ${method} API. Please wait before making additional requests.`,
       'NOT_FOUND': `The requested resource for ${method} was not found. The user or content may not exist.`,
+      'INVALID_QUERY': `The ${method} API needs a search query. Filters alone narrow a search but can't start one.`,
       'API_ERROR': `An unexpected error occurred while calling the ${method} API. Please try again later.`
     };
 
@@ -747,6 +1536,109 @@ export class BlueskyAPIService {
   }
 }
 
+/**
+ * Trim post search filters and drop empty ones
+ * 
+ * Leading `@` on accounts and `#` on tags are removed, as people type them.
+ * 
+ * @param params - Filters as entered
+ * @returns Filters to send to searchPosts
+ */
+export function normalizePostSearch(params: PostSearchParams): PostSearchParams {
+  const text = (value?: string) => value?.trim() || undefined;
+  const account = (value?: string) => text(value)?.replace(/^@/, '') || undefined;
+  const tags = (params.tag ?? []).map((tag) => tag.trim().replace(/^#/, '')).filter(Boolean);
+
+  return {
+    q: params.q.trim(),
+    sort: params.sort === 'top' || params.sort === 'latest' ? params.sort : undefined,
+    author: account(params.author),
+    mentions: account(params.mentions),
+    since: text(params.since),
+    until: text(params.until),
+    lang: text(params.lang),
+    domain: text(params.domain),
+    tag: tags.length > 0 ? tags : undefined
+  };
+}
+
+/**
+ * Group notifications the way the official app does
+ * 
+ * Likes and reposts of the same post, and follows, collapse into one group
+ * as long as they are within 48 hours of its newest notification. Other
+ * reasons always get their own group. Order is kept, newest first.
+ * 
+ * @param notifications - Notifications, newest first
+ * @returns One group per row to show
+ */
+export function groupNotifications(notifications: BlueskyNotification[]): NotificationGroup[] {
+  const groups: NotificationGroup[] = [];
+  const open = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = GROUPED_REASONS.has(notification.reason)
+      ? `${notification.reason}:${notification.reasonSubject ?? ''}`
+      : undefined;
+    const group = key ? open.get(key) : undefined;
+
+    if (group && Date.parse(group.indexedAt) - Date.parse(notification.indexedAt) <= GROUP_WINDOW_MS) {
+      group.notifications.push(notification);
+      group.isRead &&= notification.isRead;
+      if (!group.authors.some((author) => author.did === notification.author.did)) {
+        group.authors.push(notification.author);
+      }
+      continue;
+    }
+
+    const created: NotificationGroup = {
+      id: notification.uri,
+      reason: notification.reason,
+      authors: [notification.author],
+      notifications: [notification],
+      subjectUri: notificationSubject(notification),
+      isRead: notification.isRead,
+      indexedAt: notification.indexedAt
+    };
+    groups.push(created);
+    if (key) {
+      open.set(key, created);
+    }
+  }
+
+  return groups;
+}
+
+// Likes and reposts are about another post; replies, mentions and quotes are the post
+function notificationSubject(notification: BlueskyNotification): ATUri | undefined {
+  switch (notification.reason) {
+    case 'like':
+    case 'repost':
+      return notification.reasonSubject;
+    case 'reply':
+    case 'mention':
+    case 'quote':
+    case 'subscribed-post':
+      return notification.uri;
+    default:
+      // Follows have no subject; the *-via-repost reasons point at a repost record
+      return undefined;
+  }
+}
+
+// Tag a list view with its kind; unknown purposes are treated as reference lists, the most inert kind
+function toBlueskyList(view: unknown): BlueskyList {
+  const list = view as BlueskyList;
+  const kind = LIST_KINDS[list.purpose] ?? 'reference';
+  if (kind === 'moderation') {
+    return { ...list, kind };
+  }
+  // Muting and blocking only apply to moderation lists
+  const rest: Omit<ModerationList, 'kind'> = { ...list };
+  delete rest.viewer;
+  return { ...rest, kind };
+}
+
 // Default singleton instance for convenience
 let defaultInstance: BlueskyAPIService | null = null;
 
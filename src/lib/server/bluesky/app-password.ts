@@ -0,0 +1,228 @@
+/**
+ * @fileoverview App-password credentials for scripts and headless use
+ *
+ * Scheduled jobs and test harnesses cannot complete a browser OAuth flow, so
+ * a BlueskyService can instead sign in with an identifier and app password
+ * (`com.atproto.server.createSession`). The resulting `AtpAgent` is an
+ * `Agent` like the OAuth one, so every BlueskyAPIService method works with it
+ * unchanged.
+ *
+ * The session is persisted in the configured store (encrypted like OAuth
+ * sessions when keys are set) and resumed on the next run; the agent refreshes
+ * its access token by itself and every refresh is written back.
+ *
+ * App passwords created with "Allow access to your direct messages" are
+ * refused unless `allowDirectMessages` is set, and the main account password
+ * is always refused.
+ *
+ * @example
+ * ```typescript
+ * const bluesky = new BlueskyService({
+ *   appPassword: { identifier: 'bot.example.com', password: process.env.BSKY_APP_PASSWORD! }
+ * });
+ * const did = await bluesky.signInWithAppPassword();
+ * const timeline = await bluesky.getTimelineEnriched(did, 20);
+ * ```
+ */
+
+import { AtpAgent } from '@atproto/api';
+import type { AtpSessionData, AtpSessionEvent } from '@atproto/api';
+import type { AppPasswordOptions, AuthenticatedAgent, CredentialProvider, DID, OAuthStore } from './types.js';
+import { BlueskyError } from './types.js';
+
+/** Default service for createSession */
+export const DEFAULT_APP_PASSWORD_SERVICE = 'https://bsky.social';
+
+// Access token `scope` claims issued by createSession
+const SCOPE_APP_PASSWORD = 'com.atproto.appPass';
+const SCOPE_APP_PASSWORD_PRIVILEGED = 'com.atproto.appPassPrivileged';
+
+/**
+ * Credential provider backed by an app-password session
+ *
+ * One provider signs in exactly one account; agents are only handed out for
+ * that account's DID.
+ */
+export class AppPasswordProvider implements CredentialProvider {
+  private readonly service: string;
+  private readonly storeKey: string;
+  private agent: Promise<AtpAgent> | null = null;
+
+  constructor(
+    private readonly options: AppPasswordOptions,
+    private readonly store: OAuthStore<AtpSessionData>
+  ) {
+    this.service = options.service || DEFAULT_APP_PASSWORD_SERVICE;
+    this.storeKey = options.identifier.trim().replace(/^@/, '').toLowerCase();
+  }
+
+  /**
+   * Sign in (or resume the stored session) and return the account's DID
+   *
+   * @throws {BlueskyError} APP_PASSWORD_LOGIN_FAILED, APP_PASSWORD_PRIVILEGED or APP_PASSWORD_REQUIRED
+   */
+  async signIn(): Promise<DID> {
+    const agent = await this.getAgent();
+    return agent.assertDid as DID;
+  }
+
+  /**
+   * Get the agent for the signed-in account
+   *
+   * @param userDid - Must be the DID of the app-password account
+   * @throws {BlueskyError} AUTH_REQUIRED if userDid is a different account
+   */
+  async getAuthenticatedAgent(userDid: DID): Promise<AuthenticatedAgent> {
+    const agent = await this.getAgent();
+    if (agent.did !== userDid) {
+      throw new BlueskyError(`The app-password session belongs to ${agent.did}, not ${userDid}`, 'AUTH_REQUIRED', 401);
+    }
+    return agent;
+  }
+
+  /**
+   * Check whether the app-password account is userDid and can sign in
+   */
+  async hasValidSession(userDid: DID): Promise<boolean> {
+    try {
+      return (await this.getAgent()).did === userDid;
+    } catch (error) {
+      console.warn('App-password session unavailable:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Delete the session at the server and in the store
+   */
+  async signOut(): Promise<void> {
+    const pending = this.agent;
+    this.agent = null;
+
+    try {
+      await (await pending)?.logout();
+    } catch (error) {
+      console.warn('App-password session could not be deleted at the server:', error);
+    }
+    await this.store.del(this.storeKey);
+  }
+
+  /**
+   * Get the provider configuration for debugging
+   *
+   * @returns Options with the password redacted
+   */
+  getConfig(): AppPasswordOptions {
+    return {
+      identifier: this.options.identifier,
+      password: '[redacted]',
+      service: this.service,
+      allowDirectMessages: !!this.options.allowDirectMessages
+    };
+  }
+
+  /**
+   * Resolve the shared agent, signing in on first use
+   */
+  private getAgent(): Promise<AtpAgent> {
+    if (!this.agent) {
+      this.agent = this.createAgent().catch((error) => {
+        this.agent = null;
+        throw error;
+      });
+    }
+    return this.agent;
+  }
+
+  private async createAgent(): Promise<AtpAgent> {
+    const agent = new AtpAgent({
+      service: this.service,
+      persistSession: (event, session) => this.persistSession(event, session)
+    });
+
+    const stored = await this.store.get(this.storeKey);
+    if (stored) {
+      try {
+        await agent.resumeSession(stored);
+        console.log(`Resumed app-password session for ${stored.did}`);
+      } catch (error) {
+        console.warn('Stored app-password session could not be resumed, signing in again:', error);
+        await this.store.del(this.storeKey);
+      }
+    }
+
+    if (!agent.session) {
+      try {
+        await agent.login({ identifier: this.options.identifier, password: this.options.password });
+      } catch (error) {
+        throw new BlueskyError(
+          `App-password sign-in failed for ${this.options.identifier}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'APP_PASSWORD_LOGIN_FAILED',
+          401,
+          undefined,
+          error
+        );
+      }
+      console.log(`Signed in with app password as ${agent.did}`);
+    }
+
+    const refusal = this.checkAccess(agent.session!);
+    if (refusal) {
+      await agent.logout().catch(() => {});
+      await this.store.del(this.storeKey);
+      throw refusal;
+    }
+    return agent;
+  }
+
+  /**
+   * Refuse credentials that can do more than this provider allows
+   */
+  private checkAccess(session: AtpSessionData): BlueskyError | null {
+    const scope = accessTokenScope(session.accessJwt);
+    if (scope === SCOPE_APP_PASSWORD) {
+      return null;
+    }
+    if (scope === SCOPE_APP_PASSWORD_PRIVILEGED) {
+      return this.options.allowDirectMessages
+        ? null
+        : new BlueskyError(
+            'This app password has direct message access; create one without it or set allowDirectMessages',
+            'APP_PASSWORD_PRIVILEGED',
+            403
+          );
+    }
+    return new BlueskyError(
+      'Sign in with an app password (Settings → Privacy and security → App passwords), not the account password',
+      'APP_PASSWORD_REQUIRED',
+      403
+    );
+  }
+
+  private async persistSession(event: AtpSessionEvent, session: AtpSessionData | undefined): Promise<void> {
+    try {
+      if ((event === 'create' || event === 'update') && session) {
+        await this.store.set(this.storeKey, session);
+      } else if (event === 'expired' || event === 'create-failed') {
+        await this.store.del(this.storeKey);
+      }
+    } catch (error) {
+      console.error(`Failed to persist app-password session (${event}):`, error);
+    }
+  }
+}
+
+/**
+ * Read the `scope` claim from an access JWT without verifying it
+ *
+ * The token comes straight from the PDS we signed in to; the claim only
+ * decides whether we keep using it.
+ */
+function accessTokenScope(accessJwt: string): string | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(accessJwt.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.scope === 'string' ? payload.scope : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Append-only audit log of authentication events
+ *
+ * BlueskyService records every lifecycle event from BlueskyOAuthService
+ * (sign-in, failed callback, token refresh, session deleted by the OAuth
+ * client, logout) here. Entries are never updated or removed by the app.
+ *
+ * Backends:
+ * - `memory` - the most recent entries in this process (default)
+ * - `file`   - one JSON object per line, appended to a file on disk
+ *
+ * Error messages are redacted before they are recorded: JWTs, bearer tokens
+ * and token/code query parameters never reach the log.
+ *
+ * @example
+ * ```bash
+ * AUTH_AUDIT_LOG=file
+ * AUTH_AUDIT_LOG_PATH=.data/auth-audit.jsonl
+ * ```
+ */
+
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AuditLog, AuditLogFilter, AuditLogOptions, AuthEvent, AuthEventType } from './types.js';
+import { OAuthError } from './types.js';
+
+/** Every lifecycle event type, in the order a session goes through them */
+export const AUTH_EVENT_TYPES: readonly AuthEventType[] = [
+  'login',
+  'callback_failed',
+  'token_refreshed',
+  'session_deleted',
+  'logout'
+];
+
+const DEFAULT_AUDIT_LOG_PATH = '.data/auth-audit.jsonl';
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Audit log kept in memory
+ *
+ * Holds the most recent `maxEntries` events; older ones are dropped.
+ */
+export class MemoryAuditLog implements AuditLog {
+  readonly backend = 'memory';
+  private readonly entries: AuthEvent[] = [];
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async append(event: AuthEvent): Promise<void> {
+    this.entries.push({ ...event });
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  async query(filter: AuditLogFilter = {}): Promise<AuthEvent[]> {
+    return applyFilter(this.entries, filter);
+  }
+}
+
+/**
+ * Audit log appended to a JSON lines file
+ *
+ * Appends from one process are written in order; the file is only ever
+ * appended to, so it can be shipped or rotated with standard log tooling.
+ */
+export class FileAuditLog implements AuditLog {
+  readonly backend = 'file';
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string = DEFAULT_AUDIT_LOG_PATH) {}
+
+  async append(event: AuthEvent): Promise<void> {
+    const next = this.queue.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, `${JSON.stringify(event)}\n`, { mode: 0o600 });
+    });
+    this.queue = next;
+    await next;
+  }
+
+  async query(filter: AuditLogFilter = {}): Promise<AuthEvent[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new OAuthError(`Failed to read audit log ${this.path}`, 'AUDIT_LOG_ERROR', undefined, error);
+    }
+
+    const entries: AuthEvent[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash; the rest of the log is still valid
+        console.warn(`Skipping unreadable audit log line in ${this.path}`);
+      }
+    }
+    return applyFilter(entries, filter);
+  }
+}
+
+/**
+ * Create the audit log for the configured backend
+ *
+ * @param options - Audit log configuration
+ * @returns Audit log instance
+ */
+export function createAuditLog(options: AuditLogOptions = {}): AuditLog {
+  switch (options.backend ?? 'memory') {
+    case 'memory':
+      return new MemoryAuditLog(options.maxEntries);
+    case 'file':
+      return new FileAuditLog(options.path);
+    default:
+      throw new OAuthError(`Unknown audit log backend: ${options.backend}`, 'AUDIT_LOG_ERROR');
+  }
+}
+
+/**
+ * Resolve audit log options from environment variables
+ *
+ * Reads `AUTH_AUDIT_LOG` (memory | file) and `AUTH_AUDIT_LOG_PATH`.
+ *
+ * @returns Audit log options derived from the environment
+ */
+export function auditLogOptionsFromEnv(): AuditLogOptions {
+  return {
+    backend: (process.env.AUTH_AUDIT_LOG as AuditLogOptions['backend']) || 'memory',
+    path: process.env.AUTH_AUDIT_LOG_PATH || undefined
+  };
+}
+
+/**
+ * Turn an error into a message that is safe to keep in the audit log
+ *
+ * @param error - Any thrown value
+ * @returns `Name: message` with tokens, codes and secrets replaced by `[redacted]`
+ */
+export function redactError(error: unknown): string {
+  const message =
+    error instanceof Error ? `${error.name}: ${error.message}` : typeof error === 'string' ? error : 'Unknown error';
+
+  const redacted = message
+    // JWTs (access tokens, DPoP proofs, client assertions)
+    .replace(/eyJ[\w-]*\.[\w-]*\.[\w-]*/g, '[redacted]')
+    .replace(/\b(Bearer|DPoP)\s+[\w.~+/=-]+/gi, '$1 [redacted]')
+    .replace(/\b(access_token|refresh_token|code|client_assertion|dpop_jkt|password)=[^&\s"']+/gi, '$1=[redacted]');
+
+  return redacted.length > MAX_ERROR_LENGTH ? `${redacted.slice(0, MAX_ERROR_LENGTH)}…` : redacted;
+}
+
+function applyFilter(entries: AuthEvent[], filter: AuditLogFilter): AuthEvent[] {
+  const limit = filter.limit ?? DEFAULT_QUERY_LIMIT;
+  const result: AuthEvent[] = [];
+
+  const matches = (entry: AuthEvent) =>
+    (!filter.types?.length || filter.types.includes(entry.type)) &&
+    (!filter.did || entry.did === filter.did) &&
+    (!filter.since || entry.timestamp >= filter.since) &&
+    (!filter.until || entry.timestamp < filter.until);
+
+  // Newest first
+  for (let i = entries.length - 1; i >= 0 && result.length < limit; i--) {
+    if (matches(entries[i])) {
+      result.push({ ...entries[i] });
+    }
+  }
+  return result;
+}
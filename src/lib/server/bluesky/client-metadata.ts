@@ -0,0 +1,222 @@
+/**
+ * @fileoverview OAuth client metadata builder and validation
+ *
+ * Every OAuth entry point (the client in oauth.ts, the `/client-metadata.json`
+ * route and the legacy client) gets its metadata from `buildClientMetadata()`,
+ * so the document authorization servers read and the one the client uses
+ * cannot drift apart. Two profiles are covered:
+ *
+ * - Loopback development: the client ID is `http://localhost` carrying the
+ *   redirect URI and scope as query parameters. Authorization servers derive
+ *   the metadata from the client ID itself; redirect URIs must be on
+ *   `http://127.0.0.1` or `http://[::1]` and the client is always public.
+ * - HTTPS production: the client ID is the URL of the hosted metadata
+ *   document. Redirect URIs share its origin; the client is public (`none`)
+ *   or confidential (`private_key_jwt` with keys published at `jwks_uri`).
+ *
+ * The built metadata is checked against the atproto client metadata rules,
+ * and every problem is reported at once when the service starts rather than
+ * one at a time at the first sign-in.
+ */
+
+import type { OAuthClientMetadataInput } from '@atproto/oauth-client-node';
+import { SIGNING_ALG } from './keyset.js';
+import { isValidScope, parseScope } from './scopes.js';
+import type { OAuthClientAuthMode } from './types.js';
+import { OAuthError } from './types.js';
+
+/** Name shown on the authorization server's consent screen */
+export const CLIENT_NAME = 'SvelteKit Bsky Guide';
+
+/** Inputs for buildClientMetadata() */
+export interface ClientMetadataOptions {
+  /** Loopback (`http://localhost?...`) or hosted (`https://...`) client ID */
+  clientId: string;
+  /** Origin the app is served from; the redirect URI is its root */
+  publicUrl: string;
+  clientAuth: OAuthClientAuthMode;
+  /** Space-separated scopes to declare */
+  scope: string;
+}
+
+const LOOPBACK_REDIRECT_HOSTS = ['127.0.0.1', '[::1]'];
+
+/**
+ * Build the loopback client ID used in development
+ *
+ * @param publicUrl - Loopback origin of the app, e.g. http://127.0.0.1:5174
+ * @param scope - Space-separated scopes to declare
+ */
+export function loopbackClientId(publicUrl: string, scope: string): string {
+  const redirectUri = `${publicUrl}/`;
+  return `http://localhost?redirect_uri=${encodeURIComponent(redirectUri)}&scope=${encodeURIComponent(scope)}`;
+}
+
+/**
+ * Check whether a client ID uses the loopback development pattern
+ */
+export function isLoopbackClientId(clientId: string): boolean {
+  return clientId === 'http://localhost' || clientId.startsWith('http://localhost?') || clientId.startsWith('http://localhost/');
+}
+
+/**
+ * Build and validate client metadata for the configured profile
+ *
+ * @param options - Client ID, public URL, auth mode and scope
+ * @returns Client metadata in the snake_case form NodeOAuthClient expects
+ * @throws {OAuthError} CLIENT_METADATA_INVALID listing every violated rule
+ */
+export function buildClientMetadata(options: ClientMetadataOptions): OAuthClientMetadataInput {
+  const base = {
+    client_id: options.clientId,  // snake_case, NOT clientId
+    client_name: CLIENT_NAME,
+    client_uri: options.publicUrl,
+    redirect_uris: [`${options.publicUrl}/`] as [string],  // snake_case, NOT redirectUris
+    grant_types: ['authorization_code', 'refresh_token'] as ['authorization_code', 'refresh_token'],
+    scope: options.scope,
+    response_types: ['code'] as ['code'],
+    dpop_bound_access_tokens: true
+  };
+
+  let metadata: OAuthClientMetadataInput;
+  if (isLoopbackClientId(options.clientId)) {
+    metadata = {
+      ...base,
+      application_type: 'native',
+      token_endpoint_auth_method: options.clientAuth === 'confidential' ? 'private_key_jwt' : 'none'
+    };
+  } else if (options.clientAuth === 'confidential') {
+    metadata = {
+      ...base,
+      application_type: 'web',
+      token_endpoint_auth_method: 'private_key_jwt',
+      token_endpoint_auth_signing_alg: SIGNING_ALG,
+      jwks_uri: `${options.publicUrl}/jwks.json`
+    };
+  } else {
+    metadata = {
+      ...base,
+      application_type: 'web',
+      token_endpoint_auth_method: 'none'
+    };
+  }
+
+  validateClientMetadata(metadata);
+  return metadata;
+}
+
+/**
+ * Validate client metadata against the atproto OAuth client rules
+ *
+ * Checks the client ID form, redirect URI origins, the declared scopes and
+ * that the token endpoint auth method matches the published keys.
+ *
+ * @param metadata - Metadata to check
+ * @throws {OAuthError} CLIENT_METADATA_INVALID listing every violated rule
+ */
+export function validateClientMetadata(metadata: OAuthClientMetadataInput): void {
+  const problems: string[] = [];
+  const clientId = parseUrl(metadata.client_id);
+  const loopback = isLoopbackClientId(metadata.client_id ?? '');
+  const authMethod = metadata.token_endpoint_auth_method ?? 'none';
+  const redirectUris = metadata.redirect_uris ?? [];
+
+  if (!clientId) {
+    problems.push(`client_id is not a URL: "${metadata.client_id}"`);
+  } else if (loopback) {
+    if (clientId.port || clientId.pathname !== '/' || clientId.hash) {
+      problems.push('A loopback client_id must be exactly http://localhost, optionally with query parameters');
+    }
+    if (authMethod !== 'none') {
+      problems.push(
+        'Confidential client mode needs a hosted client ID (https://.../client-metadata.json), not the localhost pattern'
+      );
+    }
+    const embeddedScope = clientId.searchParams.get('scope');
+    if (embeddedScope !== null && embeddedScope !== metadata.scope) {
+      problems.push(`The scope in the loopback client_id ("${embeddedScope}") differs from the metadata scope`);
+    }
+    for (const uri of clientId.searchParams.getAll('redirect_uri')) {
+      if (!redirectUris.includes(uri as (typeof redirectUris)[number])) {
+        problems.push(`The loopback client_id names redirect_uri ${uri}, which is not in redirect_uris`);
+      }
+    }
+  } else {
+    if (clientId.protocol !== 'https:' || clientId.pathname === '/' || clientId.hash || clientId.username) {
+      problems.push(
+        `A hosted client_id must be the https URL of the metadata document, e.g. https://example.com/client-metadata.json (got ${metadata.client_id})`
+      );
+    }
+    if (metadata.client_uri && parseUrl(metadata.client_uri)?.origin !== clientId.origin) {
+      problems.push(`client_uri ${metadata.client_uri} must share the client_id origin ${clientId.origin}`);
+    }
+  }
+
+  if (redirectUris.length === 0) {
+    problems.push('redirect_uris must list at least one URI');
+  }
+  for (const uri of redirectUris) {
+    const redirect = parseUrl(uri);
+    if (!redirect) {
+      problems.push(`redirect_uri is not a URL: "${uri}"`);
+    } else if (loopback) {
+      if (redirect.protocol !== 'http:' || !LOOPBACK_REDIRECT_HOSTS.includes(redirect.hostname)) {
+        problems.push(
+          `Loopback redirect URIs must use http://127.0.0.1 or http://[::1], not localhost (got ${uri}); set PUBLIC_URL accordingly`
+        );
+      }
+    } else if (clientId && (redirect.protocol !== 'https:' || redirect.origin !== clientId.origin)) {
+      problems.push(`redirect_uri ${uri} must be https on the client_id origin ${clientId.origin}`);
+    }
+  }
+
+  const scopes = parseScope(metadata.scope);
+  if (!scopes.includes('atproto')) {
+    problems.push('scope must include "atproto"');
+  }
+  const invalidScopes = scopes.filter((scope) => !isValidScope(scope));
+  if (invalidScopes.length > 0) {
+    problems.push(`scope contains invalid scopes: ${invalidScopes.join(', ')}`);
+  }
+
+  if (!metadata.response_types?.includes('code')) {
+    problems.push('response_types must include "code"');
+  }
+  if (!metadata.grant_types?.includes('authorization_code')) {
+    problems.push('grant_types must include "authorization_code"');
+  }
+  if (metadata.dpop_bound_access_tokens !== true) {
+    problems.push('dpop_bound_access_tokens must be true');
+  }
+
+  const publishesKeys = Boolean(metadata.jwks || metadata.jwks_uri);
+  if (authMethod === 'private_key_jwt') {
+    if (metadata.token_endpoint_auth_signing_alg !== SIGNING_ALG) {
+      problems.push(`private_key_jwt needs token_endpoint_auth_signing_alg "${SIGNING_ALG}"`);
+    }
+    if (!publishesKeys) {
+      problems.push('private_key_jwt needs jwks_uri (or jwks) so the server can verify client assertions');
+    }
+    if (metadata.jwks_uri && parseUrl(metadata.jwks_uri)?.protocol !== 'https:') {
+      problems.push(`jwks_uri must be an https URL (got ${metadata.jwks_uri})`);
+    }
+  } else if (authMethod === 'none') {
+    if (metadata.token_endpoint_auth_signing_alg || publishesKeys) {
+      problems.push('Public clients (token_endpoint_auth_method "none") must not declare signing keys');
+    }
+  } else {
+    problems.push(`Unsupported token_endpoint_auth_method "${authMethod}"`);
+  }
+
+  if (problems.length > 0) {
+    throw new OAuthError(`Invalid OAuth client metadata:\n- ${problems.join('\n- ')}`, 'CLIENT_METADATA_INVALID');
+  }
+}
+
+function parseUrl(value: string | undefined): URL | null {
+  try {
+    return value ? new URL(value) : null;
+  } catch {
+    return null;
+  }
+}
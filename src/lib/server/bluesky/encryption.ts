@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Envelope encryption for stored OAuth sessions
+ *
+ * OAuth sessions hold the DPoP private key and the refresh token, so anyone
+ * who can read the session store can impersonate the user. Every session is
+ * therefore encrypted before it reaches the store:
+ *
+ * 1. A fresh 256-bit data key encrypts the session JSON (AES-256-GCM)
+ * 2. The data key is wrapped with the current master key (AES-256-GCM)
+ * 3. The envelope records the master key id (`kid`) that wrapped it
+ *
+ * Master keys are configured as an ordered list; the first key encrypts new
+ * entries and the rest are only used to decrypt. Rotating is a matter of
+ * prepending a new key: entries written under an older key are re-encrypted
+ * with the current key the next time they are read.
+ *
+ * @example
+ * ```bash
+ * # kid:base64-key pairs, current key first
+ * SESSION_ENCRYPTION_KEYS="2025-06:$(openssl rand -base64 32),2025-01:<old key>"
+ * ```
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import type { OAuthStore, SessionEncryptionKey } from './types.js';
+import { OAuthError } from './types.js';
+
+/** Encrypted representation of a stored value */
+export interface EncryptedEnvelope {
+  /** Envelope format version */
+  v: 1;
+  /** Id of the master key that wrapped the data key */
+  kid: string;
+  /** Data key wrapped with the master key (iv | tag | ciphertext, base64) */
+  wrappedKey: string;
+  /** Value encrypted with the data key (iv | tag | ciphertext, base64) */
+  ciphertext: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Session encryption with an ordered master keyring
+ *
+ * The store key (e.g. the user's DID) is bound to every envelope as
+ * additional authenticated data, so an envelope copied onto another user's
+ * entry fails to decrypt.
+ */
+export class SessionEncryption {
+  private readonly keys: Map<string, Buffer>;
+  private readonly currentKid: string;
+
+  /**
+   * @param keys - Master keys, current key first
+   * @throws {OAuthError} If no keys are given or a key is malformed
+   */
+  constructor(keys: SessionEncryptionKey[]) {
+    if (keys.length === 0) {
+      throw new OAuthError('At least one session encryption key is required', 'ENCRYPTION_KEY_MISSING');
+    }
+
+    this.keys = new Map();
+    for (const { kid, key } of keys) {
+      const material = Buffer.from(key, 'base64');
+      if (!kid || material.length !== KEY_LENGTH) {
+        throw new OAuthError(
+          `Session encryption key "${kid}" must be ${KEY_LENGTH} bytes encoded as base64`,
+          'ENCRYPTION_KEY_INVALID'
+        );
+      }
+      if (this.keys.has(kid)) {
+        throw new OAuthError(`Duplicate session encryption key id "${kid}"`, 'ENCRYPTION_KEY_INVALID');
+      }
+      this.keys.set(kid, material);
+    }
+    this.currentKid = keys[0].kid;
+  }
+
+  /** Id of the key used for new envelopes */
+  get kid(): string {
+    return this.currentKid;
+  }
+
+  /**
+   * Encrypt a value with a fresh data key wrapped by the current master key
+   *
+   * @param value - JSON-serializable value
+   * @param context - Store key the value belongs to (bound as AAD)
+   * @returns Encrypted envelope
+   */
+  encrypt(value: unknown, context: string): EncryptedEnvelope {
+    const dataKey = randomBytes(KEY_LENGTH);
+    const aad = Buffer.from(context);
+
+    return {
+      v: 1,
+      kid: this.currentKid,
+      wrappedKey: seal(this.keys.get(this.currentKid)!, dataKey, aad),
+      ciphertext: seal(dataKey, Buffer.from(JSON.stringify(value)), aad)
+    };
+  }
+
+  /**
+   * Decrypt an envelope
+   *
+   * @param envelope - Envelope produced by encrypt()
+   * @param context - Store key the value was encrypted for
+   * @returns Decrypted value
+   * @throws {OAuthError} If the master key is unknown or the envelope was tampered with
+   */
+  decrypt<V>(envelope: EncryptedEnvelope, context: string): V {
+    const masterKey = this.keys.get(envelope.kid);
+    if (!masterKey) {
+      throw new OAuthError(`Unknown session encryption key id "${envelope.kid}"`, 'ENCRYPTION_KEY_UNKNOWN');
+    }
+
+    try {
+      const aad = Buffer.from(context);
+      const dataKey = open(masterKey, envelope.wrappedKey, aad);
+      return JSON.parse(open(dataKey, envelope.ciphertext, aad).toString('utf8'));
+    } catch (error) {
+      throw new OAuthError('Failed to decrypt stored session', 'DECRYPTION_FAILED', undefined, error);
+    }
+  }
+
+  /**
+   * Check whether an envelope was written under an older master key
+   */
+  needsRotation(envelope: EncryptedEnvelope): boolean {
+    return envelope.kid !== this.currentKid;
+  }
+}
+
+/**
+ * Store decorator that encrypts values before they reach the inner store
+ *
+ * Reads transparently upgrade entries: envelopes wrapped with an old master
+ * key and plaintext entries written before encryption was enabled are
+ * re-encrypted with the current key and written back.
+ */
+export class EncryptedStore<V> implements OAuthStore<V> {
+  constructor(
+    private readonly inner: OAuthStore<EncryptedEnvelope | V>,
+    private readonly encryption: SessionEncryption
+  ) {}
+
+  get backend(): string {
+    return this.inner.backend;
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    const stored = await this.inner.get(key);
+    if (stored === undefined) {
+      return undefined;
+    }
+
+    if (!isEncryptedEnvelope(stored)) {
+      console.log(`Encrypting legacy plaintext entry for key: ${key}`);
+      await this.set(key, stored);
+      return stored;
+    }
+
+    const value = this.encryption.decrypt<V>(stored, key);
+    if (this.encryption.needsRotation(stored)) {
+      console.log(`Re-encrypting entry for key: ${key} (${stored.kid} -> ${this.encryption.kid})`);
+      await this.set(key, value);
+    }
+    return value;
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    await this.inner.set(key, this.encryption.encrypt(value, key));
+  }
+
+  async del(key: string): Promise<void> {
+    await this.inner.del(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return this.inner.keys();
+  }
+
+  async size(): Promise<number> {
+    return this.inner.size();
+  }
+}
+
+/**
+ * Check whether a stored value is an encryption envelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  const candidate = value as EncryptedEnvelope | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    candidate.v === 1 &&
+    typeof candidate.kid === 'string' &&
+    typeof candidate.wrappedKey === 'string' &&
+    typeof candidate.ciphertext === 'string'
+  );
+}
+
+/**
+ * Parse master keys from the environment
+ *
+ * Reads `SESSION_ENCRYPTION_KEYS` as a comma-separated list of `kid:base64key`
+ * pairs, current key first.
+ *
+ * @returns Configured master keys (empty when unset)
+ */
+export function encryptionKeysFromEnv(): SessionEncryptionKey[] {
+  const raw = process.env.SESSION_ENCRYPTION_KEYS?.trim();
+  if (!raw) {
+    return [];
+  }
+
+  return raw.split(',').map((entry) => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) {
+      throw new OAuthError('SESSION_ENCRYPTION_KEYS entries must look like "kid:base64key"', 'ENCRYPTION_KEY_INVALID');
+    }
+    return { kid: entry.slice(0, separator).trim(), key: entry.slice(separator + 1).trim() };
+  });
+}
+
+// AES-256-GCM helpers: output is base64(iv | tag | ciphertext)
+
+function seal(key: Buffer, plaintext: Buffer, aad: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(key: Buffer, sealed: string, aad: Buffer): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(aad);
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Expiry tracking for stored OAuth state and sessions
+ *
+ * Every entry written through an ExpiringStore is wrapped with its creation
+ * and last-use timestamps:
+ *
+ *   { createdAt, lastUsedAt, value }
+ *
+ * The timestamps sit outside the value, so when the store sits underneath
+ * EncryptedStore expired sessions can be found and swept without decrypting
+ * anything. Entries expire either a fixed time after creation (PKCE state)
+ * or after a period without use (sessions). Expired entries are dropped
+ * lazily on read and in bulk by `sweep()`.
+ */
+
+import type { OAuthStore } from './types.js';
+
+/** Stored representation of a tracked value */
+export interface TrackedEntry<V> {
+  /** Epoch milliseconds when the key was first written */
+  createdAt: number;
+  /** Epoch milliseconds when the entry was last read or written */
+  lastUsedAt: number;
+  value: V;
+}
+
+/** Expiry policy for an ExpiringStore */
+export interface ExpiryPolicy {
+  /** Time-to-live in seconds */
+  ttl: number;
+  /** Measure the TTL from the last use instead of from creation */
+  sliding?: boolean;
+}
+
+/** Active and expired entry counts */
+export interface ExpiryStats {
+  active: number;
+  expired: number;
+}
+
+// Reads only bump lastUsedAt once per minute to avoid rewriting on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Store decorator that tracks timestamps and expires entries
+ *
+ * Entries written before tracking was enabled are adopted on first read with
+ * the current time as their creation time.
+ */
+export class ExpiringStore<V> implements OAuthStore<V> {
+  constructor(
+    private readonly inner: OAuthStore<TrackedEntry<V> | V>,
+    private readonly policy: ExpiryPolicy
+  ) {}
+
+  get backend(): string {
+    return this.inner.backend;
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    const stored = await this.inner.get(key);
+    if (stored === undefined) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (!isTrackedEntry<V>(stored)) {
+      await this.inner.set(key, { createdAt: now, lastUsedAt: now, value: stored });
+      return stored;
+    }
+
+    if (this.isExpired(stored, now)) {
+      console.log(`Expired entry for key: ${key}`);
+      await this.inner.del(key);
+      return undefined;
+    }
+
+    if (this.policy.sliding && now - stored.lastUsedAt > TOUCH_INTERVAL_MS) {
+      await this.inner.set(key, { ...stored, lastUsedAt: now });
+    }
+    return stored.value;
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    // Keep the original creation time when an entry is updated (e.g. token refresh)
+    const existing = await this.inner.get(key);
+    const now = Date.now();
+    const createdAt = existing !== undefined && isTrackedEntry<V>(existing) ? existing.createdAt : now;
+
+    await this.inner.set(key, { createdAt, lastUsedAt: now, value });
+  }
+
+  async del(key: string): Promise<void> {
+    await this.inner.del(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return this.inner.keys();
+  }
+
+  async size(): Promise<number> {
+    return this.inner.size();
+  }
+
+  /**
+   * Delete every expired entry
+   *
+   * @returns Keys that were deleted
+   */
+  async sweep(): Promise<string[]> {
+    const now = Date.now();
+    const expired: string[] = [];
+
+    for (const key of await this.inner.keys()) {
+      const stored = await this.inner.get(key);
+      if (stored !== undefined && isTrackedEntry<V>(stored) && this.isExpired(stored, now)) {
+        await this.inner.del(key);
+        expired.push(key);
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Count active and expired (not yet swept) entries
+   */
+  async stats(): Promise<ExpiryStats> {
+    const now = Date.now();
+    const stats: ExpiryStats = { active: 0, expired: 0 };
+
+    for (const key of await this.inner.keys()) {
+      const stored = await this.inner.get(key);
+      if (stored === undefined) {
+        continue;
+      }
+      if (isTrackedEntry<V>(stored) && this.isExpired(stored, now)) {
+        stats.expired++;
+      } else {
+        stats.active++;
+      }
+    }
+    return stats;
+  }
+
+  private isExpired(entry: TrackedEntry<V>, now: number): boolean {
+    const since = this.policy.sliding ? entry.lastUsedAt : entry.createdAt;
+    return now - since > this.policy.ttl * 1000;
+  }
+}
+
+/**
+ * Check whether a stored value carries expiry timestamps
+ */
+export function isTrackedEntry<V>(value: unknown): value is TrackedEntry<V> {
+  const candidate = value as TrackedEntry<V> | null;
+  return (
+    typeof candidate === 'object' &&
+    candidate !== null &&
+    typeof candidate.createdAt === 'number' &&
+    typeof candidate.lastUsedAt === 'number' &&
+    'value' in candidate
+  );
+}
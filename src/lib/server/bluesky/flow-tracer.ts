@@ -0,0 +1,386 @@
+/**
+ * @fileoverview Step-by-step recordings of OAuth logins
+ *
+ * A trace follows one login across its two requests: the authorization
+ * request (handle resolution, server metadata, PAR, redirect) and the callback
+ * (callback parameters, token exchange, stored session). Events are recorded
+ * by the service for its own steps and by a fetch wrapper for every HTTP
+ * request the OAuth client makes while a trace is active, including requests
+ * it repeats with a DPoP nonce.
+ *
+ * The active trace is carried by AsyncLocalStorage, so concurrent logins
+ * don't mix. The callback finds its trace through the state key the OAuth
+ * client stored during the authorization request.
+ *
+ * Tokens, authorization codes, PKCE verifiers, client assertions and DPoP
+ * proof signatures are redacted before anything is recorded. Traces are
+ * kept in memory and only recorded in development mode.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import type { FlowEvent, FlowHttpExchange, FlowStage, FlowTrace } from './types.js';
+
+const DEFAULT_MAX_TRACES = 20;
+const MAX_BODY_LENGTH = 16 * 1024;
+const REDACTED = '[redacted]';
+
+// Request and response fields that carry secrets
+const SECRET_FIELDS = new Set([
+  'code',
+  'code_verifier',
+  'access_token',
+  'refresh_token',
+  'id_token',
+  'client_assertion',
+  'dpop_jkt',
+  'password'
+]);
+
+// Headers shown in a trace; DPoP and Authorization are summarized or redacted
+const REQUEST_HEADERS = ['content-type', 'authorization', 'dpop'];
+const RESPONSE_HEADERS = ['content-type', 'dpop-nonce', 'www-authenticate', 'location'];
+
+type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * In-memory recorder of OAuth login traces
+ *
+ * Keeps the most recent traces; older ones are dropped.
+ */
+export class FlowTracer {
+  private readonly context = new AsyncLocalStorage<FlowTrace>();
+  private readonly traces: FlowTrace[] = [];
+  // OAuth client state key → trace, so the callback continues the right trace
+  private readonly byStateKey = new Map<string, FlowTrace>();
+
+  constructor(private readonly maxTraces: number = DEFAULT_MAX_TRACES) {}
+
+  /**
+   * Start a new trace
+   *
+   * @param input - Identifier the login started with
+   * @returns The trace, to pass to run()
+   */
+  start(input: string): FlowTrace {
+    const trace: FlowTrace = {
+      id: randomUUID(),
+      input,
+      startedAt: new Date().toISOString(),
+      status: 'in_progress',
+      events: []
+    };
+    this.traces.push(trace);
+    while (this.traces.length > this.maxTraces) {
+      const dropped = this.traces.shift()!;
+      for (const [key, trace] of this.byStateKey) {
+        if (trace === dropped) {
+          this.byStateKey.delete(key);
+        }
+      }
+    }
+    return trace;
+  }
+
+  /**
+   * Run a function with a trace active; events recorded inside go to it
+   */
+  run<T>(trace: FlowTrace, fn: () => Promise<T>): Promise<T> {
+    return this.context.run(trace, fn);
+  }
+
+  /** Trace active in the current async context, if any */
+  current(): FlowTrace | undefined {
+    return this.context.getStore();
+  }
+
+  /**
+   * Record an event in the active trace (no-op without one)
+   *
+   * @param stage - Login stage
+   * @param title - One-line summary
+   * @param detail - Extra information; secret fields are redacted
+   * @param options - Status and duration of the step
+   */
+  record(
+    stage: FlowStage,
+    title: string,
+    detail?: Record<string, unknown>,
+    options: { status?: FlowEvent['status']; duration?: number; http?: FlowHttpExchange } = {}
+  ): void {
+    const trace = this.current();
+    if (!trace) {
+      return;
+    }
+    const now = new Date();
+    trace.events.push({
+      stage,
+      title,
+      timestamp: now.toISOString(),
+      offset: now.getTime() - Date.parse(trace.startedAt),
+      duration: options.duration,
+      status: options.status ?? 'ok',
+      detail: detail && (redact(detail) as Record<string, unknown>),
+      http: options.http
+    });
+  }
+
+  /**
+   * Tie an OAuth client state key to the active trace
+   *
+   * Called from the state store while the authorization request is made.
+   */
+  linkState(stateKey: string): void {
+    const trace = this.current();
+    if (trace) {
+      this.byStateKey.set(stateKey, trace);
+    }
+  }
+
+  /**
+   * Find the trace a callback belongs to
+   *
+   * @param stateKey - `state` parameter of the callback
+   * @returns The trace started by the matching authorization request
+   */
+  resume(stateKey: string | null): FlowTrace | undefined {
+    if (!stateKey) {
+      return undefined;
+    }
+    const trace = this.byStateKey.get(stateKey);
+    this.byStateKey.delete(stateKey);
+    return trace;
+  }
+
+  /**
+   * Mark a trace as finished
+   *
+   * @param trace - Trace to close
+   * @param result - Account signed in, or the failure code
+   */
+  finish(trace: FlowTrace, result: { did?: FlowTrace['did']; errorCode?: string }): void {
+    trace.did = result.did ?? trace.did;
+    trace.errorCode = result.errorCode;
+    trace.status = result.errorCode ? 'failed' : 'completed';
+  }
+
+  /** Recorded traces, newest first */
+  list(): FlowTrace[] {
+    return [...this.traces].reverse();
+  }
+
+  clear(): void {
+    this.traces.length = 0;
+    this.byStateKey.clear();
+  }
+
+  /**
+   * Wrap fetch so requests made inside a trace are recorded
+   *
+   * Outside a trace requests pass through untouched.
+   *
+   * @param fetchImpl - Underlying fetch
+   * @returns Fetch for the OAuth client
+   */
+  wrapFetch(fetchImpl: FetchFunction = globalThis.fetch): FetchFunction {
+    return async (input, init) => {
+      if (!this.current()) {
+        return fetchImpl(input, init);
+      }
+
+      const request = input instanceof Request && !init ? input : new Request(input, init);
+      const requestBody = await readBody(request.clone());
+      const started = Date.now();
+      const url = new URL(request.url);
+
+      let response: Response;
+      try {
+        response = await fetchImpl(request);
+      } catch (error) {
+        this.record(
+          classifyRequest(url, requestBody),
+          `${request.method} ${redactUrl(url)}`,
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 'error', duration: Date.now() - started, http: exchange(request, url, requestBody) }
+        );
+        throw error;
+      }
+
+      const responseBody = await readBody(response.clone());
+      const http = exchange(request, url, requestBody, response, responseBody);
+      const duration = Date.now() - started;
+
+      if (isUseDpopNonce(response, responseBody)) {
+        this.record(
+          'dpop_nonce',
+          `Server asked for a DPoP nonce: ${request.method} ${redactUrl(url)}`,
+          { nonce: response.headers.get('dpop-nonce') },
+          { status: 'retry', duration, http }
+        );
+      } else {
+        this.record(classifyRequest(url, requestBody), `${request.method} ${redactUrl(url)}`, undefined, {
+          status: response.ok ? 'ok' : 'error',
+          duration,
+          http
+        });
+      }
+      return response;
+    };
+  }
+}
+
+/**
+ * Replace secret fields and JWT-looking strings, recursively
+ *
+ * @param value - Value to record
+ * @returns Copy safe to show on the debug page
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/eyJ[\w-]*\.[\w-]*\.[\w-]*/g, REDACTED);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        SECRET_FIELDS.has(key) && field != null ? REDACTED : redact(field)
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * URL with secret query parameters redacted
+ */
+export function redactUrl(url: URL | string): string {
+  const copy = new URL(url);
+  for (const key of [...copy.searchParams.keys()]) {
+    if (SECRET_FIELDS.has(key)) {
+      copy.searchParams.set(key, REDACTED);
+    }
+  }
+  return copy.toString();
+}
+
+// ============================================================================
+// Request classification
+// ============================================================================
+
+function classifyRequest(url: URL, body: unknown): FlowStage {
+  const form = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+
+  if (url.pathname === '/.well-known/atproto-did' || url.pathname.endsWith('/com.atproto.identity.resolveHandle')) {
+    return 'handle_resolution';
+  }
+  if (url.pathname === '/.well-known/did.json' || url.pathname.startsWith('/did:')) {
+    return 'did_resolution';
+  }
+  if (url.pathname.startsWith('/.well-known/oauth-')) {
+    return 'server_metadata';
+  }
+  if (form.grant_type === 'authorization_code') {
+    return 'token_exchange';
+  }
+  if (form.code_challenge) {
+    return 'par';
+  }
+  return 'request';
+}
+
+// RFC 9449: authorization servers answer 400 use_dpop_nonce, resource servers 401
+function isUseDpopNonce(response: Response, body: unknown): boolean {
+  if (response.status === 401) {
+    return response.headers.get('www-authenticate')?.includes('use_dpop_nonce') ?? false;
+  }
+  return (
+    response.status === 400 &&
+    !!body &&
+    typeof body === 'object' &&
+    (body as Record<string, unknown>).error === 'use_dpop_nonce'
+  );
+}
+
+// ============================================================================
+// Redacted HTTP exchanges
+// ============================================================================
+
+function exchange(
+  request: Request,
+  url: URL,
+  requestBody: unknown,
+  response?: Response,
+  responseBody?: unknown
+): FlowHttpExchange {
+  return {
+    method: request.method,
+    url: redactUrl(url),
+    status: response?.status,
+    requestHeaders: requestHeaders(request.headers),
+    requestBody: requestBody === undefined ? undefined : redact(requestBody),
+    responseHeaders: response ? pickHeaders(response.headers, RESPONSE_HEADERS) : {},
+    responseBody: responseBody === undefined ? undefined : redact(responseBody)
+  };
+}
+
+function requestHeaders(headers: Headers): Record<string, unknown> {
+  const picked: Record<string, unknown> = pickHeaders(headers, REQUEST_HEADERS);
+  if (typeof picked.authorization === 'string') {
+    picked.authorization = picked.authorization.replace(/^(\w+)\s.*$/, `$1 ${REDACTED}`);
+  }
+  if (typeof picked.dpop === 'string') {
+    // The proof's claims show how the nonce is used; without the signature it can't be replayed
+    picked.dpop = decodeProof(picked.dpop);
+  }
+  return picked;
+}
+
+function pickHeaders(headers: Headers, names: string[]): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null) {
+      picked[name] = value;
+    }
+  }
+  return picked;
+}
+
+function decodeProof(jwt: string): Record<string, unknown> | string {
+  try {
+    const [header, payload] = jwt.split('.');
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8')) as { alg?: string };
+    const { htm, htu, nonce, iat, ath } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as Record<
+      string,
+      unknown
+    >;
+    return { alg, htm, htu, nonce, iat, ath: ath === undefined ? undefined : REDACTED };
+  } catch {
+    return REDACTED;
+  }
+}
+
+// JSON and form bodies only, and only small ones
+async function readBody(message: Request | Response): Promise<unknown> {
+  const type = message.headers.get('content-type') ?? '';
+  const isJson = type.includes('json');
+  const isForm = type.includes('application/x-www-form-urlencoded');
+  if (!message.body || (!isJson && !isForm)) {
+    return undefined;
+  }
+  try {
+    const text = await message.text();
+    if (text.length > MAX_BODY_LENGTH) {
+      return `[${text.length} bytes]`;
+    }
+    return isJson ? JSON.parse(text) : Object.fromEntries(new URLSearchParams(text));
+  } catch {
+    return undefined;
+  }
+}
+
+// One recorder per process, so the debug view shows the flows of every service instance in one list
+export const sharedFlowTracer = new FlowTracer();
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Central authentication guard for the SvelteKit `handle` hook
+ *
+ * The guard resolves the session cookie once per request and exposes the
+ * result to every load function and endpoint:
+ *
+ * - `event.locals.user` - the active account (DID, handle, profile), or null
+ * - `event.locals.getAgent()` - authenticated agent, created on first call
+ *
+ * An account whose OAuth session is no longer valid stays signed in with
+ * `user.sessionExpired` set: pages render and ask the user to sign in again
+ * in place, `getAgent()` rejects with `SESSION_EXPIRED`, and API routes
+ * answer 401 with that code. Requests for protected route prefixes without a signed-in user are redirected to the
+ * login page (with the requested page as `returnTo`), or answered with a 401
+ * JSON body on API routes. Admin route prefixes additionally require the
+ * user's DID to be listed in `adminDids` (default `ADMIN_DIDS`); other users
+ * get a 403.
+ *
+ * @example
+ * ```typescript
+ * // src/hooks.server.ts
+ * export const handle = createAuthGuard(getBlueskyService, {
+ *   protectedRoutes: ['/dashboard', '/tv-guide', '/api']
+ * });
+ * ```
+ */
+
+import { error, json } from '@sveltejs/kit';
+import type { Cookies, Handle } from '@sveltejs/kit';
+import type { BlueskyService } from './index.js';
+import type { AuthGuardOptions, AuthenticatedAgent, BlueskyProfile, DID, SessionUser } from './types.js';
+import { BlueskyError } from './types.js';
+import { sanitizeReturnTo } from './return-to.js';
+
+const DEFAULT_OPTIONS: Required<AuthGuardOptions> = {
+  protectedRoutes: [],
+  apiRoutes: ['/api'],
+  loginPath: '/',
+  profileTTL: 60 * 5,
+  adminRoutes: [],
+  adminDids: []
+};
+
+/**
+ * Create the `handle` hook that populates `locals.user` and `locals.getAgent`
+ *
+ * @param getService - Returns the Bluesky service (usually getBlueskyService)
+ * @param options - Protected route configuration
+ * @returns SvelteKit handle hook
+ */
+export function createAuthGuard(getService: () => BlueskyService, options: AuthGuardOptions = {}): Handle {
+  const config = { ...DEFAULT_OPTIONS, adminDids: adminDidsFromEnv(), ...options };
+
+  // Profiles are reused for a while so page loads don't each fetch one
+  const profiles = new Map<DID, { profile: BlueskyProfile; fetchedAt: number }>();
+
+  const loadProfile = async (service: BlueskyService, did: DID, fetch: boolean): Promise<BlueskyProfile | null> => {
+    const cached = profiles.get(did);
+    if (cached && (!fetch || Date.now() - cached.fetchedAt < config.profileTTL * 1000)) {
+      return cached.profile;
+    }
+    if (!fetch) {
+      return null;
+    }
+
+    const response = await service.getProfile(did, did);
+    if (!response.success || !response.data) {
+      console.warn(`Could not load profile for ${did}:`, response.error?.message);
+      return null;
+    }
+    profiles.set(did, { profile: response.data, fetchedAt: Date.now() });
+    return response.data;
+  };
+
+  return async ({ event, resolve }) => {
+    const service = getService();
+    const user = await resolveUser(service, event.cookies, (did, fetch) => loadProfile(service, did, fetch));
+
+    let agent: Promise<AuthenticatedAgent> | null = null;
+    event.locals.user = user;
+    event.locals.getAgent = () => {
+      if (!user) {
+        return Promise.reject(new BlueskyError('Authentication required', 'AUTH_REQUIRED', 401));
+      }
+      if (user.sessionExpired) {
+        return Promise.reject(new BlueskyError('Session expired, sign in again', 'SESSION_EXPIRED', 401));
+      }
+      agent ??= service.getAuthenticatedAgent(user.did);
+      return agent;
+    };
+
+    const path = event.url.pathname;
+    const isAdminRoute = matchesPrefix(path, config.adminRoutes);
+    if (!user && (isAdminRoute || matchesPrefix(path, config.protectedRoutes))) {
+      if (matchesPrefix(path, config.apiRoutes)) {
+        return json({ error: 'Authentication required', code: 'AUTH_REQUIRED' }, { status: 401 });
+      }
+
+      // Come back to the requested page after signing in
+      const returnTo = event.request.method === 'GET' ? sanitizeReturnTo(path + event.url.search) : undefined;
+      const location = returnTo ? `${config.loginPath}?${new URLSearchParams({ returnTo })}` : config.loginPath;
+
+      console.log(`No valid session for ${path}, redirecting to login...`);
+      return new Response(null, { status: 302, headers: { location } });
+    }
+
+    if (user?.sessionExpired && matchesPrefix(path, config.apiRoutes)) {
+      return json({ error: 'Session expired, sign in again', code: 'SESSION_EXPIRED' }, { status: 401 });
+    }
+
+    if (user && isAdminRoute && !config.adminDids.includes(user.did)) {
+      console.log(`${user.did} is not an admin, refusing ${path}`);
+      if (matchesPrefix(path, config.apiRoutes)) {
+        return json({ error: 'Admin access required', code: 'FORBIDDEN' }, { status: 403 });
+      }
+      error(403, 'Admin access required');
+    }
+
+    return resolve(event);
+  };
+}
+
+/**
+ * Resolve the session cookie to the active account, flagging it when its OAuth session has ended
+ *
+ * The expired mark on the browser session follows the check, so an account
+ * whose session check failed only briefly recovers on the next request.
+ */
+async function resolveUser(
+  service: BlueskyService,
+  cookies: Cookies,
+  loadProfile: (did: DID, fetch: boolean) => Promise<BlueskyProfile | null>
+): Promise<SessionUser | null> {
+  const session = await service.getSessionAccounts(cookies);
+  if (!session) {
+    return null;
+  }
+
+  const did = session.activeDid;
+  const sessionExpired = !(await service.hasValidSession(did));
+  if (sessionExpired !== (session.expired?.includes(did) ?? false)) {
+    console.log(sessionExpired ? `OAuth session for ${did} has ended, asking to sign in again` : `OAuth session for ${did} is valid again`);
+    await service.setSessionExpired(cookies, did, sessionExpired);
+  }
+
+  // An expired account can't fetch its profile; use a cached one if there is one
+  const profile = await loadProfile(did, !sessionExpired);
+  return {
+    did,
+    handle: profile?.handle ?? did,
+    profile,
+    accounts: session.accounts,
+    sessionExpired
+  };
+}
+
+/**
+ * Read admin DIDs from `ADMIN_DIDS` (comma-separated)
+ */
+function adminDidsFromEnv(): DID[] {
+  return (process.env.ADMIN_DIDS || '')
+    .split(',')
+    .map((did) => did.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check whether a path is one of the prefixes or below it (`/api` matches `/api/x`, not `/apis`)
+ */
+function matchesPrefix(path: string, prefixes: string[]): boolean {
+  return prefixes.some((prefix) => path === prefix || path.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`));
+}
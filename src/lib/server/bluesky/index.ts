@@ -27,8 +27,13 @@
  */
 
 import type { Cookies } from '@sveltejs/kit';
+import type { AtpSessionData } from '@atproto/api';
 import { BlueskyOAuthService } from './oauth.js';
+import { AppPasswordProvider } from './app-password.js';
+import { auditLogOptionsFromEnv, createAuditLog } from './audit-log.js';
 import { BlueskyAPIService } from './api.js';
+import { WebSessionManager, WEB_SESSION_MAX_AGE } from './web-sessions.js';
+import type { DeviceInfo, WebSession, WebSessionSummary } from './web-sessions.js';
 import type {
   BlueskyServiceOptions,
   DID,
@@ -38,11 +43,30 @@ import type {
   EnrichedFollowResponse,
   ThreadResponse,
   APIResponse,
+  PaginatedAPIResponse,
   DemoType,
+  PostSearchParams,
+  ActorSearchResponse,
+  ListNotificationsOptions,
+  NotificationsResponse,
+  FeedGeneratorInfo,
+  FeedGeneratorsResponse,
+  SavedFeedsResponse,
+  ListResponse,
+  ListsResponse,
   AuthenticatedAgent,
-  BlueskyError,
+  LogoutResult,
+  LoginIdentity,
+  RevocationFailure,
+  FlowTrace,
+  CredentialProvider,
+  AuditLog,
+  AuditLogFilter,
+  AuditLogOptions,
+  AuthEvent,
   OAuthError
 } from './types.js';
+import { BlueskyError } from './types.js';
 
 /**
  * Main Bluesky Service Class
@@ -53,6 +77,12 @@ import type {
 export class BlueskyService {
   private readonly oauthService: BlueskyOAuthService;
   private readonly apiService: BlueskyAPIService;
+  private readonly webSessions: WebSessionManager;
+  // Where API calls get their agents: OAuth sessions, or an app-password session
+  private readonly credentials: CredentialProvider;
+  private readonly appPassword: AppPasswordProvider | null;
+  private readonly auditLog: AuditLog;
+  private readonly auditLogOptions: AuditLogOptions;
 
   /**
    * Create a new BlueskyService instance
@@ -62,56 +92,274 @@ export class BlueskyService {
   constructor(options: BlueskyServiceOptions = {}) {
     this.oauthService = new BlueskyOAuthService(options);
     this.apiService = new BlueskyAPIService(options.apiTimeout);
+    this.appPassword = options.appPassword
+      ? new AppPasswordProvider(
+          // A self-hosted network's entryway is also where app passwords sign in
+          {
+            ...options.appPassword,
+            service: options.appPassword.service || this.oauthService.getConfig().network?.entryway
+          },
+          this.oauthService.createCredentialStore<AtpSessionData>('app_password_session')
+        )
+      : null;
+    this.credentials = this.appPassword ?? this.oauthService;
+
+    // Record every authentication lifecycle event
+    this.auditLogOptions = options.auditLog || auditLogOptionsFromEnv();
+    this.auditLog = createAuditLog(this.auditLogOptions);
+    this.oauthService.addAuthEventListener((event) => {
+      this.auditLog.append(event).catch((error) => console.error('Failed to write audit log entry:', error));
+    });
+    // Records expire with their cookie, a fixed time after the session ID was issued
+    this.webSessions = new WebSessionManager(
+      this.oauthService.createExpiringStore<WebSession>('web_session', { ttl: WEB_SESSION_MAX_AGE }),
+      {
+        secret: options.sessionSecret,
+        developmentMode: !!this.oauthService.getConfig().developmentMode,
+        maxAge: WEB_SESSION_MAX_AGE
+      }
+    );
   }
 
   // ============================================================================
   // OAuth Methods
   // ============================================================================
 
+  /**
+   * Check a login identifier before starting the OAuth flow
+   * 
+   * @param input - Handle, DID or PDS/entryway URL as typed by the user
+   * @returns Promise resolving to the account's DID, PDS and authorization server
+   * @throws {OAuthError} With a LoginErrorCode when the identifier cannot sign in
+   */
+  async resolveLoginIdentity(input: string): Promise<LoginIdentity> {
+    return await this.oauthService.resolveLoginIdentity(input);
+  }
+
   /**
    * Initiate OAuth login flow
    * 
    * @param handle - Optional Bluesky handle to pre-fill
    * @param redirectUri - Optional custom redirect URI
+   * @param returnTo - Local path to return to after sign-in (validated)
+   * @returns Promise resolving to authorization URL
+   * @throws {OAuthError} AUTHORIZE_FAILED if the authorization request fails
+   */
+  async initiateLogin(handle?: string, redirectUri?: string, returnTo?: string): Promise<string> {
+    return await this.oauthService.initiateLogin(handle, redirectUri, returnTo);
+  }
+
+  /**
+   * Find the scope that would grant a permission an API call was refused
+   * 
+   * @param requiredScope - `requiredScope` from an INSUFFICIENT_SCOPE error
+   * @returns Declared scope to request, or null if none covers it
+   */
+  getReauthorizationScope(requiredScope: string): string | null {
+    return this.oauthService.getReauthorizationScope(requiredScope);
+  }
+
+  /**
+   * Start re-authorization of an account with an additional scope
+   * 
+   * @param userDid - Account to re-authorize
+   * @param scope - Declared scope to add
+   * @param returnTo - Local path to return to after the callback
    * @returns Promise resolving to authorization URL
    */
-  async initiateLogin(handle?: string, redirectUri?: string): Promise<string> {
-    return await this.oauthService.initiateLogin(handle, redirectUri);
+  async reauthorize(userDid: DID, scope: string, returnTo: string): Promise<string> {
+    return await this.oauthService.reauthorize(userDid, scope, returnTo);
   }
 
   /**
    * Handle OAuth callback and set session cookie
    * 
+   * The cookie holds a signed, opaque session ID (never the DID). A new ID is
+   * issued on every login and the previous one is revoked. If the browser is
+   * already signed in, the new account is linked alongside the existing ones
+   * and becomes active.
+   * 
    * @param callbackUrl - The callback URL with authorization code
    * @param cookies - SvelteKit cookies object for setting session
-   * @returns Promise resolving to callback result
+   * @param device - Device signing in, shown in the account's session list
+   * @returns Promise resolving to callback result (with an errorCode on failure)
    */
-  async handleOAuthCallback(callbackUrl: string | URL, cookies: Cookies): Promise<OAuthCallbackResult> {
+  async handleOAuthCallback(callbackUrl: string | URL, cookies: Cookies, device?: DeviceInfo): Promise<OAuthCallbackResult> {
     const result = await this.oauthService.handleCallback(callbackUrl);
     
     if (result.success && result.userDid) {
-      // Set HTTP-only session cookie
-      cookies.set('bsky_session', result.userDid, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 7, // 1 week
-        path: '/'
-      });
+      await this.webSessions.create(cookies, result.userDid, device);
     }
     
     return result;
   }
 
   /**
-   * Logout user and clear session
+   * Resolve the session cookie to the active account's DID
+   * 
+   * Forged or revoked cookies are cleared.
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @returns Promise resolving to the active DID, or null if not signed in
+   */
+  async getSessionDid(cookies: Cookies): Promise<DID | null> {
+    return await this.webSessions.resolve(cookies);
+  }
+
+  /**
+   * Get every account linked to the browser session
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @returns Promise resolving to the linked accounts and the active one, or null if not signed in
+   */
+  async getSessionAccounts(cookies: Cookies): Promise<WebSession | null> {
+    return await this.webSessions.get(cookies);
+  }
+
+  /**
+   * Switch the active account
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @param userDid - DID of a linked account
+   * @returns Promise resolving to true if the account was linked and is now active
+   */
+  async switchAccount(cookies: Cookies, userDid: DID): Promise<boolean> {
+    return await this.webSessions.switchAccount(cookies, userDid);
+  }
+
+  /**
+   * Unlink an account whose OAuth session is gone, keeping the others
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @param userDid - DID of the account to unlink
+   * @returns Promise resolving to true if other accounts remain signed in
+   */
+  async forgetAccount(cookies: Cookies, userDid: DID): Promise<boolean> {
+    return (await this.webSessions.removeAccount(cookies, userDid)) !== null;
+  }
+
+  /**
+   * Mark a linked account as needing to sign in again (or clear the mark)
+   * 
+   * The account stays linked so the user can sign in again without leaving
+   * the page they were on.
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @param userDid - DID of a linked account
+   * @param expired - Whether the account's OAuth session has ended
+   */
+  async setSessionExpired(cookies: Cookies, userDid: DID, expired: boolean): Promise<void> {
+    await this.webSessions.setExpired(cookies, userDid, expired);
+  }
+
+  /**
+   * Revoke the browser session without logging out of OAuth
+   * 
+   * Used when the cookie points at a user whose OAuth session is gone.
+   * 
+   * @param cookies - SvelteKit cookies object
+   */
+  async clearSession(cookies: Cookies): Promise<void> {
+    await this.webSessions.revoke(cookies);
+  }
+
+  /**
+   * Logout one account, revoke its tokens and unlink it from the session
+   * 
+   * Other linked accounts stay signed in; logging out the last one clears
+   * the browser session. The account is unlinked even when token revocation
+   * fails; the failure is reported in the result and recorded in the stats.
+   * 
+   * @param cookies - SvelteKit cookies object for clearing session
+   * @param userDid - Account to log out (default: the active account)
+   * @returns Promise resolving to the revocation outcome, or null if the account is not linked
+   */
+  async logout(cookies: Cookies, userDid?: DID): Promise<LogoutResult | null> {
+    const session = await this.webSessions.get(cookies);
+    const target = userDid || session?.activeDid;
+    if (!session || !target || !session.accounts.includes(target)) {
+      return null;
+    }
+
+    try {
+      return await this.oauthService.logout(target);
+    } finally {
+      await this.webSessions.removeAccount(cookies, target);
+    }
+  }
+
+  /**
+   * Logout every linked account and clear the browser session
    * 
-   * @param userDid - User DID to logout
    * @param cookies - SvelteKit cookies object for clearing session
+   * @returns Promise resolving to one revocation outcome per account
+   */
+  async logoutAll(cookies: Cookies): Promise<LogoutResult[]> {
+    const session = await this.webSessions.get(cookies);
+    try {
+      const results: LogoutResult[] = [];
+      for (const userDid of session?.accounts || []) {
+        results.push(await this.oauthService.logout(userDid));
+      }
+      return results;
+    } finally {
+      await this.webSessions.revoke(cookies);
+    }
+  }
+
+  /**
+   * List the browser sessions the active account is signed in to
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @returns Promise resolving to the unexpired sessions, most recently used first (empty if signed out)
+   */
+  async listSessions(cookies: Cookies): Promise<WebSessionSummary[]> {
+    const userDid = await this.webSessions.resolve(cookies);
+    return userDid ? await this.webSessions.listForAccount(cookies, userDid) : [];
+  }
+
+  /**
+   * Sign the active account out of another browser session
+   * 
+   * The OAuth session is shared by all of the account's browsers, so its
+   * tokens are kept; the other browser's cookie simply stops working.
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @param sessionId - Session ID from listSessions()
+   * @returns Promise resolving to true if the session was found and revoked
+   */
+  async revokeSession(cookies: Cookies, sessionId: string): Promise<boolean> {
+    const userDid = await this.webSessions.resolve(cookies);
+    return userDid ? await this.webSessions.revokeForAccount(userDid, sessionId) : false;
+  }
+
+  /**
+   * Sign the active account out of every other browser session
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @returns Promise resolving to the number of sessions revoked
+   */
+  async signOutOtherSessions(cookies: Cookies): Promise<number> {
+    const userDid = await this.webSessions.resolve(cookies);
+    return userDid ? await this.webSessions.revokeOthersForAccount(cookies, userDid) : 0;
+  }
+
+  /**
+   * Sign the active account out of every browser, this one included
+   * 
+   * Other sessions are unlinked first, then logout() revokes the tokens.
+   * 
+   * @param cookies - SvelteKit cookies object
+   * @returns Promise resolving to the revocation outcome, or null if not signed in
    */
-  async logout(userDid: DID, cookies: Cookies): Promise<void> {
-    await this.oauthService.logout(userDid);
-    cookies.delete('bsky_session', { path: '/' });
+  async signOutEverywhere(cookies: Cookies): Promise<LogoutResult | null> {
+    const userDid = await this.webSessions.resolve(cookies);
+    if (!userDid) {
+      return null;
+    }
+
+    await this.webSessions.revokeOthersForAccount(cookies, userDid);
+    return await this.logout(cookies, userDid);
   }
 
   /**
@@ -121,7 +369,7 @@ export class BlueskyService {
    * @returns Promise resolving to authenticated agent
    */
   async getAuthenticatedAgent(userDid: DID): Promise<AuthenticatedAgent> {
-    return await this.oauthService.getAuthenticatedAgent(userDid);
+    return await this.credentials.getAuthenticatedAgent(userDid);
   }
 
   /**
@@ -131,13 +379,67 @@ export class BlueskyService {
    * @returns Promise resolving to true if session is valid
    */
   async hasValidSession(userDid: DID): Promise<boolean> {
-    return await this.oauthService.hasValidSession(userDid);
+    return await this.credentials.hasValidSession(userDid);
+  }
+
+  /**
+   * Sign in with the configured app password (or resume its stored session)
+   * 
+   * @returns Promise resolving to the account's DID, for use with the API methods
+   * @throws {BlueskyError} If no app password is configured or it is refused
+   */
+  async signInWithAppPassword(): Promise<DID> {
+    return await this.requireAppPassword().signIn();
+  }
+
+  /**
+   * Delete the app-password session at the server and in the store
+   */
+  async signOutAppPassword(): Promise<void> {
+    await this.requireAppPassword().signOut();
+  }
+
+  private requireAppPassword(): AppPasswordProvider {
+    if (!this.appPassword) {
+      throw new BlueskyError('This service has no app password configured', 'APP_PASSWORD_NOT_CONFIGURED');
+    }
+    return this.appPassword;
+  }
+
+  /**
+   * Get the client metadata document served from `/client-metadata.json`
+   * 
+   * @returns Metadata matching the configured client authentication mode
+   */
+  getClientMetadata(): ReturnType<BlueskyOAuthService['getClientMetadata']> {
+    return this.oauthService.getClientMetadata();
+  }
+
+  /**
+   * Get the public signing keys served from `/jwks.json`
+   * 
+   * @returns Promise resolving to the public JWK set (empty for public clients)
+   */
+  async getJwks(): Promise<{ keys: object[] }> {
+    return await this.oauthService.getPublicJwks();
   }
 
   // ============================================================================
   // API Methods
   // ============================================================================
 
+  /**
+   * Get the API service, for calls with an agent the caller already holds
+   * 
+   * Routes pass it `locals.getAgent()`, so a request restores its session
+   * once however many calls it makes. The methods below restore it per call.
+   * 
+   * @returns API service configured with this service's timeout
+   */
+  getAPIService(): BlueskyAPIService {
+    return this.apiService;
+  }
+
   /**
    * Get user profile
    * 
@@ -260,6 +562,257 @@ export class BlueskyService {
     return await this.apiService.getFollowersWithTotals(agent, actor, limit, cursor);
   }
 
+  /**
+   * Get posts from a custom feed
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param feedUri - AT URI of the feed generator record
+   * @param limit - Number of posts to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to the feed's posts
+   */
+  async getFeed(
+    userDid: DID,
+    feedUri: string,
+    limit: number = 30,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<EnrichedFeedResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getFeed(agent, feedUri, limit, cursor);
+  }
+
+  /**
+   * Get a feed generator and the health of its service
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param feedUri - AT URI of the feed generator record
+   * @returns Promise resolving to generator metadata
+   */
+  async getFeedGenerator(userDid: DID, feedUri: string): Promise<APIResponse<FeedGeneratorInfo>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getFeedGenerator(agent, feedUri);
+  }
+
+  /**
+   * Get several feed generators at once
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param feedUris - AT URIs of feed generator records
+   * @returns Promise resolving to generator metadata
+   */
+  async getFeedGenerators(userDid: DID, feedUris: string[]): Promise<APIResponse<FeedGeneratorsResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getFeedGenerators(agent, feedUris);
+  }
+
+  /**
+   * Get the feed generators an account has created
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param actor - Account whose feeds to get
+   * @param limit - Number of generators to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to the account's feed generators
+   */
+  async getActorFeeds(
+    userDid: DID,
+    actor: DID | string,
+    limit: number = 50,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<FeedGeneratorsResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getActorFeeds(agent, actor, limit, cursor);
+  }
+
+  /**
+   * Get the custom feeds saved in the user's preferences
+   * 
+   * @param userDid - Authenticated user's DID
+   * @returns Promise resolving to saved feeds, pinned first
+   */
+  async getSavedFeeds(userDid: DID): Promise<APIResponse<SavedFeedsResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getSavedFeeds(agent);
+  }
+
+  /**
+   * Get the lists an account has created
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param actor - Account whose lists to get
+   * @param kind - Only curation or only moderation lists
+   * @param limit - Number of lists to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to the account's lists
+   */
+  async getLists(
+    userDid: DID,
+    actor: DID | string,
+    kind?: 'curation' | 'moderation',
+    limit: number = 50,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<ListsResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getLists(agent, actor, kind, limit, cursor);
+  }
+
+  /**
+   * Get a list and a page of its members
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param listUri - AT URI of the list record
+   * @param limit - Number of members to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to the list and its members
+   */
+  async getList(
+    userDid: DID,
+    listUri: string,
+    limit: number = 50,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<ListResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getList(agent, listUri, limit, cursor);
+  }
+
+  /**
+   * Get recent posts by the members of a curation list
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param listUri - AT URI of a curation list
+   * @param limit - Number of posts to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to the list feed
+   */
+  async getListFeed(
+    userDid: DID,
+    listUri: string,
+    limit: number = 30,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<EnrichedFeedResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getListFeed(agent, listUri, limit, cursor);
+  }
+
+  /**
+   * Get the moderation lists the user mutes
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param limit - Number of lists to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to muted lists
+   */
+  async getListMutes(userDid: DID, limit: number = 50, cursor?: string): Promise<PaginatedAPIResponse<ListsResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getListMutes(agent, limit, cursor);
+  }
+
+  /**
+   * Get the moderation lists the user blocks
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param limit - Number of lists to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to blocked lists
+   */
+  async getListBlocks(userDid: DID, limit: number = 50, cursor?: string): Promise<PaginatedAPIResponse<ListsResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getListBlocks(agent, limit, cursor);
+  }
+
+  /**
+   * Search posts
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param params - Query and filters
+   * @param limit - Number of posts to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to matching posts
+   */
+  async searchPosts(
+    userDid: DID,
+    params: PostSearchParams,
+    limit: number = 25,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<EnrichedFeedResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.searchPosts(agent, params, limit, cursor);
+  }
+
+  /**
+   * Search accounts
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param query - Search terms
+   * @param limit - Number of accounts to fetch
+   * @param cursor - Pagination cursor
+   * @returns Promise resolving to matching accounts
+   */
+  async searchActors(
+    userDid: DID,
+    query: string,
+    limit: number = 25,
+    cursor?: string
+  ): Promise<PaginatedAPIResponse<ActorSearchResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.searchActors(agent, query, limit, cursor);
+  }
+
+  /**
+   * Suggest accounts for a partially typed handle or name
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param prefix - What has been typed so far
+   * @param limit - Number of suggestions
+   * @returns Promise resolving to suggested accounts
+   */
+  async searchActorsTypeahead(
+    userDid: DID,
+    prefix: string,
+    limit: number = 8
+  ): Promise<APIResponse<ActorSearchResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.searchActorsTypeahead(agent, prefix, limit);
+  }
+
+  /**
+   * List grouped notifications
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param options - Reason filter, page size and cursor
+   * @returns Promise resolving to grouped notifications
+   */
+  async listNotifications(
+    userDid: DID,
+    options: ListNotificationsOptions = {}
+  ): Promise<PaginatedAPIResponse<NotificationsResponse>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.listNotifications(agent, options);
+  }
+
+  /**
+   * Count unread notifications
+   * 
+   * @param userDid - Authenticated user's DID
+   * @returns Promise resolving to the unread count
+   */
+  async getUnreadCount(userDid: DID): Promise<APIResponse<{ count: number }>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.getUnreadCount(agent);
+  }
+
+  /**
+   * Mark notifications as seen
+   * 
+   * @param userDid - Authenticated user's DID
+   * @param seenAt - Notifications indexed before this are read (default: now)
+   * @returns Promise resolving to the time recorded
+   */
+  async updateSeen(userDid: DID, seenAt?: Date): Promise<APIResponse<{ seenAt: string }>> {
+    const agent = await this.getAuthenticatedAgent(userDid);
+    return await this.apiService.updateSeen(agent, seenAt);
+  }
+
   /**
    * Execute demo API call
    * 
@@ -291,17 +844,21 @@ export class BlueskyService {
    * @returns Service configuration with sensitive data redacted
    */
   getConfig(): Partial<BlueskyServiceOptions> {
-    return this.oauthService.getConfig();
+    return {
+      ...this.oauthService.getConfig(),
+      ...(this.appPassword && { appPassword: this.appPassword.getConfig() }),
+      auditLog: { backend: this.auditLogOptions.backend ?? 'memory', path: this.auditLogOptions.path }
+    };
   }
 
   /**
    * Get session statistics
    * 
-   * @returns Current session statistics
+   * @returns Promise resolving to current session statistics
    */
-  getStats(): { oauth: ReturnType<BlueskyOAuthService['getSessionStats']> } {
+  async getStats(): Promise<{ oauth: Awaited<ReturnType<BlueskyOAuthService['getSessionStats']>> }> {
     return {
-      oauth: this.oauthService.getSessionStats()
+      oauth: await this.oauthService.getSessionStats()
     };
   }
 
@@ -313,6 +870,41 @@ export class BlueskyService {
   async cleanup(): Promise<number> {
     return await this.oauthService.cleanup();
   }
+
+  /**
+   * Read the authentication audit log
+   * 
+   * @param filter - Event types, account and time range to include
+   * @returns Promise resolving to matching events, newest first
+   */
+  async queryAuditLog(filter?: AuditLogFilter): Promise<AuthEvent[]> {
+    return await this.auditLog.query(filter);
+  }
+
+  /**
+   * Get recent failed token revocations
+   * 
+   * @returns Failures recorded during logout, oldest first
+   */
+  getRevocationFailures(): RevocationFailure[] {
+    return this.oauthService.getRevocationFailures();
+  }
+
+  /**
+   * Get step-by-step recordings of recent logins
+   * 
+   * @returns Traces, newest first (only recorded in development mode)
+   */
+  getFlowTraces(): FlowTrace[] {
+    return this.oauthService.getFlowTraces();
+  }
+
+  /**
+   * Forget every recorded login trace
+   */
+  clearFlowTraces(): void {
+    this.oauthService.clearFlowTraces();
+  }
 }
 
 // ============================================================================
@@ -352,7 +944,22 @@ export type * from './types.js';
 
 // Export individual service classes for advanced usage
 export { BlueskyOAuthService } from './oauth.js';
-export { BlueskyAPIService } from './api.js';
+export { BlueskyAPIService, normalizePostSearch, groupNotifications } from './api.js';
+export { MemoryStore, JsonFileStore, SqliteStore, createOAuthStore } from './stores.js';
+export { MemoryLock, FileLock, createLockProvider } from './locks.js';
+export { resolveNetworkOptions, isAllowedAuthorizationServer } from './network.js';
+export { WebSessionManager, SESSION_COOKIE, WEB_SESSION_MAX_AGE, describeDevice } from './web-sessions.js';
+export { loadSigningKeys, rotateSigningKeys } from './keyset.js';
+export { SCOPES } from './scopes.js';
+export { createAuthGuard } from './guard.js';
+export { sanitizeReturnTo, DEFAULT_RETURN_TO } from './return-to.js';
+export { LOGIN_ERRORS, isLoginErrorCode, normalizeLoginIdentifier } from './resolver.js';
+export { OAUTH_ERRORS, isOAuthErrorCode, oauthErrorPath } from './oauth-errors.js';
+export { AppPasswordProvider } from './app-password.js';
+export { MemoryAuditLog, FileAuditLog, createAuditLog, AUTH_EVENT_TYPES } from './audit-log.js';
+export type { LoginErrorCode } from './resolver.js';
+export type { OAuthErrorCode } from './oauth-errors.js';
+export type { DeviceInfo, WebSession, WebSessionSummary } from './web-sessions.js';
 
 // Export error classes
 export { BlueskyError, OAuthError } from './types.js';
@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Signing keys for confidential OAuth clients
+ *
+ * In confidential mode the client authenticates at the token endpoint with
+ * `private_key_jwt`: every token request carries a short-lived JWT signed with
+ * one of our ES256 keys, and the authorization server verifies it against the
+ * public keys served from `/jwks.json`. Confidential clients get much longer
+ * session lifetimes than public ones.
+ *
+ * Keys come from one of two places:
+ * - `OAUTH_PRIVATE_KEYS` (or `keyset.keys`) - private JWKs managed by you
+ * - a keyset file (default `.data/oauth-keyset.json`) - generated on first use
+ *
+ * Both are ordered lists, current key first. New sessions are bound to the
+ * current key's `kid`; existing sessions keep refreshing with the key they
+ * were created with. Rotating therefore means prepending a new key and keeping
+ * the old ones published until the sessions bound to them have gone.
+ *
+ * @example
+ * ```bash
+ * # Generated keyset, rotated every 90 days (the previous key is kept)
+ * OAUTH_CLIENT_AUTH=confidential
+ * OAUTH_KEY_ROTATION_DAYS=90
+ * ```
+ */
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { JoseKey } from '@atproto/jwk-jose';
+import type { Jwk } from '@atproto/jwk-jose';
+import type { OAuthClientAuthMode, OAuthKeysetOptions } from './types.js';
+import { OAuthError } from './types.js';
+
+/** Signing algorithm used for client assertions */
+export const SIGNING_ALG = 'ES256';
+
+/** Default location of the generated keyset */
+export const DEFAULT_KEYSET_PATH = '.data/oauth-keyset.json';
+
+/** On-disk format of a generated keyset */
+interface KeysetFile {
+  /** Private keys, current key first */
+  keys: Array<{ createdAt: number; jwk: Jwk }>;
+}
+
+/**
+ * Load the signing keys for confidential client authentication
+ *
+ * Explicit keys win over the keyset file. When the file does not exist a
+ * key is generated and persisted; when its current key is older than
+ * `rotateAfterDays` a new key is generated and prepended.
+ *
+ * @param options - Keyset configuration
+ * @returns Private signing keys, current key first
+ * @throws {OAuthError} If a configured key is invalid
+ */
+export async function loadSigningKeys(options: OAuthKeysetOptions = {}): Promise<JoseKey[]> {
+  if (options.keys?.length) {
+    return importKeys(options.keys);
+  }
+
+  const path = options.path || DEFAULT_KEYSET_PATH;
+  let file = await readKeysetFile(path);
+
+  if (!file) {
+    console.log(`Generating OAuth signing keyset at ${path}`);
+    await rotateSigningKeys(path, options.retainKeys);
+    file = (await readKeysetFile(path))!;
+  } else if (options.rotateAfterDays && isExpired(file.keys[0].createdAt, options.rotateAfterDays)) {
+    console.log(`Current OAuth signing key is older than ${options.rotateAfterDays} days, rotating`);
+    await rotateSigningKeys(path, options.retainKeys);
+    file = (await readKeysetFile(path))!;
+  }
+
+  return importKeys(file.keys.map(({ jwk }) => jwk));
+}
+
+/**
+ * Generate a new current signing key in a keyset file
+ *
+ * The new key is prepended and only the newest `retainKeys` keys are kept.
+ * Sessions bound to a dropped key can no longer refresh and must sign in
+ * again, so keep enough keys to cover your session lifetime.
+ *
+ * @param path - Keyset file (created if missing)
+ * @param retainKeys - Keys to keep, including the new one (default: 2)
+ * @returns The new key's kid
+ */
+export async function rotateSigningKeys(path: string = DEFAULT_KEYSET_PATH, retainKeys = 2): Promise<string> {
+  const kid = `${new Date().toISOString().slice(0, 10)}-${randomBytes(4).toString('hex')}`;
+  const key = await JoseKey.generate([SIGNING_ALG], kid);
+
+  const existing = (await readKeysetFile(path))?.keys || [];
+  const file: KeysetFile = {
+    keys: [{ createdAt: Date.now(), jwk: key.privateJwk! }, ...existing].slice(0, Math.max(1, retainKeys))
+  };
+
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  await rename(tempPath, path);
+
+  return kid;
+}
+
+/**
+ * Build the public JWK set served from `/jwks.json`
+ *
+ * @param keys - Private signing keys
+ * @returns JWK set containing only public key material
+ */
+export function publicJwks(keys: JoseKey[]): { keys: Jwk[] } {
+  return { keys: keys.map((key) => key.publicJwk as Jwk) };
+}
+
+/**
+ * Read the client authentication mode from the environment
+ *
+ * @returns `confidential` when `OAUTH_CLIENT_AUTH=confidential`, otherwise `public`
+ */
+export function clientAuthModeFromEnv(): OAuthClientAuthMode {
+  return process.env.OAUTH_CLIENT_AUTH === 'confidential' ? 'confidential' : 'public';
+}
+
+/**
+ * Read keyset configuration from the environment
+ *
+ * - `OAUTH_PRIVATE_KEYS` - JSON array of private JWKs, current key first
+ * - `OAUTH_KEYSET_PATH` - generated keyset file
+ * - `OAUTH_KEY_ROTATION_DAYS` - age at which the generated key is rotated
+ *
+ * @throws {OAuthError} If `OAUTH_PRIVATE_KEYS` is not a JSON array
+ */
+export function keysetOptionsFromEnv(): OAuthKeysetOptions {
+  const raw = process.env.OAUTH_PRIVATE_KEYS?.trim();
+  let keys: Record<string, unknown>[] | undefined;
+
+  if (raw) {
+    try {
+      keys = JSON.parse(raw);
+    } catch (error) {
+      throw new OAuthError('OAUTH_PRIVATE_KEYS must be a JSON array of private JWKs', 'KEYSET_INVALID', undefined, error);
+    }
+    if (!Array.isArray(keys)) {
+      throw new OAuthError('OAUTH_PRIVATE_KEYS must be a JSON array of private JWKs', 'KEYSET_INVALID');
+    }
+  }
+
+  return {
+    keys,
+    path: process.env.OAUTH_KEYSET_PATH || undefined,
+    rotateAfterDays: Number(process.env.OAUTH_KEY_ROTATION_DAYS) || undefined
+  };
+}
+
+async function importKeys(jwks: Record<string, unknown>[]): Promise<JoseKey[]> {
+  const keys: JoseKey[] = [];
+
+  for (const jwk of jwks) {
+    let key: JoseKey;
+    try {
+      key = await JoseKey.fromJWK(jwk);
+    } catch (error) {
+      throw new OAuthError('Invalid OAuth signing key', 'KEYSET_INVALID', undefined, error);
+    }
+
+    if (!key.kid || !key.isPrivate || !key.algorithms.includes(SIGNING_ALG)) {
+      throw new OAuthError(
+        `OAuth signing keys must be private ${SIGNING_ALG} keys with a "kid" (got kid "${key.kid ?? ''}")`,
+        'KEYSET_INVALID'
+      );
+    }
+    if (keys.some((existing) => existing.kid === key.kid)) {
+      throw new OAuthError(`Duplicate OAuth signing key id "${key.kid}"`, 'KEYSET_INVALID');
+    }
+    keys.push(key);
+  }
+
+  return keys;
+}
+
+async function readKeysetFile(path: string): Promise<KeysetFile | null> {
+  try {
+    const file = JSON.parse(await readFile(path, 'utf8')) as KeysetFile;
+    return file.keys?.length ? file : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw new OAuthError(`Failed to read OAuth keyset file ${path}`, 'KEYSET_INVALID', undefined, error);
+  }
+}
+
+function isExpired(createdAt: number, days: number): boolean {
+  return Date.now() - createdAt > days * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Locks that serialize OAuth token refreshes
+ *
+ * Refresh tokens are single-use: when two requests refresh the same DPoP
+ * session at once, the loser presents a refresh token the authorization
+ * server has already rotated and the session is deleted. NodeOAuthClient
+ * takes the refresh under a named lock (`requestLock`); the provider decides
+ * how far that lock reaches.
+ *
+ * Backends:
+ * - `memory` - serializes refreshes within this process (default)
+ * - `file`   - lock files in a shared directory, for several server processes
+ *              on one host or a shared volume
+ *
+ * A file lock left behind by a crashed process is broken once it is older
+ * than `staleAfter`. Holders touch their lock file while they run, so a slow
+ * refresh is never mistaken for an abandoned one.
+ *
+ * @example
+ * ```bash
+ * OAUTH_LOCK=file
+ * OAUTH_LOCK_PATH=.data/locks
+ * ```
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { link, mkdir, open, readFile, rename, stat, unlink, utimes } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { LockProvider, OAuthLockBackend, OAuthLockOptions } from './types.js';
+import { OAuthError } from './types.js';
+
+const DEFAULT_LOCK_PATH = '.data/locks';
+const DEFAULT_LOCK_TIMEOUT = 60_000;
+const DEFAULT_STALE_AFTER = 45_000;
+const RETRY_DELAY = 25;
+
+// ============================================================================
+// In-process Lock
+// ============================================================================
+
+/**
+ * Lock that serializes callers with the same name within this process
+ *
+ * Each name keeps a chain of pending holders; the chain is dropped once the
+ * last holder is done.
+ */
+export class MemoryLock implements LockProvider {
+  readonly backend = 'memory';
+  private readonly tails = new Map<string, Promise<void>>();
+
+  async withLock<T>(name: string, fn: () => T | PromiseLike<T>): Promise<T> {
+    const previous = this.tails.get(name) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const tail = previous.then(() => current);
+    this.tails.set(name, tail);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+      if (this.tails.get(name) === tail) {
+        this.tails.delete(name);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// File Lock
+// ============================================================================
+
+/**
+ * Lock backed by exclusively created files in a shared directory
+ *
+ * Every process pointing at the same directory excludes the others. Callers
+ * in this process queue on an in-process lock first, so only one of them
+ * polls the lock file at a time.
+ */
+export class FileLock implements LockProvider {
+  readonly backend = 'file';
+  private readonly local = new MemoryLock();
+
+  constructor(
+    private readonly dir: string = DEFAULT_LOCK_PATH,
+    private readonly timeout: number = DEFAULT_LOCK_TIMEOUT,
+    private readonly staleAfter: number = DEFAULT_STALE_AFTER
+  ) {}
+
+  withLock<T>(name: string, fn: () => T | PromiseLike<T>): Promise<T> {
+    return this.local.withLock(name, async () => {
+      const release = await this.acquire(name);
+      try {
+        return await fn();
+      } finally {
+        await release();
+      }
+    });
+  }
+
+  /** Lock file for a name; hashed so any name is a safe file name */
+  private lockPath(name: string): string {
+    return join(this.dir, `${createHash('sha256').update(name).digest('hex').slice(0, 32)}.lock`);
+  }
+
+  private async acquire(name: string): Promise<() => Promise<void>> {
+    const path = this.lockPath(name);
+    const owner = randomUUID();
+    const deadline = Date.now() + this.timeout;
+
+    await mkdir(this.dir, { recursive: true });
+
+    for (;;) {
+      try {
+        const file = await open(path, 'wx');
+        try {
+          await file.writeFile(JSON.stringify({ owner, pid: process.pid, name, acquiredAt: Date.now() }));
+        } finally {
+          await file.close();
+        }
+        return this.hold(path, owner);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new OAuthError(`Failed to acquire lock ${path}`, 'LOCK_ERROR', undefined, error);
+        }
+      }
+
+      if (await this.breakIfStale(path)) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new OAuthError(`Timed out waiting for lock "${name}"`, 'LOCK_TIMEOUT');
+      }
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY + Math.random() * RETRY_DELAY));
+    }
+  }
+
+  /**
+   * Keep a held lock file fresh until it is released
+   *
+   * Touches the file every third of `staleAfter`, so other processes never
+   * break the lock of a holder that is still running.
+   */
+  private hold(path: string, owner: string): () => Promise<void> {
+    const heartbeat = setInterval(() => {
+      this.touch(path, owner).catch(() => {
+        // Released or broken meanwhile
+      });
+    }, this.staleAfter / 3);
+    heartbeat.unref();
+
+    return async () => {
+      clearInterval(heartbeat);
+      await this.release(path, owner);
+    };
+  }
+
+  private async touch(path: string, owner: string): Promise<void> {
+    if ((await readOwner(path)) === owner) {
+      const now = new Date();
+      await utimes(path, now, now);
+    }
+  }
+
+  // Only remove the file if it is still ours (it may have been broken as stale)
+  private async release(path: string, owner: string): Promise<void> {
+    try {
+      if ((await readOwner(path)) === owner) {
+        await unlink(path);
+      }
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * Break the lock file if it is older than `staleAfter`
+   *
+   * The file is renamed to a unique name before it is deleted, so of several
+   * waiters that saw the same stale lock only one breaks it. The renamed file
+   * is checked again: if it is not the lock judged stale (another waiter broke
+   * that one and took the lock in between), it is put back.
+   *
+   * @returns True if the lock is gone and acquiring should be retried now
+   */
+  private async breakIfStale(path: string): Promise<boolean> {
+    let staleOwner: string | undefined;
+    try {
+      if (!(await this.isStale(path))) {
+        return false;
+      }
+      staleOwner = await readOwner(path);
+    } catch (error) {
+      // Released while we looked: try again straight away
+      return (error as NodeJS.ErrnoException).code === 'ENOENT';
+    }
+
+    const claimed = `${path}.${randomUUID()}.stale`;
+    try {
+      await rename(path, claimed);
+    } catch (error) {
+      // Broken or released by someone else
+      return (error as NodeJS.ErrnoException).code === 'ENOENT';
+    }
+
+    try {
+      if ((await readOwner(claimed)) === staleOwner && (await this.isStale(claimed))) {
+        console.warn(`Broke stale OAuth lock ${path}`);
+        return true;
+      }
+      // A live lock: hand it back, unless the name has been taken again meanwhile
+      await link(claimed, path).catch((error) => {
+        console.warn(`Could not restore OAuth lock ${path}:`, error);
+      });
+      return false;
+    } finally {
+      await unlink(claimed).catch(() => {
+        // Nothing left to clean up
+      });
+    }
+  }
+
+  private async isStale(path: string): Promise<boolean> {
+    const { mtimeMs } = await stat(path);
+    return Date.now() - mtimeMs >= this.staleAfter;
+  }
+}
+
+/**
+ * Read the owner recorded in a lock file
+ *
+ * @returns Owner ID, or undefined if the file was left half-written
+ * @throws If the file cannot be read (ENOENT once it is gone)
+ */
+async function readOwner(path: string): Promise<string | undefined> {
+  const content = await readFile(path, 'utf8');
+  try {
+    return (JSON.parse(content) as { owner?: string }).owner;
+  } catch {
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Lock Factory
+// ============================================================================
+
+// Shared in-process lock so every service instance serializes on the same names
+const sharedMemoryLock = new MemoryLock();
+
+/**
+ * Create the lock provider for the given options
+ *
+ * @param options - Lock configuration; `provider` takes precedence over `backend`
+ * @returns Lock provider
+ */
+export function createLockProvider(options: OAuthLockOptions = {}): LockProvider {
+  if (options.provider) {
+    return options.provider;
+  }
+
+  const backend = options.backend ?? 'memory';
+
+  switch (backend) {
+    case 'memory':
+      return sharedMemoryLock;
+
+    case 'file':
+      return new FileLock(options.path, options.timeout, options.staleAfter);
+
+    default:
+      throw new OAuthError(`Unknown OAuth lock backend: ${backend}`, 'LOCK_ERROR');
+  }
+}
+
+/**
+ * Resolve lock options from environment variables
+ *
+ * Reads `OAUTH_LOCK` (memory | file) and `OAUTH_LOCK_PATH`.
+ *
+ * @returns Lock options derived from the environment
+ */
+export function lockOptionsFromEnv(): OAuthLockOptions {
+  return {
+    backend: (process.env.OAUTH_LOCK as OAuthLockBackend | undefined) || 'memory',
+    path: process.env.OAUTH_LOCK_PATH || undefined
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Which atproto network the OAuth client talks to
+ *
+ * By default handles resolve through DNS and `/.well-known/atproto-did`,
+ * `did:plc` documents come from https://plc.directory and any authorization
+ * server may sign users in. Pointing these at a staging or local PDS lets
+ * the whole app run without the public network:
+ *
+ * - `handleResolver` - service answering `com.atproto.identity.resolveHandle`
+ *   (usually the PDS itself)
+ * - `plcDirectoryUrl` - PLC directory for `did:plc` documents
+ * - `allowedAuthorizationServers` - issuers accounts may sign in with; others
+ *   are refused at the login preflight, the callback and on every API call
+ * - `entryway` - PDS or entryway URL a sign-in starts at when no handle is
+ *   given (also the default service for app-password sign-in)
+ *
+ * @example
+ * ```bash
+ * ATPROTO_HANDLE_RESOLVER=http://localhost:2583
+ * ATPROTO_PLC_DIRECTORY_URL=http://localhost:2582
+ * OAUTH_ALLOWED_ISSUERS=http://localhost:2583
+ * OAUTH_ENTRYWAY=http://localhost:2583
+ * ```
+ */
+
+import type { OAuthNetworkOptions } from './types.js';
+import { OAuthError } from './types.js';
+
+/** Public PLC directory, used unless another one is configured */
+export const DEFAULT_PLC_DIRECTORY_URL = 'https://plc.directory';
+
+/** Network options with defaults applied and every URL reduced to its origin */
+export type ResolvedNetworkOptions = Required<Omit<OAuthNetworkOptions, 'handleResolver' | 'entryway'>> &
+  Pick<OAuthNetworkOptions, 'handleResolver' | 'entryway'>;
+
+/**
+ * Validate network options and apply defaults
+ *
+ * @param options - Network configuration
+ * @returns Options with URLs normalized to origins
+ * @throws {OAuthError} INVALID_NETWORK_CONFIG if a URL is malformed
+ */
+export function resolveNetworkOptions(options: OAuthNetworkOptions = {}): ResolvedNetworkOptions {
+  return {
+    handleResolver: options.handleResolver ? serviceOrigin(options.handleResolver, 'handleResolver') : undefined,
+    plcDirectoryUrl: serviceOrigin(options.plcDirectoryUrl || DEFAULT_PLC_DIRECTORY_URL, 'plcDirectoryUrl'),
+    allowedAuthorizationServers: (options.allowedAuthorizationServers ?? []).map((issuer) =>
+      serviceOrigin(issuer, 'allowedAuthorizationServers')
+    ),
+    entryway: options.entryway ? serviceOrigin(options.entryway, 'entryway') : undefined
+  };
+}
+
+/**
+ * Check an authorization server's issuer against the allowlist
+ *
+ * @param issuer - Issuer from the server's metadata or a token set
+ * @param allowed - Allowed issuer origins; empty allows every server
+ * @returns True if accounts from this server may sign in
+ */
+export function isAllowedAuthorizationServer(issuer: string | undefined, allowed: string[]): boolean {
+  if (allowed.length === 0) {
+    return true;
+  }
+  try {
+    return issuer !== undefined && allowed.includes(new URL(issuer).origin);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve network options from environment variables
+ *
+ * Reads `ATPROTO_HANDLE_RESOLVER`, `ATPROTO_PLC_DIRECTORY_URL`,
+ * `OAUTH_ALLOWED_ISSUERS` (comma-separated) and `OAUTH_ENTRYWAY`.
+ *
+ * @returns Network options derived from the environment
+ */
+export function networkOptionsFromEnv(): OAuthNetworkOptions {
+  return {
+    handleResolver: process.env.ATPROTO_HANDLE_RESOLVER || undefined,
+    plcDirectoryUrl: process.env.ATPROTO_PLC_DIRECTORY_URL || undefined,
+    allowedAuthorizationServers: (process.env.OAUTH_ALLOWED_ISSUERS || '')
+      .split(',')
+      .map((issuer) => issuer.trim())
+      .filter(Boolean),
+    entryway: process.env.OAUTH_ENTRYWAY || undefined
+  };
+}
+
+function serviceOrigin(value: string, option: string): string {
+  try {
+    const url = new URL(value);
+    if (url.protocol === 'https:' || url.protocol === 'http:') {
+      return url.origin;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new OAuthError(`Invalid ${option} URL: ${value}`, 'INVALID_NETWORK_CONFIG');
+}
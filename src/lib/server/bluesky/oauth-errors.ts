@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Typed failure codes for the OAuth authorize and callback steps
+ *
+ * A failed sign-in used to end as `?error=oauth_failed` whatever went wrong.
+ * Each failure now maps to one code, which the routes carry to `/auth/error`
+ * together with the handle that was used, so the page can explain what
+ * happened and retry with the same handle:
+ *
+ * - `ACCESS_DENIED`         - the user cancelled at the authorization server
+ * - `AUTHORIZATION_FAILED`  - the authorization server returned another error
+ * - `STATE_EXPIRED`         - the callback's state is unknown (expired, reused or another browser)
+ * - `INVALID_CALLBACK`      - the callback is malformed (no code, wrong issuer)
+ * - `TOKEN_EXCHANGE_FAILED` - the code could not be exchanged for tokens
+ * - `SESSION_CHECK_FAILED`  - tokens were issued but the account could not be read
+ * - `SERVER_NOT_ALLOWED`    - the account's authorization server is not on the allowlist
+ * - `AUTHORIZE_FAILED`      - the authorization request could not be started
+ *
+ * Handle preflight failures have their own codes in resolver.ts and are shown
+ * next to the login form instead.
+ */
+
+import { OAuthCallbackError } from '@atproto/oauth-client-node';
+import { OAuthError } from './types.js';
+
+/** Authorize and callback failure codes */
+export type OAuthErrorCode =
+  | 'ACCESS_DENIED'
+  | 'AUTHORIZATION_FAILED'
+  | 'STATE_EXPIRED'
+  | 'INVALID_CALLBACK'
+  | 'TOKEN_EXCHANGE_FAILED'
+  | 'SESSION_CHECK_FAILED'
+  | 'SERVER_NOT_ALLOWED'
+  | 'AUTHORIZE_FAILED';
+
+/** User-facing title, explanation and remediation for each failure */
+export const OAUTH_ERRORS: Record<OAuthErrorCode, { title: string; message: string; remedy: string }> = {
+  ACCESS_DENIED: {
+    title: 'Sign-in cancelled',
+    message: 'Access was not granted, so you are not signed in.',
+    remedy: 'Try again and choose "Accept" on the authorization screen if you want to continue.'
+  },
+  AUTHORIZATION_FAILED: {
+    title: 'Authorization failed',
+    message: "Your account's server refused the sign-in request.",
+    remedy: 'Try again. If it keeps failing, your server may not support this app yet.'
+  },
+  STATE_EXPIRED: {
+    title: 'Sign-in link expired',
+    message: 'This sign-in attempt has expired or was already used.',
+    remedy: 'Start again from this browser and finish within a few minutes.'
+  },
+  INVALID_CALLBACK: {
+    title: 'Unexpected response',
+    message: "The response from your account's server did not match this sign-in attempt.",
+    remedy: 'Start again. If it keeps happening, contact the administrator of your server.'
+  },
+  TOKEN_EXCHANGE_FAILED: {
+    title: 'Could not complete sign-in',
+    message: "Access was granted, but your account's server did not issue a session.",
+    remedy: 'Try again in a moment; the server may be busy or temporarily unreachable.'
+  },
+  SESSION_CHECK_FAILED: {
+    title: 'Could not load your account',
+    message: 'You signed in, but your profile could not be loaded.',
+    remedy: 'Try again in a moment. Check that your account is not deactivated or suspended.'
+  },
+  SERVER_NOT_ALLOWED: {
+    title: 'Server not accepted',
+    message: "This app only accepts accounts from its configured servers, and yours isn't one of them.",
+    remedy: 'Sign in with an account hosted on one of the servers this app accepts.'
+  },
+  AUTHORIZE_FAILED: {
+    title: 'Could not start sign-in',
+    message: "The sign-in request could not be sent to your account's server.",
+    remedy: 'Try again in a moment, or check the handle you entered.'
+  }
+};
+
+/**
+ * Check whether a code (e.g. from a query parameter) is an OAuth failure code
+ */
+export function isOAuthErrorCode(code: unknown): code is OAuthErrorCode {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(OAUTH_ERRORS, code);
+}
+
+/**
+ * Classify a failed callback
+ *
+ * @param error - What client.callback() or the session check threw
+ * @param params - Callback query parameters
+ * @param sessionCreated - Whether tokens were already issued
+ * @returns The failure code
+ */
+export function callbackErrorCode(error: unknown, params: URLSearchParams, sessionCreated: boolean): OAuthErrorCode {
+  // Refused after the token exchange, so check before sessionCreated
+  if (error instanceof OAuthError && error.code === 'SERVER_NOT_ALLOWED') {
+    return 'SERVER_NOT_ALLOWED';
+  }
+  if (sessionCreated) {
+    return 'SESSION_CHECK_FAILED';
+  }
+  // The client looks up the state before anything else
+  if (!params.get('state') || (error instanceof Error && error.message.startsWith('Unknown authorization session'))) {
+    return 'STATE_EXPIRED';
+  }
+  const oauthError = params.get('error');
+  if (oauthError) {
+    return oauthError === 'access_denied' ? 'ACCESS_DENIED' : 'AUTHORIZATION_FAILED';
+  }
+  // Checks on the callback itself throw without a cause; token exchange errors are wrapped
+  if (error instanceof OAuthCallbackError && error.cause === undefined) {
+    return 'INVALID_CALLBACK';
+  }
+  return 'TOKEN_EXCHANGE_FAILED';
+}
+
+/**
+ * Build the error page location for a failed sign-in
+ *
+ * @param code - Failure code
+ * @param handle - Handle to prefill when retrying
+ * @param returnTo - Return path to keep for the retry
+ */
+export function oauthErrorPath(code: OAuthErrorCode, handle?: string, returnTo?: string): string {
+  const params = new URLSearchParams({ code });
+  if (handle) {
+    params.set('handle', handle);
+  }
+  if (returnTo) {
+    params.set('returnTo', returnTo);
+  }
+  return `/auth/error?${params}`;
+}
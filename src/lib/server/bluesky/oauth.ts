@@ -8,20 +8,69 @@
  * Key features:
  * - Uses correct snake_case property names for NodeOAuthClient
  * - Supports custom domain handles (e.g., danlouren.co)
- * - In-memory stores for development (should be replaced with persistent storage in production)
+ * - Pluggable state/session stores (memory, JSON file or SQLite)
+ * - Token refreshes serialized by an in-process or file lock
+ * - Configurable handle resolver, PLC directory, allowed servers and entryway
+ * - Envelope encryption of stored sessions with master key rotation
+ * - Session/state expiry (sessionTTL, stateTTL) with a periodic sweeper
+ * - Background refresh of access tokens that are about to expire
+ * - Public or confidential (private_key_jwt) client authentication
+ * - Configurable scopes with incremental re-authorization
+ * - Lifecycle events (login, failed callback, refresh, deletion, logout)
+ * - Typed failure codes for authorize and callback errors
+ * - Step-by-step login traces for the debug page (development mode)
  * - CSRF protection via state management
  * - Session management with automatic cleanup
  */
 
-import { NodeOAuthClient } from '@atproto/oauth-client-node';
+import {
+  NodeOAuthClient,
+  OAuthCallbackError,
+  TokenInvalidError,
+  TokenRefreshError,
+  TokenRevokedError
+} from '@atproto/oauth-client-node';
+import type {
+  JoseKey,
+  NodeSavedSession,
+  NodeSavedState,
+  OAuthClientMetadataInput,
+  OAuthSession
+} from '@atproto/oauth-client-node';
 import { Agent } from '@atproto/api';
+import { createOAuthStore, storageOptionsFromEnv } from './stores.js';
+import { createLockProvider, lockOptionsFromEnv } from './locks.js';
+import { isAllowedAuthorizationServer, networkOptionsFromEnv, resolveNetworkOptions } from './network.js';
+import type { ResolvedNetworkOptions } from './network.js';
+import { EncryptedStore, SessionEncryption, encryptionKeysFromEnv } from './encryption.js';
+import type { EncryptedEnvelope } from './encryption.js';
+import { ExpiringStore } from './expiry.js';
+import type { ExpiryPolicy, TrackedEntry } from './expiry.js';
+import { clientAuthModeFromEnv, keysetOptionsFromEnv, loadSigningKeys, publicJwks } from './keyset.js';
+import { buildClientMetadata, loopbackClientId } from './client-metadata.js';
+import { sanitizeReturnTo } from './return-to.js';
+import { resolveLoginIdentity } from './resolver.js';
+import { callbackErrorCode } from './oauth-errors.js';
+import { redactError } from './audit-log.js';
+import { FlowTracer, sharedFlowTracer } from './flow-tracer.js';
+import { declaredScope, formatScope, parseScope, resolveScopes, scopeForRequirement, scopeOptionsFromEnv } from './scopes.js';
 import type {
+  AuthEvent,
+  AuthEventListener,
+  AuthEventType,
   BlueskyServiceOptions,
   DID,
+  FlowTrace,
   OAuthCallbackResult,
   AuthenticatedAgent,
-  OAuthError
+  LogoutResult,
+  LoginIdentity,
+  OAuthScopeOptions,
+  LockProvider,
+  OAuthStore,
+  RevocationFailure
 } from './types.js';
+import { OAuthError } from './types.js';
 
 /**
  * OAuth Service for Bluesky Authentication
@@ -29,38 +78,232 @@ import type {
  * Manages the complete OAuth flow including authorization URL generation,
  * callback handling, session management, and authenticated agent creation.
  */
-// Shared stores across all service instances to prevent session loss
-const sharedStateStore = new Map<string, any>();
-const sharedSessionStore = new Map<string, any>();
-
 export class BlueskyOAuthService {
-  private readonly config: Required<BlueskyServiceOptions>;
-  private static oauthClient: NodeOAuthClient | null = null;
+  // Cookie signing, app-password sign-in and the audit log are handled by BlueskyService
+  private readonly config: Required<Omit<BlueskyServiceOptions, 'sessionSecret' | 'scopes' | 'appPassword' | 'auditLog' | 'network'>> & {
+    scopes: Required<OAuthScopeOptions>;
+    network: ResolvedNetworkOptions;
+  };
+  // Created on first use; bound to this instance's stores, lock, network and events
+  private oauthClient: Promise<NodeOAuthClient> | null = null;
+  private signingKeys: Promise<JoseKey[]> | null = null;
+  private readonly clientMetadata: OAuthClientMetadataInput;
+
+  // Memory-backed stores are shared across instances to prevent session loss
+  private readonly stateStore: ExpiringStore<NodeSavedState>;
+  private readonly sessionStore: OAuthStore<NodeSavedSession>;
+  // Expiry layer underneath session encryption (timestamps stay readable)
+  private readonly sessionExpiry: ExpiringStore<EncryptedEnvelope | NodeSavedSession>;
+  // Other expiring stores on the same backend, swept along with sessions and state
+  private readonly expiringStores = new Map<string, ExpiringStore<unknown>>();
+  // Held by the OAuth client while it refreshes a session
+  private readonly lock: LockProvider;
+  private static sweeper: ReturnType<typeof setInterval> | null = null;
+
+  // Most recent failed revocations, newest last
+  private static readonly MAX_REVOCATION_FAILURES = 50;
+  private readonly revocationFailures: RevocationFailure[] = [];
+
+  // Lifecycle event subscribers, and accounts whose session deletion is our own logout
+  private readonly authEventListeners = new Set<AuthEventListener>();
+  private readonly loggingOut = new Set<DID>();
+  // Accounts with a background token refresh in flight
+  private readonly refreshing = new Set<DID>();
+
+  // Records logins step by step; only in development mode
+  private readonly tracer: FlowTracer | null;
 
   constructor(options: BlueskyServiceOptions = {}) {
     // Set up configuration with defaults
     const publicUrl = options.publicUrl || process.env.PUBLIC_URL || 'http://127.0.0.1:5174';
+    const clientAuth = options.clientAuth || clientAuthModeFromEnv();
+    const scopes = resolveScopes(options.scopes || scopeOptionsFromEnv());
     
+    // Confidential clients must be identified by their hosted metadata document
+    const defaultClientId = clientAuth === 'confidential'
+      ? `${publicUrl}/client-metadata.json`
+      : loopbackClientId(publicUrl, declaredScope(scopes));
+
     this.config = {
       publicUrl,
-      clientId: options.clientId || process.env.CLIENT_ID || this.generateLocalhostClientId(publicUrl),
+      clientId: options.clientId || process.env.CLIENT_ID || defaultClientId,
       developmentMode: options.developmentMode ?? (process.env.NODE_ENV === 'development'),
-      apiTimeout: options.apiTimeout || 30000
+      apiTimeout: options.apiTimeout || 30000,
+      sessionTTL: options.sessionTTL || 60 * 60 * 24 * 7,  // 1 week
+      stateTTL: options.stateTTL || 60 * 10,  // 10 minutes
+      cleanupInterval: options.cleanupInterval ?? 60 * 10,
+      refreshAhead: options.refreshAhead ?? 60 * 5,
+      storage: options.storage || storageOptionsFromEnv(),
+      lock: options.lock || lockOptionsFromEnv(),
+      network: resolveNetworkOptions(options.network || networkOptionsFromEnv()),
+      encryptionKeys: options.encryptionKeys || encryptionKeysFromEnv(),
+      clientAuth,
+      keyset: options.keyset || keysetOptionsFromEnv(),
+      scopes
     };
 
-    // Keep existing client to preserve sessions across requests
+    // Fail fast on a misconfigured client instead of at the first sign-in
+    this.clientMetadata = buildClientMetadata({
+      clientId: this.config.clientId,
+      publicUrl,
+      clientAuth,
+      scope: declaredScope(scopes)  // Sign-in and optional scopes
+    });
+
+    // PKCE state expires a fixed time after authorize(); sessions expire when idle
+    this.stateStore = new ExpiringStore<NodeSavedState>(
+      (this.config.storage.stateStore as OAuthStore<TrackedEntry<NodeSavedState>> | undefined) ||
+        createOAuthStore<TrackedEntry<NodeSavedState>>(this.config.storage, 'state'),
+      { ttl: this.config.stateTTL }
+    );
+    this.sessionExpiry = new ExpiringStore<EncryptedEnvelope | NodeSavedSession>(
+      (this.config.storage.sessionStore as OAuthStore<TrackedEntry<EncryptedEnvelope | NodeSavedSession>> | undefined) ||
+        createOAuthStore<TrackedEntry<EncryptedEnvelope | NodeSavedSession>>(this.config.storage, 'session'),
+      { ttl: this.config.sessionTTL, sliding: true }
+    );
+    this.sessionStore = this.createSessionStore();
+    this.lock = createLockProvider(this.config.lock);
+    this.tracer = this.config.developmentMode ? sharedFlowTracer : null;
+
+    this.startSweeper();
   }
 
   /**
-   * Generate localhost development client ID with embedded parameters
-   * 
-   * This special format is required for localhost development and allows
-   * custom domain handles like danlouren.co to work properly.
+   * Run cleanup() periodically in the background
+   *
+   * One sweeper runs per process; a newer service instance replaces it. The
+   * timer is unref'd so it never keeps the process alive.
+   */
+  private startSweeper(): void {
+    this.stopSweeper();
+    if (this.config.cleanupInterval <= 0) {
+      return;
+    }
+
+    BlueskyOAuthService.sweeper = setInterval(() => {
+      this.cleanup().catch((error) => console.error('OAuth expiry sweep failed:', error));
+    }, this.config.cleanupInterval * 1000);
+    BlueskyOAuthService.sweeper.unref();
+  }
+
+  /**
+   * Stop the background expiry sweeper
    */
-  private generateLocalhostClientId(publicUrl: string): string {
-    const redirectUri = `${publicUrl}/`;
-    const scope = 'atproto transition:generic';
-    return `http://localhost?redirect_uri=${encodeURIComponent(redirectUri)}&scope=${encodeURIComponent(scope)}`;
+  stopSweeper(): void {
+    if (BlueskyOAuthService.sweeper) {
+      clearInterval(BlueskyOAuthService.sweeper);
+      BlueskyOAuthService.sweeper = null;
+    }
+  }
+
+  /**
+   * Create an additional store on the configured storage backend
+   *
+   * Used for data that should live alongside OAuth sessions, such as the
+   * server-side records behind browser session cookies.
+   *
+   * @param namespace - Logical store name (lowercase letters and underscores)
+   * @returns Store for the namespace
+   */
+  createStore<V>(namespace: string): OAuthStore<V> {
+    return createOAuthStore<V>(this.config.storage, namespace);
+  }
+
+  /**
+   * Create an additional store whose entries expire
+   *
+   * Expired entries are dropped on read and deleted by cleanup() and the
+   * background sweeper, like OAuth sessions and state.
+   *
+   * @param namespace - Logical store name (lowercase letters and underscores)
+   * @param policy - TTL in seconds, measured from creation or from last use
+   * @returns Expiring store for the namespace
+   */
+  createExpiringStore<V>(namespace: string, policy: ExpiryPolicy): ExpiringStore<V> {
+    const store = new ExpiringStore<V>(this.createStore<TrackedEntry<V> | V>(namespace), policy);
+    this.expiringStores.set(namespace, store as ExpiringStore<unknown>);
+    return store;
+  }
+
+  /**
+   * Create a store for other credentials, encrypted like OAuth sessions
+   *
+   * @param namespace - Logical store name (lowercase letters and underscores)
+   * @returns Store that encrypts values when master keys are configured
+   */
+  createCredentialStore<V>(namespace: string): OAuthStore<V> {
+    const store = this.createStore<EncryptedEnvelope | V>(namespace);
+    if (this.config.encryptionKeys.length === 0) {
+      return store as OAuthStore<V>;
+    }
+    return new EncryptedStore<V>(store, new SessionEncryption(this.config.encryptionKeys));
+  }
+
+  /**
+   * Create the session store, wrapped with envelope encryption when keys are configured
+   *
+   * Sessions contain DPoP private keys and refresh tokens, so production mode
+   * refuses to start without a master key. Development mode falls back to
+   * plaintext storage with a warning.
+   *
+   * @throws {OAuthError} If no encryption key is configured outside development mode
+   */
+  private createSessionStore(): OAuthStore<NodeSavedSession> {
+    const store = this.sessionExpiry;
+
+    if (this.config.encryptionKeys.length === 0) {
+      if (!this.config.developmentMode) {
+        throw new OAuthError(
+          'Session encryption key required in production: set SESSION_ENCRYPTION_KEYS or pass encryptionKeys',
+          'ENCRYPTION_KEY_MISSING'
+        );
+      }
+      console.warn('No session encryption key configured - OAuth sessions are stored unencrypted (development only)');
+      return store as OAuthStore<NodeSavedSession>;
+    }
+
+    return new EncryptedStore<NodeSavedSession>(store, new SessionEncryption(this.config.encryptionKeys));
+  }
+
+  /**
+   * Load the confidential client's signing keys once per service
+   */
+  private getSigningKeys(): Promise<JoseKey[]> {
+    if (!this.signingKeys) {
+      this.signingKeys = loadSigningKeys(this.config.keyset).catch((error) => {
+        this.signingKeys = null;
+        throw error;
+      });
+    }
+    return this.signingKeys;
+  }
+
+  /**
+   * Get the client metadata the OAuth client uses
+   *
+   * Loopback client IDs give a native public client; hosted client IDs give
+   * a web client, public or confidential (`private_key_jwt` with our
+   * `/jwks.json`). The `/client-metadata.json` route serves this same object.
+   *
+   * @returns Validated client metadata
+   */
+  getClientMetadata(): OAuthClientMetadataInput {
+    return this.clientMetadata;
+  }
+
+  /**
+   * Get the public JWK set for `/jwks.json`
+   *
+   * Every configured key is published, including retired ones, so sessions
+   * bound to an older key can still refresh. Public clients publish no keys.
+   *
+   * @returns JWK set without private key material
+   */
+  async getPublicJwks(): Promise<{ keys: object[] }> {
+    if (this.config.clientAuth !== 'confidential') {
+      return { keys: [] };
+    }
+    return publicJwks(await this.getSigningKeys());
   }
 
   /**
@@ -68,74 +311,128 @@ export class BlueskyOAuthService {
    * 
    * This method ensures the OAuth client is configured exactly as in the working
    * commit (a5f8aa2), using snake_case property names as required by NodeOAuthClient.
+   * Each service creates its own client once, so concurrent first calls share it.
    */
-  private async getOAuthClient(): Promise<NodeOAuthClient> {
-    // Return existing client if available (prevents store recreation)
-    if (BlueskyOAuthService.oauthClient) {
-      return BlueskyOAuthService.oauthClient;
+  private getOAuthClient(): Promise<NodeOAuthClient> {
+    if (!this.oauthClient) {
+      this.oauthClient = this.createOAuthClient().catch((error) => {
+        this.oauthClient = null;
+        throw error;
+      });
     }
+    return this.oauthClient;
+  }
 
+  private async createOAuthClient(): Promise<NodeOAuthClient> {
     console.log('Creating OAuth client with localhost development pattern...');
     console.log('Client ID:', this.config.clientId);
+    console.log('OAuth store backend:', this.sessionStore.backend);
+    console.log('OAuth lock backend:', this.lock.backend);
+    console.log('PLC directory:', this.config.network.plcDirectoryUrl);
+
+    console.log('Client authentication:', this.config.clientAuth);
 
-    const redirectUri = `${this.config.publicUrl}/`;
-    const scope = 'atproto transition:generic';
+    const stateStore = this.stateStore;
+    const sessionStore = this.sessionStore;
+    const emit = this.emitAuthEvent.bind(this);
+    const lock = this.lock;
+    const tracer = this.tracer;
+    const encrypted = this.config.encryptionKeys.length > 0;
+
+    // Confidential clients sign token requests; the first key signs new sessions
+    const keyset = this.config.clientAuth === 'confidential' ? await this.getSigningKeys() : undefined;
 
     // Create client using the EXACT configuration from the working commit (a5f8aa2)
     // CRITICAL: Use snake_case property names, NOT camelCase
-    BlueskyOAuthService.oauthClient = new NodeOAuthClient({
-      clientMetadata: {
-        client_id: this.config.clientId,  // snake_case, NOT clientId
-        client_name: 'SvelteKit Bsky Guide',
-        client_uri: this.config.publicUrl,
-        redirect_uris: [redirectUri],     // snake_case, NOT redirectUris
-        grant_types: ['authorization_code', 'refresh_token'],
-        scope: scope,
-        response_types: ['code'],
-        application_type: 'native',
-        token_endpoint_auth_method: 'none',
-        dpop_bound_access_tokens: true,
-      },
+    const client = new NodeOAuthClient({
+      clientMetadata: this.getClientMetadata(),
+      keyset,
+
+      // Plain-http authorization servers (local PDS, test stand-ins) only in development
+      allowHttp: this.config.developmentMode,
 
-      // No keyset needed for 'none' authentication method
+      // Self-hosted networks: resolve handles and did:plc documents without the public services
+      handleResolver: this.config.network.handleResolver,
+      plcDirectoryUrl: this.config.network.plcDirectoryUrl,
+
+      // Refresh tokens are single-use: only one request (or process) may refresh a session at a time
+      requestLock: (name, fn) => lock.withLock(name, fn),
+
+      // Lets a login trace see the requests the client makes on its behalf
+      fetch: tracer?.wrapFetch(),
       
       // State store for OAuth flow security (CSRF protection)
       stateStore: {
-        async set(key: string, internalState: any) {
+        async set(key: string, internalState: NodeSavedState) {
           console.log(`Setting state for key: ${key}`);
-          sharedStateStore.set(key, internalState);
+          await stateStore.set(key, internalState);
+          tracer?.linkState(key);
         },
         async get(key: string) {
-          const state = sharedStateStore.get(key);
+          const state = await stateStore.get(key);
           console.log(`Getting state for key: ${key}`, state ? 'found' : 'not found');
           return state;
         },
         async del(key: string) {
           console.log(`Deleting state for key: ${key}`);
-          sharedStateStore.delete(key);
+          await stateStore.del(key);
         }
       },
 
       // Session store for authenticated users
       sessionStore: {
-        async set(sub: string, session: any) {
+        async set(sub: string, session: NodeSavedSession) {
           console.log(`Storing session for user: ${sub}`);
-          sharedSessionStore.set(sub, session);
+          const previous = await sessionStore.get(sub).catch(() => undefined);
+          await sessionStore.set(sub, session);
+          if (isRefresh(previous, session)) {
+            emit('token_refreshed', { did: sub as DID });
+          }
+          tracer?.record('session_storage', `Stored session for ${sub}`, {
+            did: sub,
+            backend: sessionStore.backend,
+            encrypted,
+            scope: session.tokenSet.scope,
+            expires_at: session.tokenSet.expires_at,
+            refresh_token: session.tokenSet.refresh_token
+          });
         },
         async get(sub: string) {
-          const session = sharedSessionStore.get(sub);
+          const session = await sessionStore.get(sub);
           console.log(`Getting session for user: ${sub}`, session ? 'found' : 'not found');
           return session;
         },
         async del(sub: string) {
           console.log(`Deleting session for user: ${sub}`);
-          sharedSessionStore.delete(sub);
+          await sessionStore.del(sub);
         }
       }
     });
 
+    // Sessions the client deletes by itself: failed refresh, revoked or invalid tokens
+    client.addEventListener('deleted', (event) => {
+      const did = event.detail.sub as DID;
+      if (!this.loggingOut.has(did)) {
+        emit('session_deleted', { did, reason: deletionReason(event.detail.cause), error: redactError(event.detail.cause) });
+      }
+    });
+
     console.log('OAuth client created successfully!');
-    return BlueskyOAuthService.oauthClient;
+    return client;
+  }
+
+  /**
+   * Check that a login identifier can sign in before starting the flow
+   *
+   * @param input - Handle, DID or PDS/entryway URL as typed by the user; empty
+   *   uses the configured entryway
+   * @returns The account's DID, PDS and authorization server
+   * @throws {OAuthError} INVALID_IDENTIFIER, HANDLE_NOT_FOUND, PDS_UNREACHABLE,
+   *   OAUTH_UNSUPPORTED or SERVER_NOT_ALLOWED
+   */
+  async resolveLoginIdentity(input: string): Promise<LoginIdentity> {
+    const client = await this.getOAuthClient();
+    return await resolveLoginIdentity(client.oauthResolver, input, this.config.network);
   }
 
   /**
@@ -144,54 +441,209 @@ export class BlueskyOAuthService {
    * Generates an authorization URL for the user to visit for authentication.
    * Supports custom domain handles like danlouren.co.
    * 
-   * @param handle - Optional Bluesky handle to pre-fill
+   * @param handle - Optional Bluesky handle to pre-fill; without one the
+   *   configured entryway (if any) is where the user signs in
    * @param redirectUri - Optional custom redirect URI
+   * @param returnTo - Local path to send the user to after the callback
    * @returns Promise resolving to authorization URL
+   * @throws {OAuthError} AUTHORIZE_FAILED if the authorization request fails
+   */
+  async initiateLogin(handle: string = '', redirectUri?: string, returnTo?: string): Promise<string> {
+    const trace = this.tracer?.start(handle.trim());
+    return await this.traced(trace, async () => {
+      try {
+        const client = await this.getOAuthClient();
+        await this.traceLoginIdentity(client, handle);
+        
+        // CSRF protection is the client's own state parameter; ours carries app data
+        const state = this.encodeAppState(returnTo, handle);
+        
+        const actualRedirectUri = redirectUri || `${this.config.publicUrl}/`;
+        
+        console.log('Authorizing with handle:', handle);
+        console.log('Using redirect_uri:', actualRedirectUri);
+
+        // Generate the authorization URL (following the working pattern from a5f8aa2)
+        const authUrl = await client.authorize(handle.trim() || this.config.network.entryway || '', {
+          state,
+          scope: formatScope(this.config.scopes.requested),
+          redirect_uri: actualRedirectUri
+        });
+
+        console.log('Generated authorization URL:', authUrl.toString());
+        this.tracer?.record('redirect', `Redirect to ${authUrl.origin}${authUrl.pathname}`, {
+          client_id: authUrl.searchParams.get('client_id'),
+          request_uri: authUrl.searchParams.get('request_uri')
+        });
+        return authUrl.toString();
+      } catch (error) {
+        console.error('Error during OAuth authorization:', error);
+        if (trace) {
+          this.tracer?.finish(trace, { errorCode: 'AUTHORIZE_FAILED' });
+        }
+        throw new OAuthError(
+          `OAuth authorization failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          'AUTHORIZE_FAILED',
+          undefined,
+          error
+        );
+      }
+    });
+  }
+
+  /**
+   * Run part of a login with its trace active, if it has one
+   */
+  private traced<T>(trace: FlowTrace | undefined, fn: () => Promise<T>): Promise<T> {
+    return trace && this.tracer ? this.tracer.run(trace, fn) : fn();
+  }
+
+  /**
+   * Record what a login identifier resolves to and its authorization server
+   *
+   * The login preflight has usually resolved it already, so this mostly hits
+   * the resolver's caches. Failures are only recorded: authorize() reports
+   * them itself.
    */
-  async initiateLogin(handle: string = '', redirectUri?: string): Promise<string> {
+  private async traceLoginIdentity(client: NodeOAuthClient, handle: string): Promise<void> {
+    const tracer = this.tracer;
+    if (!tracer?.current()) {
+      return;
+    }
+
+    const started = Date.now();
     try {
-      const client = await this.getOAuthClient();
-      
-      // Generate state for CSRF protection
-      const state = crypto.randomUUID();
-      
-      const actualRedirectUri = redirectUri || `${this.config.publicUrl}/`;
-      
-      console.log('Authorizing with handle:', handle);
-      console.log('Using redirect_uri:', actualRedirectUri);
-
-      // Generate the authorization URL (following the working pattern from a5f8aa2)
-      const authUrl = await client.authorize(handle, {
-        state,
-        scope: 'atproto transition:generic',
-        redirect_uri: actualRedirectUri
+      const identity = await resolveLoginIdentity(client.oauthResolver, handle, this.config.network);
+      tracer.record(
+        'handle_resolution',
+        identity.did ? `Resolved ${handle.trim() || identity.pds} to ${identity.did}` : `Signing in at ${identity.pds}`,
+        { ...identity },
+        { duration: Date.now() - started }
+      );
+
+      const metadata = await client.oauthResolver.getAuthorizationServerMetadata(identity.authorizationServer);
+      tracer.record('server_metadata', `Authorization server ${metadata.issuer}`, {
+        issuer: metadata.issuer,
+        pushed_authorization_request_endpoint: metadata.pushed_authorization_request_endpoint,
+        authorization_endpoint: metadata.authorization_endpoint,
+        token_endpoint: metadata.token_endpoint,
+        scopes_supported: metadata.scopes_supported,
+        dpop_signing_alg_values_supported: metadata.dpop_signing_alg_values_supported
       });
+    } catch (error) {
+      tracer.record(
+        'handle_resolution',
+        `Could not resolve ${handle.trim() || 'the entryway'}`,
+        { error: redactError(error) },
+        { status: 'error', duration: Date.now() - started }
+      );
+    }
+  }
+
+  /**
+   * Find the scope to request for a permission an API call was refused
+   *
+   * Only scopes declared in the client metadata can be granted, so this
+   * returns null when the configuration does not cover the permission.
+   *
+   * @param requiredScope - Scope or method NSID from the INSUFFICIENT_SCOPE error
+   * @returns Declared scope to request, or null
+   */
+  getReauthorizationScope(requiredScope: string): string | null {
+    return scopeForRequirement(requiredScope, [...this.config.scopes.requested, ...this.config.scopes.optional]);
+  }
 
-      console.log('Generated authorization URL:', authUrl.toString());
-      return authUrl.toString();
+  /**
+   * Start re-authorization of a signed-in account with an additional scope
+   *
+   * Requests the scopes the session already holds plus `scope`, so granting
+   * one permission does not drop another granted earlier. `returnTo` travels
+   * in the OAuth state and comes back as `redirectTo` from handleCallback().
+   *
+   * @param userDid - Account to re-authorize
+   * @param scope - Declared scope to add
+   * @param returnTo - Local path to return to after the callback
+   * @returns Promise resolving to authorization URL
+   * @throws {OAuthError} If the scope is not declared in the client metadata
+   */
+  async reauthorize(userDid: DID, scope: string, returnTo: string): Promise<string> {
+    if (this.getReauthorizationScope(scope) !== scope) {
+      throw new OAuthError(`Scope "${scope}" is not declared in the client metadata`, 'SCOPE_NOT_DECLARED');
+    }
+
+    const client = await this.getOAuthClient();
+    let granted: string[] = [];
+    try {
+      const session = await client.restore(userDid, false);
+      granted = parseScope((await session.getTokenInfo(false)).scope);
     } catch (error) {
-      console.error('Error during OAuth authorization:', error);
-      throw new Error(`OAuth authorization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.warn(`No stored session for ${userDid}, re-authorizing with sign-in scopes only:`, error);
     }
+
+    const authUrl = await client.authorize(userDid, {
+      state: this.encodeAppState(returnTo),
+      scope: formatScope([...this.config.scopes.requested, ...granted, scope])
+    });
+
+    console.log(`Re-authorizing ${userDid} for scope: ${scope}`);
+    return authUrl.toString();
   }
 
   /**
    * Handle OAuth callback and exchange code for tokens
    * 
+   * Failures are returned rather than thrown, classified by `errorCode` and
+   * with the handle and return path from the OAuth state when they are known.
+   * 
    * @param callbackUrl - The callback URL with authorization code
    * @returns Promise resolving to callback result
    */
   async handleCallback(callbackUrl: string | URL): Promise<OAuthCallbackResult> {
+    const url = typeof callbackUrl === 'string' ? new URL(callbackUrl) : callbackUrl;
+    const params = new URLSearchParams(url.search);
+
+    // Continue the trace of the authorization request this callback answers
+    const trace = this.tracer ? (this.tracer.resume(params.get('state')) ?? this.tracer.start('')) : undefined;
+    const result = await this.traced(trace, () => this.completeCallback(url, params));
+    if (trace) {
+      this.tracer?.finish(trace, { did: result.userDid, errorCode: result.errorCode });
+    }
+    return result;
+  }
+
+  private async completeCallback(url: URL, params: URLSearchParams): Promise<OAuthCallbackResult> {
+    let userDid: DID | undefined;
+    let appState: string | null | undefined;
     try {
       console.log('OAuth callback received');
-      console.log('Callback URL:', callbackUrl.toString());
+      console.log('Callback URL:', url.toString());
+      this.tracer?.record(
+        'callback',
+        params.has('error') ? `Callback with error ${params.get('error')}` : 'Callback received',
+        Object.fromEntries(params)
+      );
 
       const client = await this.getOAuthClient();
-      const url = typeof callbackUrl === 'string' ? new URL(callbackUrl) : callbackUrl;
-      const params = new URLSearchParams(url.search);
       
       // Handle the OAuth callback - this exchanges code for tokens
       const { session, state } = await client.callback(params);
+      userDid = session.sub as DID;
+      appState = state;
+
+      // The preflight only saw the server the handle pointed at; enforce the allowlist on the real issuer
+      if (!this.isAllowedServer(session)) {
+        this.loggingOut.add(userDid);
+        try {
+          await this.revokeAndDelete(userDid);
+        } finally {
+          this.loggingOut.delete(userDid);
+        }
+        throw new OAuthError(
+          `Authorization server ${session.serverMetadata.issuer} is not allowed`,
+          'SERVER_NOT_ALLOWED',
+          state ?? undefined
+        );
+      }
 
       console.log('OAuth successful!');
       console.log('User DID:', session.sub);
@@ -202,9 +654,11 @@ export class BlueskyOAuthService {
       const profile = await agent.getProfile({ actor: session.sub });
       console.log('User profile:', profile.data.displayName);
 
+      this.emitAuthEvent('login', { did: userDid });
       return {
         success: true,
         userDid: session.sub as DID,
+        redirectTo: this.parseAppState(state).returnTo,
         profile: {
           did: session.sub as DID,
           handle: profile.data.handle,
@@ -215,13 +669,53 @@ export class BlueskyOAuthService {
       };
     } catch (error) {
       console.error('OAuth callback error:', error);
+      const errorCode = callbackErrorCode(error, params, userDid !== undefined);
+      this.emitAuthEvent('callback_failed', {
+        did: userDid,
+        reason: params.get('error') || errorCode.toLowerCase(),
+        error: redactError(error)
+      });
+
+      // The client hands back our state with most failures, so a retry can keep the handle
+      const { handle, returnTo } = this.parseAppState(
+        appState ?? (error instanceof OAuthCallbackError ? error.state : undefined)
+      );
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'OAuth callback failed'
+        error: error instanceof Error ? error.message : 'OAuth callback failed',
+        errorCode,
+        handle,
+        redirectTo: returnTo
       };
     }
   }
 
+  /**
+   * Serialize the application state sent through authorize()
+   *
+   * The client keeps it with the PKCE state and returns it from callback(),
+   * where parseAppState() reads it. Unsafe return paths are dropped here already.
+   */
+  private encodeAppState(returnTo?: string, handle?: string): string {
+    return JSON.stringify({ returnTo: sanitizeReturnTo(returnTo), handle: handle?.trim() || undefined });
+  }
+
+  /**
+   * Read the return path and handle from the application state of a callback
+   *
+   * The client returns the state from our own state store, but the path is
+   * validated again so no stored entry can redirect off-site.
+   */
+  private parseAppState(state: string | null | undefined): { returnTo?: string; handle?: string } {
+    try {
+      const { returnTo, handle } = JSON.parse(state || '{}') as { returnTo?: unknown; handle?: unknown };
+      return { returnTo: sanitizeReturnTo(returnTo), handle: typeof handle === 'string' ? handle : undefined };
+    } catch {
+      // State from before return paths were carried (a bare UUID)
+      return {};
+    }
+  }
+
   /**
    * Get authenticated agent for API calls
    * 
@@ -236,7 +730,11 @@ export class BlueskyOAuthService {
       if (!session) {
         throw new Error('No valid session found for user');
       }
+      if (!this.isAllowedServer(session)) {
+        throw new OAuthError(`Authorization server ${session.serverMetadata.issuer} is not allowed`, 'SERVER_NOT_ALLOWED');
+      }
       
+      this.refreshIfExpiring(client, session);
       return new Agent(session);
     } catch (error) {
       console.error(`Failed to get authenticated agent for ${userDid}:`, error);
@@ -244,6 +742,51 @@ export class BlueskyOAuthService {
     }
   }
 
+  /**
+   * Refresh a session in the background when its access token expires soon
+   *
+   * Without this the first request after expiry waits for the refresh. The
+   * refresh runs under the same lock as on-demand refreshes; if it fails for
+   * good, the OAuth client deletes the session and the next request finds
+   * it gone.
+   *
+   * @param client - OAuth client the session was restored from
+   * @param session - Restored session
+   */
+  private refreshIfExpiring(client: NodeOAuthClient, session: OAuthSession): void {
+    const did = session.did as DID;
+    if (this.config.refreshAhead <= 0 || this.refreshing.has(did)) {
+      return;
+    }
+    this.refreshing.add(did);
+
+    Promise.resolve()
+      .then(() => session.getTokenInfo(false))
+      .then(async ({ expiresAt }) => {
+        if (expiresAt && expiresAt.getTime() - Date.now() < this.config.refreshAhead * 1000) {
+          console.log(`Access token for ${did} expires soon, refreshing in the background`);
+          await client.restore(did, true);
+        }
+      })
+      .catch((error) => {
+        console.warn(`Background token refresh failed for ${did}:`, error);
+      })
+      .finally(() => {
+        this.refreshing.delete(did);
+      });
+  }
+
+  /**
+   * Whether a session's authorization server is on the allowlist
+   *
+   * Sessions from before the allowlist was configured are kept but unusable,
+   * so narrowing the list is reversible.
+   */
+  private isAllowedServer(session: OAuthSession): boolean {
+    const allowed = this.config.network.allowedAuthorizationServers;
+    return allowed.length === 0 || isAllowedAuthorizationServer(session.serverMetadata.issuer, allowed);
+  }
+
   /**
    * Check if user has valid session
    * 
@@ -254,7 +797,11 @@ export class BlueskyOAuthService {
     try {
       const client = await this.getOAuthClient();
       const session = await client.restore(userDid);
-      return session !== null;
+      if (!session || !this.isAllowedServer(session)) {
+        return false;
+      }
+      this.refreshIfExpiring(client, session);
+      return true;
     } catch (error) {
       console.log(`Session check failed for ${userDid}:`, error);
       return false;
@@ -262,20 +809,122 @@ export class BlueskyOAuthService {
   }
 
   /**
-   * Logout user and clear session
+   * Logout user, revoking their tokens at the authorization server
+   * 
+   * The refresh token is revoked explicitly (the client's own signOut() only
+   * revokes the access token and ignores errors), then signOut() revokes the
+   * access token and deletes the stored session. If revocation fails the
+   * failure is recorded and the local session is deleted anyway.
    * 
    * @param userDid - User DID to logout
+   * @returns Promise resolving to the revocation outcome (never rejects)
    */
-  async logout(userDid: DID): Promise<void> {
+  async logout(userDid: DID): Promise<LogoutResult> {
+    this.loggingOut.add(userDid);
     try {
-      console.log(`Logging out user: ${userDid}`);
-      sharedSessionStore.delete(userDid);
-      
-      // Note: In a full implementation, you might also want to revoke tokens
-      // with the OAuth provider, but for development this is sufficient
+      const result = await this.revokeAndDelete(userDid);
+      this.emitAuthEvent('logout', {
+        did: userDid,
+        reason: result.revoked ? 'revoked' : result.error ? 'revocation_failed' : 'no_session',
+        error: result.error && redactError(result.error)
+      });
+      return result;
+    } finally {
+      this.loggingOut.delete(userDid);
+    }
+  }
+
+  private async revokeAndDelete(userDid: DID): Promise<LogoutResult> {
+    console.log(`Logging out user: ${userDid}`);
+
+    try {
+      const saved = await this.sessionStore.get(userDid);
+      if (!saved) {
+        console.log(`No stored session for ${userDid}, nothing to revoke`);
+        return { userDid, revoked: false };
+      }
+
+      const client = await this.getOAuthClient();
+      const session = await client.restore(userDid, false);
+
+      try {
+        if (saved.tokenSet.refresh_token) {
+          await session.server.request('revocation', { token: saved.tokenSet.refresh_token });
+        }
+      } finally {
+        await session.signOut();
+      }
+
+      console.log(`Revoked tokens for ${userDid}`);
+      return { userDid, revoked: true };
     } catch (error) {
-      console.error(`Error during logout for ${userDid}:`, error);
-      // Don't throw - logout should be best effort
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Token revocation failed for ${userDid}:`, message);
+      this.recordRevocationFailure(userDid, message);
+
+      // Don't throw - the local session must go even if the server is unreachable
+      await this.sessionStore.del(userDid).catch((deleteError) => {
+        console.error(`Failed to delete stored session for ${userDid}:`, deleteError);
+      });
+      return { userDid, revoked: false, error: message };
+    }
+  }
+
+  /**
+   * Subscribe to authentication lifecycle events
+   *
+   * Listeners are called synchronously and must not throw; errors are logged.
+   *
+   * @param listener - Called with every event
+   * @returns Function that removes the listener
+   */
+  addAuthEventListener(listener: AuthEventListener): () => void {
+    this.authEventListeners.add(listener);
+    return () => {
+      this.authEventListeners.delete(listener);
+    };
+  }
+
+  private emitAuthEvent(type: AuthEventType, details: Omit<AuthEvent, 'type' | 'timestamp'> = {}): void {
+    const event: AuthEvent = { type, timestamp: new Date().toISOString(), ...details };
+    for (const listener of this.authEventListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Auth event listener failed for ${type}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get recent failed token revocations
+   * 
+   * @returns Failures, oldest first (bounded to the most recent 50)
+   */
+  getRevocationFailures(): RevocationFailure[] {
+    return [...this.revocationFailures];
+  }
+
+  /**
+   * Get recorded login traces
+   * 
+   * @returns Traces, newest first (always empty outside development mode)
+   */
+  getFlowTraces(): FlowTrace[] {
+    return this.tracer?.list() ?? [];
+  }
+
+  /**
+   * Forget every recorded login trace
+   */
+  clearFlowTraces(): void {
+    this.tracer?.clear();
+  }
+
+  private recordRevocationFailure(userDid: DID, error: string): void {
+    this.revocationFailures.push({ userDid, timestamp: new Date().toISOString(), error });
+    if (this.revocationFailures.length > BlueskyOAuthService.MAX_REVOCATION_FAILURES) {
+      this.revocationFailures.shift();
     }
   }
 
@@ -289,38 +938,87 @@ export class BlueskyOAuthService {
       publicUrl: this.config.publicUrl,
       clientId: this.config.clientId.includes('localhost') ? '[localhost-dev-pattern]' : '[redacted]',
       developmentMode: this.config.developmentMode,
-      apiTimeout: this.config.apiTimeout
+      apiTimeout: this.config.apiTimeout,
+      sessionTTL: this.config.sessionTTL,
+      stateTTL: this.config.stateTTL,
+      cleanupInterval: this.config.cleanupInterval,
+      refreshAhead: this.config.refreshAhead,
+      storage: {
+        backend: this.config.storage.backend,
+        path: this.config.storage.path
+      },
+      lock: {
+        backend: this.config.lock.backend,
+        path: this.config.lock.path,
+        timeout: this.config.lock.timeout,
+        staleAfter: this.config.lock.staleAfter
+      },
+      network: this.config.network,
+      encryptionKeys: this.config.encryptionKeys.map(({ kid }) => ({ kid, key: '[redacted]' })),
+      clientAuth: this.config.clientAuth,
+      keyset: {
+        keys: this.config.keyset.keys?.map(({ kid }) => ({ kid, d: '[redacted]' })),
+        path: this.config.keyset.path,
+        rotateAfterDays: this.config.keyset.rotateAfterDays,
+        retainKeys: this.config.keyset.retainKeys
+      },
+      scopes: this.config.scopes
     };
   }
 
   /**
    * Get session statistics for monitoring
    * 
-   * @returns Current session statistics
+   * Expired entries are those past their TTL that have not been swept yet.
+   * 
+   * @returns Promise resolving to current session statistics for the active backend
    */
-  getSessionStats(): { activeSessions: number; stateEntries: number } {
+  async getSessionStats(): Promise<{
+    backend: string;
+    activeSessions: number;
+    expiredSessions: number;
+    activeStates: number;
+    expiredStates: number;
+    revocationFailures: number;
+  }> {
+    const [sessions, states] = await Promise.all([
+      this.sessionExpiry.stats(),
+      this.stateStore.stats()
+    ]);
+
     return {
-      activeSessions: sharedSessionStore.size,
-      stateEntries: sharedStateStore.size
+      backend: this.sessionStore.backend,
+      activeSessions: sessions.active,
+      expiredSessions: sessions.expired,
+      activeStates: states.active,
+      expiredStates: states.expired,
+      revocationFailures: this.revocationFailures.length
     };
   }
 
   /**
-   * Clean up expired sessions and state entries
+   * Delete expired sessions, state entries and entries of other expiring stores
+   * 
+   * Sessions expire after `sessionTTL` seconds without use and PKCE state
+   * `stateTTL` seconds after it was created. Expired sessions are only
+   * deleted locally; their tokens lapse at the authorization server.
    * 
-   * @returns Promise resolving to number of items cleaned
+   * @returns Promise resolving to number of items deleted
    */
   async cleanup(): Promise<number> {
-    // For now, just clear everything (in production you'd check expiration times)
-    const totalItems = sharedSessionStore.size + sharedStateStore.size;
-    
-    if (this.config.developmentMode) {
-      console.log('Development mode: skipping cleanup');
-      return 0;
+    const [sessions, states, ...others] = await Promise.all([
+      this.sessionExpiry.sweep(),
+      this.stateStore.sweep(),
+      ...[...this.expiringStores.values()].map((store) => store.sweep())
+    ]);
+    const other = others.reduce((total, keys) => total + keys.length, 0);
+
+    if (sessions.length + states.length + other > 0) {
+      console.log(
+        `Expiry sweep removed ${sessions.length} session(s), ${states.length} state entries and ${other} other entries`
+      );
     }
-    
-    // In production, implement proper expiration-based cleanup
-    return totalItems;
+    return sessions.length + states.length + other;
   }
 
   /**
@@ -330,4 +1028,29 @@ export class BlueskyOAuthService {
   async getOAuthClientForTesting(): Promise<NodeOAuthClient> {
     return await this.getOAuthClient();
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a stored session replaces the previous one through a token refresh
+ *
+ * A refresh keeps the session's DPoP key; a new sign-in always brings a new one.
+ */
+function isRefresh(previous: NodeSavedSession | undefined, session: NodeSavedSession): boolean {
+  return previous !== undefined && JSON.stringify(previous.dpopJwk) === JSON.stringify(session.dpopJwk);
+}
+
+/**
+ * Map the cause of a client-side session deletion to an audit reason
+ */
+function deletionReason(cause: unknown): string {
+  if (cause instanceof TokenRefreshError) {
+    return 'refresh_failed';
+  }
+  if (cause instanceof TokenRevokedError) {
+    return 'revoked';
+  }
+  if (cause instanceof TokenInvalidError) {
+    return 'invalid_token';
+  }
+  return 'unknown';
+}
@@ -0,0 +1,194 @@
+/**
+ * @fileoverview Login preflight: resolve what the user typed before authorize()
+ *
+ * `client.authorize()` resolves the handle itself, but any failure along the
+ * way (a typo, a PDS that is down, a server without OAuth) surfaces as one
+ * generic error. The preflight walks the same chain step by step so each
+ * failure gets its own code and a message a user can act on:
+ *
+ * 1. handle or DID → DID document (`HANDLE_NOT_FOUND`)
+ * 2. DID document → PDS (`PDS_UNREACHABLE` if it cannot be contacted)
+ * 3. PDS → authorization server metadata (`OAUTH_UNSUPPORTED`)
+ * 4. authorization server → allowlist, if one is configured (`SERVER_NOT_ALLOWED`)
+ *
+ * With an entryway configured, an empty identifier checks the entryway.
+ * Resolution goes through the OAuth client's own resolver, so results are
+ * cached and the later authorize() call reuses them.
+ */
+
+import { FetchRequestError, FetchResponseError } from '@atproto/oauth-client-node';
+import type { NodeOAuthClient } from '@atproto/oauth-client-node';
+import type { DID, LoginIdentity, OAuthNetworkOptions } from './types.js';
+
+type OAuthResolver = NodeOAuthClient['oauthResolver'];
+type IdentityInfo = Awaited<ReturnType<OAuthResolver['resolveIdentity']>>;
+import { OAuthError } from './types.js';
+import { isAllowedAuthorizationServer } from './network.js';
+
+/** Preflight failure codes */
+export type LoginErrorCode =
+  | 'INVALID_IDENTIFIER'
+  | 'HANDLE_NOT_FOUND'
+  | 'PDS_UNREACHABLE'
+  | 'OAUTH_UNSUPPORTED'
+  | 'SERVER_NOT_ALLOWED';
+
+/** HTTP status and user-facing explanation for each preflight failure */
+export const LOGIN_ERRORS: Record<LoginErrorCode, { status: number; message: string }> = {
+  INVALID_IDENTIFIER: {
+    status: 400,
+    message: 'Enter a handle like alice.bsky.social, a DID, or your PDS URL.'
+  },
+  HANDLE_NOT_FOUND: {
+    status: 404,
+    message: "We couldn't find that account. Check the handle for typos."
+  },
+  PDS_UNREACHABLE: {
+    status: 502,
+    message: "The account's server (PDS) isn't responding right now. Try again in a moment."
+  },
+  OAUTH_UNSUPPORTED: {
+    status: 422,
+    message: "The account's server doesn't support signing in with OAuth."
+  },
+  SERVER_NOT_ALLOWED: {
+    status: 403,
+    message: "This app doesn't accept sign-ins from the account's server."
+  }
+};
+
+/**
+ * Check whether a code (e.g. from a query parameter) is a preflight failure code
+ */
+export function isLoginErrorCode(code: unknown): code is LoginErrorCode {
+  return typeof code === 'string' && Object.prototype.hasOwnProperty.call(LOGIN_ERRORS, code);
+}
+
+const HANDLE_PATTERN = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]([a-z0-9-]{0,61}[a-z0-9])?$/;
+const DID_PATTERN = /^did:(plc|web):[a-zA-Z0-9._:%-]+$/;
+const SERVICE_URL_PATTERN = /^https?:\/\//;
+
+/**
+ * Normalize a login identifier as typed into the form
+ *
+ * Trims whitespace, drops a leading `@` and lowercases handles.
+ *
+ * @param input - Handle, DID or PDS/entryway URL
+ * @returns The normalized identifier, or null if it cannot be valid
+ */
+export function normalizeLoginIdentifier(input: string): string | null {
+  const value = input.trim().replace(/^@/, '');
+
+  if (SERVICE_URL_PATTERN.test(value)) {
+    try {
+      return new URL(value).origin;
+    } catch {
+      return null;
+    }
+  }
+  if (value.startsWith('did:')) {
+    return DID_PATTERN.test(value) ? value : null;
+  }
+
+  const handle = value.toLowerCase();
+  return handle.length <= 253 && HANDLE_PATTERN.test(handle) ? handle : null;
+}
+
+/**
+ * Resolve a login identifier to its DID, PDS and authorization server
+ *
+ * @param resolver - The OAuth client's resolver (`client.oauthResolver`)
+ * @param input - Handle, DID or PDS/entryway URL as typed
+ * @param network - Allowed authorization servers and the entryway for an empty input
+ * @returns Where the identifier signs in
+ * @throws {OAuthError} With a LoginErrorCode and the matching user-facing message
+ */
+export async function resolveLoginIdentity(
+  resolver: Pick<OAuthResolver, 'resolveIdentity' | 'resolveFromService' | 'getResourceServerMetadata'>,
+  input: string,
+  network: Pick<OAuthNetworkOptions, 'allowedAuthorizationServers' | 'entryway'> = {}
+): Promise<LoginIdentity> {
+  const identifier = normalizeLoginIdentifier(input.trim() || network.entryway || '');
+  if (!identifier) {
+    throw loginError('INVALID_IDENTIFIER');
+  }
+
+  const checkServer = (identity: LoginIdentity): LoginIdentity => {
+    if (!isAllowedAuthorizationServer(identity.authorizationServer, network.allowedAuthorizationServers ?? [])) {
+      throw loginError('SERVER_NOT_ALLOWED', new Error(`Authorization server ${identity.authorizationServer} is not allowed`));
+    }
+    return identity;
+  };
+
+  // PDS or entryway URL: nothing to resolve, only check the server
+  if (SERVICE_URL_PATTERN.test(identifier)) {
+    let authorizationServer: string;
+    try {
+      authorizationServer = (await resolver.resolveFromService(identifier)).metadata.issuer;
+    } catch (error) {
+      throw loginError(isUnreachable(error) ? 'PDS_UNREACHABLE' : 'OAUTH_UNSUPPORTED', error);
+    }
+    return checkServer({ pds: identifier, authorizationServer });
+  }
+
+  let identity: IdentityInfo;
+  try {
+    identity = await resolver.resolveIdentity(identifier);
+  } catch (error) {
+    throw loginError('HANDLE_NOT_FOUND', error);
+  }
+
+  const pds = pdsEndpoint(identity.didDoc);
+  if (!pds) {
+    throw loginError('OAUTH_UNSUPPORTED', new Error(`No PDS in the DID document of ${identity.did}`));
+  }
+
+  let authorizationServer: string;
+  try {
+    authorizationServer = (await resolver.getResourceServerMetadata(pds)).issuer;
+  } catch (error) {
+    throw loginError(isUnreachable(error) ? 'PDS_UNREACHABLE' : 'OAUTH_UNSUPPORTED', error);
+  }
+  return checkServer({
+    did: identity.did as DID,
+    handle: identity.handle !== 'handle.invalid' ? identity.handle : undefined,
+    pds,
+    authorizationServer
+  });
+}
+
+/**
+ * Find the `#atproto_pds` service endpoint in a DID document
+ */
+function pdsEndpoint(didDoc: IdentityInfo['didDoc']): string | null {
+  const service = didDoc.service?.find(
+    (s) => s.type === 'AtprotoPersonalDataServer' && (s.id === '#atproto_pds' || s.id === `${didDoc.id}#atproto_pds`)
+  );
+  return typeof service?.serviceEndpoint === 'string' ? service.serviceEndpoint : null;
+}
+
+/**
+ * Whether a resolver error means the server could not be contacted at all
+ *
+ * The resolver wraps failures, so the whole cause chain is inspected: a
+ * request that never got a response, or a 5xx answer, counts as unreachable;
+ * any other answer (404, bad metadata) means the server lacks OAuth support.
+ */
+function isUnreachable(error: unknown): boolean {
+  for (let cause = error; cause instanceof Error; cause = cause.cause) {
+    if (cause instanceof FetchRequestError || (cause instanceof TypeError && cause.message === 'fetch failed')) {
+      return true;
+    }
+    if (cause instanceof FetchResponseError) {
+      return cause.statusCode >= 500;
+    }
+    if (cause.name === 'AbortError' || cause.name === 'TimeoutError') {
+      return true;
+    }
+  }
+  return false;
+}
+
+function loginError(code: LoginErrorCode, cause?: unknown): OAuthError {
+  return new OAuthError(LOGIN_ERRORS[code].message, code, undefined, cause);
+}
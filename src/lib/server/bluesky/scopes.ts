@@ -0,0 +1,139 @@
+/**
+ * @fileoverview OAuth scope configuration
+ *
+ * Every scope the app can ask for is configured here, in two lists:
+ * - `requested` - asked for at sign-in (default `atproto transition:generic`)
+ * - `optional` - not asked for at sign-in, but declared in the client
+ *   metadata so a signed-in user can grant them later (incremental
+ *   re-authorization)
+ *
+ * Authorization servers only grant scopes that the client metadata declares,
+ * so the metadata document and the localhost client ID always carry both
+ * lists, while authorize() requests only what is needed.
+ *
+ * Besides `atproto`, a scope is either a transitional scope
+ * (`transition:generic`, `transition:chat.bsky`, `transition:email`) or a
+ * granular permission (`repo:`, `rpc:`, `blob:`, `account:`, `identity:`,
+ * `include:`).
+ *
+ * @example
+ * ```bash
+ * # Sign in with generic access; offer DMs on demand
+ * OAUTH_SCOPES="atproto transition:generic"
+ * OAUTH_OPTIONAL_SCOPES="transition:chat.bsky rpc:app.bsky.feed.getTimeline?aud=*"
+ * ```
+ */
+
+import type { OAuthScopeOptions } from './types.js';
+import { OAuthError } from './types.js';
+
+/** Well-known scopes */
+export const SCOPES = {
+  ATPROTO: 'atproto',
+  GENERIC: 'transition:generic',
+  CHAT: 'transition:chat.bsky',
+  EMAIL: 'transition:email'
+} as const;
+
+/** Scopes requested at sign-in when none are configured */
+export const DEFAULT_REQUESTED_SCOPES: readonly string[] = [SCOPES.ATPROTO, SCOPES.GENERIC];
+
+const TRANSITION_SCOPES: readonly string[] = [SCOPES.GENERIC, SCOPES.CHAT, SCOPES.EMAIL];
+const GRANULAR_SCOPE = /^(repo|rpc|blob|account|identity|include):[\x21\x23-\x5B\x5D-\x7E]+$/;
+const NSID = /^[a-zA-Z][a-zA-Z0-9-]*(\.[a-zA-Z0-9-]+)+$/;
+
+/**
+ * Check whether a string is a scope this client can declare
+ */
+export function isValidScope(scope: string): boolean {
+  return scope === SCOPES.ATPROTO || TRANSITION_SCOPES.includes(scope) || GRANULAR_SCOPE.test(scope);
+}
+
+/**
+ * Split a space-separated scope string into its scopes
+ */
+export function parseScope(scope: string | undefined): string[] {
+  return (scope || '').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Join scopes into a space-separated scope string, dropping duplicates
+ */
+export function formatScope(scopes: readonly string[]): string {
+  return [...new Set(scopes)].join(' ');
+}
+
+/**
+ * Validate and normalize scope configuration
+ *
+ * `atproto` is always requested (the authorization server rejects requests
+ * without it) and optional scopes that are already requested are dropped.
+ *
+ * @param options - Configured scopes
+ * @returns Both lists, deduplicated
+ * @throws {OAuthError} If a scope is malformed or unknown
+ */
+export function resolveScopes(options: OAuthScopeOptions = {}): Required<OAuthScopeOptions> {
+  const requested = options.requested?.length ? options.requested : DEFAULT_REQUESTED_SCOPES;
+  const all = [...requested, ...(options.optional || [])];
+
+  const invalid = all.filter((scope) => !isValidScope(scope));
+  if (invalid.length > 0) {
+    throw new OAuthError(`Invalid OAuth scope(s): ${invalid.join(', ')}`, 'SCOPE_INVALID');
+  }
+
+  const resolved = parseScope(formatScope([SCOPES.ATPROTO, ...requested]));
+  return {
+    requested: resolved,
+    optional: parseScope(formatScope(options.optional || [])).filter((scope) => !resolved.includes(scope))
+  };
+}
+
+/**
+ * Every scope the client may ask for, for the client metadata `scope` field
+ */
+export function declaredScope(scopes: Required<OAuthScopeOptions>): string {
+  return formatScope([...scopes.requested, ...scopes.optional]);
+}
+
+/**
+ * Find the declared scope that grants a missing permission
+ *
+ * `required` is what `extractRequiredScope` pulled out of an API error:
+ * either a scope (`transition:chat.bsky`) or the NSID of the method that
+ * was refused (`chat.bsky.convo.listConvos`). Chat methods map to
+ * `transition:chat.bsky`; other methods map to a declared `rpc:` permission
+ * for that method.
+ *
+ * @param required - Scope or method NSID from the failed request
+ * @param declared - Scopes declared in the client metadata
+ * @returns Scope to request, or null if no declared scope covers it
+ */
+export function scopeForRequirement(required: string, declared: readonly string[]): string | null {
+  if (declared.includes(required)) {
+    return required;
+  }
+
+  const nsid = required.replace(/^rpc:/, '').split('?')[0];
+  if (!NSID.test(nsid)) {
+    return null;
+  }
+  if (nsid.startsWith('chat.bsky.') && declared.includes(SCOPES.CHAT)) {
+    return SCOPES.CHAT;
+  }
+
+  return declared.find((scope) => scope === `rpc:${nsid}` || scope.startsWith(`rpc:${nsid}?`)) ?? null;
+}
+
+/**
+ * Read scope configuration from the environment
+ *
+ * - `OAUTH_SCOPES` - space-separated scopes requested at sign-in
+ * - `OAUTH_OPTIONAL_SCOPES` - space-separated scopes for re-authorization
+ */
+export function scopeOptionsFromEnv(): OAuthScopeOptions {
+  return {
+    requested: parseScope(process.env.OAUTH_SCOPES),
+    optional: parseScope(process.env.OAUTH_OPTIONAL_SCOPES)
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Pluggable key-value stores for OAuth state and sessions
+ *
+ * The NodeOAuthClient needs two stores: one for the short-lived PKCE/DPoP state
+ * created by `authorize()`, and one for the long-lived sessions created by
+ * `callback()`. Both are simple async key-value stores whose values are plain
+ * JSON (DPoP keys are stored as JWKs), so any backend that can persist JSON
+ * can hold them.
+ *
+ * Built-in backends:
+ * - `memory` - process-local Maps (default, lost on restart)
+ * - `json`   - a JSON file on disk (survives restarts, one process only)
+ * - `sqlite` - a SQLite database via `node:sqlite` (Node 22.13+, or 22.5+
+ *              with `--experimental-sqlite`), shared by several processes
+ *
+ * @example
+ * ```typescript
+ * const bluesky = new BlueskyService({
+ *   storage: { backend: 'sqlite', path: './data/oauth.db' }
+ * });
+ * ```
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { OAuthStorageOptions, OAuthStore, OAuthStoreBackend } from './types.js';
+import { OAuthError } from './types.js';
+
+// ============================================================================
+// Memory Backend
+// ============================================================================
+
+/**
+ * In-memory store backed by a Map
+ *
+ * Entries live only as long as the process. This is the default backend and
+ * matches the behaviour of the original module-level Maps.
+ */
+export class MemoryStore<V = unknown> implements OAuthStore<V> {
+  readonly backend = 'memory';
+  private readonly entries = new Map<string, V>();
+
+  async get(key: string): Promise<V | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async del(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
+
+// ============================================================================
+// JSON File Backend
+// ============================================================================
+
+/**
+ * Store that persists entries to a JSON file
+ *
+ * Each store owns one top-level namespace in the file, so the state and
+ * session stores can share a single file. Every write goes through a temp
+ * file + rename so a crash never leaves a half-written document behind.
+ *
+ * Writes are only serialized within this process: two processes updating the
+ * same file overwrite each other's changes. Use the `sqlite` backend when
+ * several processes share a store.
+ */
+export class JsonFileStore<V = unknown> implements OAuthStore<V> {
+  readonly backend = 'json';
+  private static queues = new Map<string, Promise<unknown>>();
+
+  /**
+   * @param path - Path to the JSON file (created on first write)
+   * @param namespace - Top-level key that holds this store's entries
+   */
+  constructor(
+    private readonly path: string,
+    private readonly namespace: string
+  ) {}
+
+  async get(key: string): Promise<V | undefined> {
+    const document = await this.readDocument();
+    return document[this.namespace]?.[key] as V | undefined;
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    await this.update((entries) => {
+      entries[key] = value;
+    });
+  }
+
+  async del(key: string): Promise<void> {
+    await this.update((entries) => {
+      delete entries[key];
+    });
+  }
+
+  async keys(): Promise<string[]> {
+    const document = await this.readDocument();
+    return Object.keys(document[this.namespace] ?? {});
+  }
+
+  async size(): Promise<number> {
+    return (await this.keys()).length;
+  }
+
+  /**
+   * Apply a mutation to this store's namespace and write the file back
+   *
+   * Writes to the same file are serialized within the process so concurrent
+   * set/del calls cannot overwrite each other.
+   */
+  private async update(mutate: (entries: Record<string, unknown>) => void): Promise<void> {
+    const previous = JsonFileStore.queues.get(this.path) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const document = await this.readDocument();
+      const entries = document[this.namespace] ?? {};
+      mutate(entries);
+      document[this.namespace] = entries;
+      await this.writeDocument(document);
+    });
+
+    JsonFileStore.queues.set(this.path, next);
+    await next;
+  }
+
+  private async readDocument(): Promise<Record<string, Record<string, unknown>>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw new OAuthError(`Failed to read OAuth store file ${this.path}`, 'STORE_ERROR', undefined, error);
+    }
+  }
+
+  private async writeDocument(document: Record<string, Record<string, unknown>>): Promise<void> {
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(document, null, 2), { mode: 0o600 });
+    await rename(tempPath, this.path);
+  }
+}
+
+// ============================================================================
+// SQLite Backend
+// ============================================================================
+
+type SqliteDatabase = import('node:sqlite').DatabaseSync;
+
+/**
+ * Store that persists entries to a SQLite database
+ *
+ * Uses the built-in `node:sqlite` module, which is loaded lazily so the other
+ * backends keep working on Node versions that do not ship it. Each store gets
+ * its own table, and the database runs in WAL mode so several processes can
+ * share one file.
+ */
+export class SqliteStore<V = unknown> implements OAuthStore<V> {
+  readonly backend = 'sqlite';
+  private static databases = new Map<string, Promise<SqliteDatabase>>();
+  private readonly table: string;
+  private ready: Promise<SqliteDatabase> | null = null;
+
+  /**
+   * @param path - Path to the SQLite database file
+   * @param namespace - Table name suffix for this store (e.g. 'session')
+   */
+  constructor(
+    private readonly path: string,
+    namespace: string
+  ) {
+    if (!/^[a-z_]+$/.test(namespace)) {
+      throw new OAuthError(`Invalid SQLite store namespace: ${namespace}`, 'STORE_ERROR');
+    }
+    this.table = `oauth_${namespace}`;
+  }
+
+  async get(key: string): Promise<V | undefined> {
+    const db = await this.open();
+    const row = db.prepare(`SELECT value FROM ${this.table} WHERE key = ?`).get(key) as
+      | { value: string }
+      | undefined;
+    return row ? JSON.parse(row.value) : undefined;
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    const db = await this.open();
+    db.prepare(
+      `INSERT INTO ${this.table} (key, value, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+    ).run(key, JSON.stringify(value), Date.now());
+  }
+
+  async del(key: string): Promise<void> {
+    const db = await this.open();
+    db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+  }
+
+  async keys(): Promise<string[]> {
+    const db = await this.open();
+    const rows = db.prepare(`SELECT key FROM ${this.table}`).all() as { key: string }[];
+    return rows.map((row) => row.key);
+  }
+
+  async size(): Promise<number> {
+    const db = await this.open();
+    const row = db.prepare(`SELECT COUNT(*) AS count FROM ${this.table}`).get() as { count: number };
+    return Number(row.count);
+  }
+
+  /**
+   * Open (or reuse) the database connection and make sure this store's table exists
+   */
+  private open(): Promise<SqliteDatabase> {
+    if (!this.ready) {
+      this.ready = this.connect();
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+
+  private async connect(): Promise<SqliteDatabase> {
+    let pending = SqliteStore.databases.get(this.path);
+    if (!pending) {
+      pending = (async () => {
+        let sqlite: typeof import('node:sqlite');
+        try {
+          sqlite = await import('node:sqlite');
+        } catch (error) {
+          throw new OAuthError(
+            `The sqlite OAuth store requires node:sqlite (Node 22.13+, or 22.5+ with --experimental-sqlite), running on ${process.version}`,
+            'STORE_ERROR',
+            undefined,
+            error
+          );
+        }
+        await mkdir(dirname(this.path), { recursive: true });
+        const db = new sqlite.DatabaseSync(this.path);
+        db.exec('PRAGMA journal_mode = WAL');
+        return db;
+      })();
+      SqliteStore.databases.set(this.path, pending);
+      pending.catch(() => SqliteStore.databases.delete(this.path));
+    }
+
+    const db = await pending;
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`
+    );
+    return db;
+  }
+}
+
+// ============================================================================
+// Store Factory
+// ============================================================================
+
+/** Default file locations for the persistent backends */
+const DEFAULT_STORE_PATHS: Record<Exclude<OAuthStoreBackend, 'memory'>, string> = {
+  json: '.data/oauth-store.json',
+  sqlite: '.data/oauth-store.db'
+};
+
+// Shared memory stores so every service instance sees the same sessions
+const sharedMemoryStores = new Map<string, MemoryStore<unknown>>();
+
+/**
+ * Create a store for the given namespace using the configured backend
+ *
+ * Memory stores are shared per namespace across all service instances so
+ * sessions are not lost when a new BlueskyOAuthService is constructed.
+ *
+ * @param options - Storage configuration
+ * @param namespace - Logical store name ('state', 'session', ...)
+ * @returns Store instance for the namespace
+ */
+export function createOAuthStore<V>(options: OAuthStorageOptions, namespace: string): OAuthStore<V> {
+  const backend = options.backend ?? 'memory';
+
+  switch (backend) {
+    case 'memory': {
+      let store = sharedMemoryStores.get(namespace);
+      if (!store) {
+        store = new MemoryStore();
+        sharedMemoryStores.set(namespace, store);
+      }
+      return store as OAuthStore<V>;
+    }
+
+    case 'json':
+      return new JsonFileStore<V>(options.path || DEFAULT_STORE_PATHS.json, namespace);
+
+    case 'sqlite':
+      return new SqliteStore<V>(options.path || DEFAULT_STORE_PATHS.sqlite, namespace);
+
+    default:
+      throw new OAuthError(`Unknown OAuth store backend: ${backend}`, 'STORE_ERROR');
+  }
+}
+
+/**
+ * Resolve storage options from environment variables
+ *
+ * Reads `OAUTH_STORE` (memory | json | sqlite) and `OAUTH_STORE_PATH`.
+ *
+ * @returns Storage options derived from the environment
+ */
+export function storageOptionsFromEnv(): OAuthStorageOptions {
+  return {
+    backend: (process.env.OAUTH_STORE as OAuthStoreBackend | undefined) || 'memory',
+    path: process.env.OAUTH_STORE_PATH || undefined
+  };
+}
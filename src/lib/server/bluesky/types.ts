@@ -8,6 +8,7 @@
  */
 
 import type { Agent } from '@atproto/api';
+import type { OAuthErrorCode } from './oauth-errors.js';
 
 // ============================================================================
 // Base AT Protocol Types
@@ -244,6 +245,81 @@ export interface EnrichedFeedResponse extends FeedResponse {
     followersCount: number;
     postsCount: number;
   };
+
+  /** Number of search hits, when the search service reports it (may be rounded) */
+  hitsTotal?: number;
+}
+
+/** Post search filters (app.bsky.feed.searchPosts) */
+export interface PostSearchParams {
+  /** Search terms; Lucene-style syntax is passed through to the search service */
+  q: string;
+  /** Ranking order (default: latest) */
+  sort?: 'top' | 'latest';
+  /** Only posts by this account (handle or DID) */
+  author?: string;
+  /** Only posts mentioning this account (handle or DID) */
+  mentions?: string;
+  /** Posts at or after this date or datetime (ISO 8601) */
+  since?: string;
+  /** Posts before this date or datetime (ISO 8601) */
+  until?: string;
+  /** Language code, e.g. `en` */
+  lang?: string;
+  /** Only posts linking to this domain */
+  domain?: string;
+  /** Hashtags, without `#`; posts must have all of them */
+  tag?: string[];
+}
+
+/** Custom feed generator (app.bsky.feed.defs#generatorView) */
+export interface FeedGeneratorView {
+  uri: ATUri;
+  cid: string;
+  /** DID of the service that generates the feed */
+  did: DID;
+  creator: ActorSearchResult;
+  displayName: string;
+  description?: string;
+  avatar?: string;
+  likeCount?: number;
+  acceptsInteractions?: boolean;
+  labels?: Label[];
+  viewer?: {
+    like?: ATUri;
+  };
+  indexedAt: Timestamp;
+}
+
+/** Feed generator with the AppView's health check of its service */
+export interface FeedGeneratorInfo {
+  view: FeedGeneratorView;
+  /** Service has answered recently */
+  isOnline: boolean;
+  /** Service matches what the generator record declares */
+  isValid: boolean;
+}
+
+/** Page of feed generators */
+export interface FeedGeneratorsResponse {
+  feeds: FeedGeneratorView[];
+  cursor?: string;
+}
+
+/** Feed saved in the user's preferences */
+export interface SavedFeed {
+  /** Preference entry ID */
+  id: string;
+  uri: ATUri;
+  /** Pinned feeds appear as tabs in the official app */
+  pinned: boolean;
+  /** Generator metadata; missing when the generator was deleted */
+  generator?: FeedGeneratorView;
+}
+
+/** The user's saved custom feeds, pinned first */
+export interface SavedFeedsResponse {
+  feeds: SavedFeed[];
 }
 
 // ============================================================================
@@ -284,6 +360,18 @@ export interface FollowersResponse {
   cursor?: string;
 }
 
+/** Account found by actor search; typeahead results have no description */
+export type ActorSearchResult = Pick<BlueskyProfile, 'did' | 'handle' | 'displayName' | 'avatar' | 'viewer'> & {
+  description?: string;
+  labels?: Label[];
+};
+
+/** Accounts matching an actor search */
+export interface ActorSearchResponse {
+  actors: ActorSearchResult[];
+  cursor?: string;
+}
+
 /** Enhanced follow response with profile totals */
 export interface EnrichedFollowResponse {
   data: FollowsResponse | FollowersResponse;
@@ -303,6 +391,159 @@ export interface EnrichedFollowResponse {
   };
 }
 
+// ============================================================================
+// List Types
+// ============================================================================
+
+/** List purpose as stored in the list record */
+export type ListPurposeToken =
+  | 'app.bsky.graph.defs#curatelist'
+  | 'app.bsky.graph.defs#modlist'
+  | 'app.bsky.graph.defs#referencelist'
+  | (string & {});
+
+/**
+ * What a list is for
+ *
+ * - `curation`: people to read, usable as a feed
+ * - `moderation`: people to mute or block together
+ * - `reference`: members of something else, such as a starter pack
+ */
+export type ListKind = 'curation' | 'moderation' | 'reference';
+
+interface ListBase {
+  uri: ATUri;
+  cid: string;
+  creator: ActorSearchResult;
+  name: string;
+  purpose: ListPurposeToken;
+  description?: string;
+  avatar?: string;
+  listItemCount?: number;
+  labels?: Label[];
+  indexedAt: Timestamp;
+}
+
+/** List of accounts whose posts can be read as a feed */
+export interface CurationList extends ListBase {
+  kind: 'curation';
+}
+
+/** List of accounts to mute or block as a group */
+export interface ModerationList extends ListBase {
+  kind: 'moderation';
+  /** Whether the user applies this list */
+  viewer?: {
+    muted?: boolean;
+    /** URI of the user's list block record */
+    blocked?: ATUri;
+  };
+}
+
+/** List that only records membership, e.g. of a starter pack */
+export interface ReferenceList extends ListBase {
+  kind: 'reference';
+}
+
+/** Any list; check `kind` before treating it as a feed or a moderation list */
+export type BlueskyList = CurationList | ModerationList | ReferenceList;
+
+/** Page of lists */
+export interface ListsResponse {
+  lists: BlueskyList[];
+  cursor?: string;
+}
+
+/** Account on a list */
+export interface ListMember {
+  /** URI of the list item record */
+  uri: ATUri;
+  subject: ActorSearchResult;
+}
+
+/** List with a page of its members */
+export interface ListResponse {
+  list: BlueskyList;
+  members: ListMember[];
+  cursor?: string;
+}
+
+// ============================================================================
+// Notification Types
+// ============================================================================
+
+/** Why a notification was sent (app.bsky.notification.listNotifications) */
+export type NotificationReason =
+  | 'like'
+  | 'repost'
+  | 'follow'
+  | 'mention'
+  | 'reply'
+  | 'quote'
+  | 'starterpack-joined'
+  | 'verified'
+  | 'unverified'
+  | 'like-via-repost'
+  | 'repost-via-repost'
+  | 'subscribed-post'
+  | (string & {});
+
+/** Single notification as returned by the API */
+export interface BlueskyNotification {
+  uri: ATUri;
+  cid: string;
+  author: ActorSearchResult;
+  reason: NotificationReason;
+  /** Post the like or repost is about */
+  reasonSubject?: ATUri;
+  /** The like, repost, follow or post record itself */
+  record: Record<string, unknown>;
+  isRead: boolean;
+  indexedAt: Timestamp;
+  labels?: Label[];
+}
+
+/**
+ * Notifications shown as one row
+ *
+ * Likes and reposts of the same post, and follows, are grouped the way the
+ * official app does ("Alice and 12 others liked your post"); other reasons
+ * get a group of their own.
+ */
+export interface NotificationGroup {
+  /** Stable key: URI of the newest notification in the group */
+  id: string;
+  reason: NotificationReason;
+  /** Everyone in the group, newest first, without duplicates */
+  authors: ActorSearchResult[];
+  notifications: BlueskyNotification[];
+  /** Post the group is about: the liked or reposted post, or the reply, mention or quote */
+  subjectUri?: ATUri;
+  /** Hydrated subject post, when it still exists */
+  subject?: BlueskyPost;
+  /** False when any notification in the group is unread */
+  isRead: boolean;
+  /** Time of the newest notification */
+  indexedAt: Timestamp;
+}
+
+/** Page of grouped notifications */
+export interface NotificationsResponse {
+  groups: NotificationGroup[];
+  cursor?: string;
+  /** When notifications were last marked seen */
+  seenAt?: Timestamp;
+}
+
+/** Options for listing notifications */
+export interface ListNotificationsOptions {
+  /** Only these reasons (default: all) */
+  reasons?: NotificationReason[];
+  /** Notifications to fetch before grouping (default: 30, max: 100) */
+  limit?: number;
+  cursor?: string;
+}
+
 // ============================================================================
 // OAuth & Session Types
 // ============================================================================
@@ -324,9 +565,142 @@ export interface OAuthCallbackResult {
   session?: OAuthSession;
   userDid?: DID;
   error?: string;
+  /** Why the callback failed */
+  errorCode?: OAuthErrorCode;
+  /** Handle the sign-in was started with, for a retry */
+  handle?: string;
   redirectTo?: string;
 }
 
+/** Outcome of logging a user out */
+export interface LogoutResult {
+  userDid: DID;
+  /** True when the tokens were revoked at the authorization server */
+  revoked: boolean;
+  /** Why revocation failed (the local session is deleted regardless) */
+  error?: string;
+}
+
+/** Failed token revocation, kept for monitoring */
+export interface RevocationFailure {
+  userDid: DID;
+  timestamp: Timestamp;
+  error: string;
+}
+
+/** Authentication lifecycle event types */
+export type AuthEventType = 'login' | 'callback_failed' | 'token_refreshed' | 'session_deleted' | 'logout';
+
+/** Authentication lifecycle event, as emitted by BlueskyOAuthService and kept in the audit log */
+export interface AuthEvent {
+  type: AuthEventType;
+  /** Account the event concerns (absent when a callback fails before it is known) */
+  did?: DID;
+  timestamp: Timestamp;
+  /** Short machine-readable reason, e.g. `refresh_failed` or `revocation_failed` */
+  reason?: string;
+  /** Error message with tokens and codes redacted */
+  error?: string;
+}
+
+/** Receives lifecycle events from BlueskyOAuthService */
+export type AuthEventListener = (event: AuthEvent) => void;
+
+/** Audit log query, newest entries first */
+export interface AuditLogFilter {
+  types?: AuthEventType[];
+  did?: DID;
+  /** Only events at or after this time */
+  since?: Timestamp;
+  /** Only events before this time */
+  until?: Timestamp;
+  /** Maximum number of entries (default: 100) */
+  limit?: number;
+}
+
+/** Append-only log of authentication events */
+export interface AuditLog {
+  /** Backend identifier, reported in the admin page */
+  readonly backend: string;
+  append(event: AuthEvent): Promise<void>;
+  query(filter?: AuditLogFilter): Promise<AuthEvent[]>;
+}
+
+/** Stage of a login a flow trace event belongs to */
+export type FlowStage =
+  | 'handle_resolution'
+  | 'did_resolution'
+  | 'server_metadata'
+  | 'par'
+  | 'redirect'
+  | 'callback'
+  | 'token_exchange'
+  | 'dpop_nonce'
+  | 'session_storage'
+  | 'request';
+
+/** HTTP exchange seen by the OAuth client, with secrets redacted */
+export interface FlowHttpExchange {
+  method: string;
+  url: string;
+  status?: number;
+  requestHeaders: Record<string, unknown>;
+  requestBody?: unknown;
+  responseHeaders: Record<string, string>;
+  responseBody?: unknown;
+}
+
+/** One step of a traced login */
+export interface FlowEvent {
+  stage: FlowStage;
+  title: string;
+  timestamp: Timestamp;
+  /** Milliseconds since the trace started */
+  offset: number;
+  duration?: number;
+  /** `retry` marks a request the OAuth client repeats (e.g. with a DPoP nonce) */
+  status: 'ok' | 'error' | 'retry';
+  detail?: Record<string, unknown>;
+  http?: FlowHttpExchange;
+}
+
+/** Recording of one login, from the authorization request to the stored session */
+export interface FlowTrace {
+  id: string;
+  /** Handle, DID or URL the login started with (empty for the entryway) */
+  input: string;
+  startedAt: Timestamp;
+  status: 'in_progress' | 'completed' | 'failed';
+  did?: DID;
+  /** OAuthErrorCode or LoginErrorCode of a failed login */
+  errorCode?: string;
+  events: FlowEvent[];
+}
+
+/** Signed-in user resolved once per request (`event.locals.user`) */
+export interface SessionUser {
+  did: DID;
+  /** Handle from the profile, or the DID if the profile could not be loaded */
+  handle: string;
+  profile: BlueskyProfile | null;
+  /** Every account linked to the browser session */
+  accounts: DID[];
+  /** The account's OAuth session has ended (e.g. its refresh token was revoked) and it must sign in again */
+  sessionExpired: boolean;
+}
+
+/** Where a login identifier signs in, as found by the preflight check */
+export interface LoginIdentity {
+  /** Account DID (absent when signing in through a PDS or entryway URL) */
+  did?: DID;
+  /** Verified handle, if the DID document claims one that resolves back */
+  handle?: string;
+  /** Personal Data Server URL */
+  pds: string;
+  /** OAuth authorization server (issuer) for the PDS */
+  authorizationServer: string;
+}
+
 /** OAuth initialization parameters */
 export interface OAuthInitParams {
   handle?: string;
@@ -389,13 +763,175 @@ export interface OAuthClientConfig {
   dpopBoundAccessTokens: boolean;
 }
 
+/** Built-in OAuth store backends */
+export type OAuthStoreBackend = 'memory' | 'json' | 'sqlite';
+
+/**
+ * Async key-value store used for OAuth state and session persistence
+ *
+ * Values must be JSON-serializable. Implementations are expected to be safe
+ * to share between service instances.
+ */
+export interface OAuthStore<V = unknown> {
+  /** Backend identifier, reported in session statistics */
+  readonly backend: OAuthStoreBackend | string;
+  get(key: string): Promise<V | undefined>;
+  set(key: string, value: V): Promise<void>;
+  del(key: string): Promise<void>;
+  /** List every key currently held by the store */
+  keys(): Promise<string[]>;
+  /** Number of entries currently held by the store */
+  size(): Promise<number>;
+}
+
+/** OAuth state/session storage configuration */
+export interface OAuthStorageOptions {
+  /** Built-in backend to use (default: 'memory') */
+  backend?: OAuthStoreBackend;
+  /** File path for the 'json' and 'sqlite' backends */
+  path?: string;
+  /** Custom session store (overrides the backend for sessions) */
+  sessionStore?: OAuthStore;
+  /** Custom state store (overrides the backend for PKCE state) */
+  stateStore?: OAuthStore;
+}
+
+/** Built-in token refresh lock backends */
+export type OAuthLockBackend = 'memory' | 'file';
+
+/**
+ * Named lock the OAuth client holds while it refreshes a session
+ *
+ * Callers with the same name run one at a time; `fn` runs once the lock is
+ * held and the lock is released when it settles.
+ */
+export interface LockProvider {
+  /** Backend identifier, reported in the service configuration */
+  readonly backend: OAuthLockBackend | string;
+  withLock<T>(name: string, fn: () => T | PromiseLike<T>): Promise<T>;
+}
+
+/** Token refresh lock configuration */
+export interface OAuthLockOptions {
+  /** Built-in backend to use (default: 'memory'; use 'file' when several processes share sessions) */
+  backend?: OAuthLockBackend;
+  /** Lock directory for the 'file' backend (default: .data/locks) */
+  path?: string;
+  /** How long to wait for a file lock before failing, in milliseconds (default: 60000) */
+  timeout?: number;
+  /** Age after which a file lock is considered abandoned and broken, in milliseconds (default: 45000) */
+  staleAfter?: number;
+  /** Custom lock provider (overrides the backend) */
+  provider?: LockProvider;
+}
+
+/** Identity resolution and accepted authorization servers, e.g. for a staging or local PDS */
+export interface OAuthNetworkOptions {
+  /** Service resolving handles via com.atproto.identity.resolveHandle (default: DNS and /.well-known lookups) */
+  handleResolver?: string;
+  /** PLC directory for did:plc documents (default: https://plc.directory) */
+  plcDirectoryUrl?: string;
+  /** Issuers of the authorization servers accounts may sign in with (default: any) */
+  allowedAuthorizationServers?: string[];
+  /** PDS or entryway URL a sign-in starts at when no handle is given */
+  entryway?: string;
+}
+
+/** Master key for session envelope encryption */
+export interface SessionEncryptionKey {
+  /** Key identifier recorded in every envelope */
+  kid: string;
+  /** 32-byte key encoded as base64 */
+  key: string;
+}
+
+/** How the OAuth client authenticates at the token endpoint */
+export type OAuthClientAuthMode = 'public' | 'confidential';
+
+/** Signing keys for confidential client authentication (private_key_jwt) */
+export interface OAuthKeysetOptions {
+  /** Private ES256 JWKs with a `kid`, current key first (overrides the keyset file) */
+  keys?: Record<string, unknown>[];
+  /** File holding generated keys (default: .data/oauth-keyset.json) */
+  path?: string;
+  /** Generate a new signing key once the current one is this many days old */
+  rotateAfterDays?: number;
+  /** Keys kept in the generated keyset after a rotation, current key included (default: 2) */
+  retainKeys?: number;
+}
+
+/** OAuth scopes the client asks for */
+export interface OAuthScopeOptions {
+  /** Scopes requested at sign-in (default: atproto transition:generic) */
+  requested?: string[];
+  /** Scopes declared in the client metadata but only requested through re-authorization */
+  optional?: string[];
+}
+
+/** App-password sign-in for scripts and headless use */
+export interface AppPasswordOptions {
+  /** Handle, DID or email of the account */
+  identifier: string;
+  /** App password (xxxx-xxxx-xxxx-xxxx); the account password is refused */
+  password: string;
+  /** Service to sign in at (default: the OAuth entryway, else https://bsky.social) */
+  service?: string;
+  /** Accept an app password that has direct message access (default: false) */
+  allowDirectMessages?: boolean;
+}
+
+/** Source of authenticated agents behind BlueskyService API calls */
+export interface CredentialProvider {
+  getAuthenticatedAgent(userDid: DID): Promise<AuthenticatedAgent>;
+  hasValidSession(userDid: DID): Promise<boolean>;
+}
+
+/** Where the authentication audit log is kept */
+export interface AuditLogOptions {
+  /** 'memory' (default, most recent entries only) or 'file' (JSON lines, append-only) */
+  backend?: 'memory' | 'file';
+  /** File for the 'file' backend (default: .data/auth-audit.jsonl) */
+  path?: string;
+  /** Entries kept by the 'memory' backend (default: 1000) */
+  maxEntries?: number;
+}
+
+/** Route protection applied by the auth guard in hooks.server.ts */
+export interface AuthGuardOptions {
+  /** Path prefixes that require a signed-in user */
+  protectedRoutes?: string[];
+  /** Path prefixes answered with 401 JSON instead of a login redirect (default: /api) */
+  apiRoutes?: string[];
+  /** Where signed-out page requests are redirected (default: /) */
+  loginPath?: string;
+  /** How long a user's profile is reused across requests, in seconds (default: 300) */
+  profileTTL?: number;
+  /** Path prefixes only admins may open; others get 403 (default: none) */
+  adminRoutes?: string[];
+  /** DIDs allowed on admin routes (default: ADMIN_DIDS, comma-separated) */
+  adminDids?: DID[];
+}
+
 /** Service initialization options */
 export interface BlueskyServiceOptions {
   publicUrl?: string;
   clientId?: string;
   developmentMode?: boolean;
-  sessionTTL?: number;  // Session time-to-live in seconds
+  sessionTTL?: number;  // Idle session time-to-live in seconds
+  stateTTL?: number;  // PKCE state time-to-live in seconds
+  cleanupInterval?: number;  // Expiry sweep interval in seconds (0 disables)
+  refreshAhead?: number;  // Refresh access tokens in the background this many seconds before they expire (0 disables)
   apiTimeout?: number;  // API timeout in milliseconds
+  storage?: OAuthStorageOptions;  // Where OAuth state and sessions are kept
+  lock?: OAuthLockOptions;  // How token refreshes are serialized across requests and processes
+  network?: OAuthNetworkOptions;  // Handle resolver, PLC directory, allowed servers and entryway
+  encryptionKeys?: SessionEncryptionKey[];  // Session master keys, current key first
+  sessionSecret?: string;  // HMAC secret for signing session cookies
+  clientAuth?: OAuthClientAuthMode;  // 'confidential' signs token requests with private_key_jwt
+  keyset?: OAuthKeysetOptions;  // Signing keys used in confidential mode
+  scopes?: OAuthScopeOptions;  // Sign-in and re-authorization scopes
+  appPassword?: AppPasswordOptions;  // Use an app-password session instead of OAuth for API calls
+  auditLog?: AuditLogOptions;  // Where authentication events are recorded
 }
 
 // ============================================================================
@@ -450,7 +986,8 @@ export type DemoType =
   | 'post-thread' 
   | 'likes' 
   | 'following' 
-  | 'followers';
+  | 'followers'
+  | 'search';
 
 /** Demo configuration */
 export interface DemoConfig {
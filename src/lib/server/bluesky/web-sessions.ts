@@ -0,0 +1,501 @@
+/**
+ * @fileoverview Signed, opaque browser session cookies
+ *
+ * The `bsky_session` cookie never contains the user's DID. Instead it holds a
+ * random server-side session ID plus an HMAC signature:
+ *
+ *   bsky_session = <session id>.<base64url HMAC-SHA256(secret, session id)>
+ *
+ * The session ID maps to the DID in a server-side store, so a cookie can only
+ * be used if it was issued by this server and has not been revoked. A new ID
+ * is issued on every login (the previous one is revoked) and logout deletes
+ * the mapping, so old cookies stop working immediately. Records are also
+ * rejected and deleted once they are older than the cookie's `maxAge`, so a
+ * copied cookie value stops working when the browser's copy would have.
+ *
+ * One browser session can hold several linked accounts. Signing in while
+ * already signed in adds the new account and makes it active; the others
+ * stay linked until they are signed out individually.
+ *
+ * Each session records the device it was signed in from (user agent and the
+ * network part of the client address) and when it was last used, so an
+ * account's sessions can be listed and revoked from another browser.
+ *
+ * An account whose OAuth session ends (revoked or unrefreshable tokens) is
+ * marked as expired rather than unlinked, so the app can ask the user to
+ * sign in again where they are. Signing in again clears the mark.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { Cookies, RequestEvent } from '@sveltejs/kit';
+import type { DID, OAuthStore } from './types.js';
+import { OAuthError } from './types.js';
+
+/** Name of the browser session cookie */
+export const SESSION_COOKIE = 'bsky_session';
+
+/** Server-side record behind a session cookie */
+export interface WebSession {
+  /** Linked accounts, in the order they were added */
+  accounts: DID[];
+  /** Account used for requests */
+  activeDid: DID;
+  createdAt: number;
+  /** When this session ID and its cookie were issued (absent on sessions from before it was recorded) */
+  issuedAt?: number;
+  /** Device signed in from (absent on sessions created before it was recorded) */
+  device?: DeviceInfo;
+  /** Last request made with the session, updated at most every LAST_SEEN_INTERVAL_MS */
+  lastSeenAt?: number;
+  /** Linked accounts whose OAuth session has ended; they stay linked until they sign in again */
+  expired?: DID[];
+}
+
+/** Where a web session was signed in from */
+export interface DeviceInfo {
+  /** User-Agent header, truncated */
+  userAgent?: string;
+  /** Client network: IPv4 /24 or IPv6 /48, never the full address */
+  ipPrefix?: string;
+}
+
+/** A web session as shown to the account's owner */
+export interface WebSessionSummary {
+  /** Stable identifier derived from the session ID; not usable as a cookie */
+  id: string;
+  device: DeviceInfo;
+  createdAt: number;
+  lastSeenAt: number;
+  /** Whether this is the session of the browser asking */
+  current: boolean;
+}
+
+/** Record format before multiple accounts were supported */
+interface LegacyWebSession {
+  did: DID;
+  createdAt: number;
+}
+
+/** Default lifetime of a session cookie and its server-side record, in seconds (1 week) */
+export const WEB_SESSION_MAX_AGE = 60 * 60 * 24 * 7;
+
+// Writing on every request would turn each page load into a store write
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_USER_AGENT_LENGTH = 256;
+
+/** Options for the web session manager */
+export interface WebSessionOptions {
+  /** HMAC secret for signing cookies (falls back to SESSION_SECRET) */
+  secret?: string;
+  /** Allow an ephemeral secret when none is configured */
+  developmentMode: boolean;
+  /** Cookie and session record lifetime in seconds (default: 1 week) */
+  maxAge?: number;
+}
+
+/**
+ * Issues, verifies and revokes signed session cookies
+ */
+export class WebSessionManager {
+  private readonly secret: string;
+  private readonly maxAge: number;
+
+  /**
+   * @param store - Store mapping session IDs to web sessions
+   * @param options - Secret and cookie configuration
+   * @throws {OAuthError} If no secret is configured outside development mode
+   */
+  constructor(
+    private readonly store: OAuthStore<WebSession | LegacyWebSession>,
+    options: WebSessionOptions
+  ) {
+    const secret = options.secret || process.env.SESSION_SECRET;
+
+    if (!secret) {
+      if (!options.developmentMode) {
+        throw new OAuthError(
+          'Session cookie secret required in production: set SESSION_SECRET or pass sessionSecret',
+          'SESSION_SECRET_MISSING'
+        );
+      }
+      console.warn('No SESSION_SECRET configured - using an ephemeral secret (development only)');
+    }
+
+    this.secret = secret || randomBytes(32).toString('base64');
+    this.maxAge = options.maxAge || WEB_SESSION_MAX_AGE;
+  }
+
+  /**
+   * Sign an account in and set the cookie
+   *
+   * Accounts from the current session are carried over and the new account
+   * becomes active. The previous session ID is revoked, so the ID is rotated
+   * on every login. Signing in again clears the account's expired mark.
+   *
+   * @param cookies - SvelteKit cookies object
+   * @param did - Authenticated user's DID
+   * @param device - Device signing in (kept from the previous session if omitted)
+   */
+  async create(cookies: Cookies, did: DID, device?: DeviceInfo): Promise<void> {
+    const previousId = this.readSessionId(cookies);
+    const previous = previousId ? await this.load(previousId) : null;
+    if (previousId) {
+      await this.store.del(previousId);
+    }
+
+    const accounts = previous?.accounts.includes(did) ? previous.accounts : [...(previous?.accounts || []), did];
+    const expired = previous?.expired?.filter((account) => account !== did);
+    const sessionId = randomBytes(32).toString('base64url');
+    await this.store.set(sessionId, {
+      accounts,
+      activeDid: did,
+      createdAt: previous?.createdAt || Date.now(),
+      issuedAt: Date.now(),
+      device: device ?? previous?.device,
+      lastSeenAt: Date.now(),
+      ...(expired?.length ? { expired } : {})
+    });
+
+    cookies.set(SESSION_COOKIE, `${sessionId}.${this.sign(sessionId)}`, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: this.maxAge,
+      path: '/'
+    });
+  }
+
+  /**
+   * Resolve the cookie to the active account's DID
+   *
+   * Forged, malformed or revoked cookies are deleted so the browser stops
+   * sending them.
+   *
+   * @param cookies - SvelteKit cookies object
+   * @returns The active account's DID, or null if there is no valid session
+   */
+  async resolve(cookies: Cookies): Promise<DID | null> {
+    return (await this.get(cookies))?.activeDid ?? null;
+  }
+
+  /**
+   * Resolve the cookie to the full web session
+   *
+   * @param cookies - SvelteKit cookies object
+   * @returns Linked accounts and the active account, or null if there is no valid session
+   */
+  async get(cookies: Cookies): Promise<WebSession | null> {
+    if (!cookies.get(SESSION_COOKIE)) {
+      return null;
+    }
+
+    const sessionId = this.readSessionId(cookies);
+    const session = sessionId ? await this.load(sessionId) : null;
+
+    if (!sessionId || !session) {
+      console.log('Invalid or stale session cookie, clearing it');
+      this.clearCookie(cookies);
+      return null;
+    }
+
+    if (Date.now() - (session.lastSeenAt ?? 0) > LAST_SEEN_INTERVAL_MS) {
+      session.lastSeenAt = Date.now();
+      await this.store.set(sessionId, session);
+    }
+    return session;
+  }
+
+  /**
+   * List every web session an account is linked to
+   *
+   * Reads the whole store, which is fine for the number of browser sessions
+   * this app holds. Sessions whose cookie has expired are left out and
+   * deleted as they are read.
+   *
+   * @param cookies - SvelteKit cookies object, to mark the current session
+   * @param did - Account whose sessions to list
+   * @returns Sessions, most recently used first
+   */
+  async listForAccount(cookies: Cookies, did: DID): Promise<WebSessionSummary[]> {
+    const currentId = this.readSessionId(cookies);
+    const summaries: WebSessionSummary[] = [];
+
+    for (const [sessionId, session] of await this.loadForAccount(did)) {
+      summaries.push({
+        id: publicSessionId(sessionId),
+        device: session.device ?? {},
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt ?? session.createdAt,
+        current: sessionId === currentId
+      });
+    }
+    return summaries.sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  /**
+   * Unlink an account from one of its sessions, e.g. one in another browser
+   *
+   * @param did - Account to unlink
+   * @param id - Summary ID from listForAccount()
+   * @returns True if the account was linked to that session
+   */
+  async revokeForAccount(did: DID, id: string): Promise<boolean> {
+    for (const [sessionId, session] of await this.loadForAccount(did)) {
+      if (publicSessionId(sessionId) === id) {
+        await this.unlink(sessionId, session, did);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Unlink an account from every session except the current one
+   *
+   * @param cookies - SvelteKit cookies object identifying the session to keep
+   * @param did - Account to unlink
+   * @returns Number of sessions the account was removed from
+   */
+  async revokeOthersForAccount(cookies: Cookies, did: DID): Promise<number> {
+    const currentId = this.readSessionId(cookies);
+    let revoked = 0;
+
+    for (const [sessionId, session] of await this.loadForAccount(did)) {
+      if (sessionId !== currentId) {
+        await this.unlink(sessionId, session, did);
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  /**
+   * Make a linked account the active one
+   *
+   * @param cookies - SvelteKit cookies object
+   * @param did - DID of an account linked to this session
+   * @returns True if the account is linked and is now active
+   */
+  async switchAccount(cookies: Cookies, did: DID): Promise<boolean> {
+    const sessionId = this.readSessionId(cookies);
+    const session = sessionId ? await this.load(sessionId) : null;
+    if (!sessionId || !session?.accounts.includes(did)) {
+      return false;
+    }
+
+    await this.store.set(sessionId, { ...session, activeDid: did });
+    return true;
+  }
+
+  /**
+   * Mark a linked account as needing to sign in again, or clear the mark
+   *
+   * @param cookies - SvelteKit cookies object
+   * @param did - DID of an account linked to this session
+   * @param expired - Whether the account's OAuth session has ended
+   */
+  async setExpired(cookies: Cookies, did: DID, expired: boolean): Promise<void> {
+    const sessionId = this.readSessionId(cookies);
+    const session = sessionId ? await this.load(sessionId) : null;
+    if (!sessionId || !session?.accounts.includes(did)) {
+      return;
+    }
+
+    await this.store.set(sessionId, withExpired(session, did, expired));
+  }
+
+  /**
+   * Unlink an account from the session
+   *
+   * If the active account is removed the first remaining account becomes
+   * active. Removing the last account revokes the session.
+   *
+   * @param cookies - SvelteKit cookies object
+   * @param did - DID of the account to unlink
+   * @returns The remaining session, or null if no accounts are left
+   */
+  async removeAccount(cookies: Cookies, did: DID): Promise<WebSession | null> {
+    const sessionId = this.readSessionId(cookies);
+    const session = sessionId ? await this.load(sessionId) : null;
+    if (!sessionId || !session) {
+      return null;
+    }
+
+    const remaining = await this.unlink(sessionId, session, did);
+    if (!remaining) {
+      this.clearCookie(cookies);
+    }
+    return remaining;
+  }
+
+  /**
+   * Revoke the current web session and delete the cookie
+   *
+   * @param cookies - SvelteKit cookies object
+   */
+  async revoke(cookies: Cookies): Promise<void> {
+    const sessionId = this.readSessionId(cookies);
+    if (sessionId) {
+      await this.store.del(sessionId);
+    }
+    this.clearCookie(cookies);
+  }
+
+  /**
+   * Delete the session cookie without touching the store
+   *
+   * @param cookies - SvelteKit cookies object
+   */
+  clearCookie(cookies: Cookies): void {
+    cookies.delete(SESSION_COOKIE, { path: '/' });
+  }
+
+  /**
+   * Remove an account from a stored session, deleting the session if it was the last one
+   */
+  private async unlink(sessionId: string, session: WebSession, did: DID): Promise<WebSession | null> {
+    const accounts = session.accounts.filter((account) => account !== did);
+    if (accounts.length === 0) {
+      await this.store.del(sessionId);
+      return null;
+    }
+
+    const remaining = {
+      ...withExpired(session, did, false),
+      accounts,
+      activeDid: accounts.includes(session.activeDid) ? session.activeDid : accounts[0]
+    };
+    await this.store.set(sessionId, remaining);
+    return remaining;
+  }
+
+  /**
+   * Load every unexpired session the account is linked to, keyed by session ID
+   *
+   * Expired records met along the way are deleted by load(), whichever
+   * account they belong to.
+   */
+  private async loadForAccount(did: DID): Promise<Map<string, WebSession>> {
+    const sessions = new Map<string, WebSession>();
+    for (const sessionId of await this.store.keys()) {
+      const session = await this.load(sessionId);
+      if (session?.accounts.includes(did)) {
+        sessions.set(sessionId, session);
+      }
+    }
+    return sessions;
+  }
+
+  /**
+   * Load a session record, upgrading the single-account format
+   *
+   * Records issued more than `maxAge` ago are deleted: their cookie has
+   * expired, so only a copied cookie value could still present them. Older
+   * records without an issue time count from their last use.
+   */
+  private async load(sessionId: string): Promise<WebSession | null> {
+    const stored = await this.store.get(sessionId);
+    if (!stored) {
+      return null;
+    }
+
+    const session: WebSession =
+      'did' in stored ? { accounts: [stored.did], activeDid: stored.did, createdAt: stored.createdAt } : stored;
+    if (Date.now() - (session.issuedAt ?? session.lastSeenAt ?? session.createdAt) > this.maxAge * 1000) {
+      console.log('Expired web session, deleting it');
+      await this.store.del(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Read and verify the session ID from the cookie
+   *
+   * @returns Session ID if the signature is valid, otherwise null
+   */
+  private readSessionId(cookies: Cookies): string | null {
+    const value = cookies.get(SESSION_COOKIE);
+    const separator = value?.lastIndexOf('.') ?? -1;
+    if (!value || separator <= 0) {
+      return null;
+    }
+
+    const sessionId = value.slice(0, separator);
+    const signature = Buffer.from(value.slice(separator + 1));
+    const expected = Buffer.from(this.sign(sessionId));
+
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      return null;
+    }
+    return sessionId;
+  }
+
+  private sign(sessionId: string): string {
+    return createHmac('sha256', this.secret).update(sessionId).digest('base64url');
+  }
+}
+
+/**
+ * Describe the device making a request
+ *
+ * @param event - SvelteKit request event (or its request and getClientAddress)
+ * @returns Device info with the address reduced to its network
+ */
+export function describeDevice(event: Pick<RequestEvent, 'request' | 'getClientAddress'>): DeviceInfo {
+  let clientAddress: string | undefined;
+  try {
+    clientAddress = event.getClientAddress();
+  } catch {
+    // Not every adapter can tell the client address
+  }
+
+  return {
+    userAgent: event.request.headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) || undefined,
+    ipPrefix: clientAddress ? networkPrefix(clientAddress) : undefined
+  };
+}
+
+/**
+ * Reduce an IP address to its IPv4 /24 or IPv6 /48 network
+ */
+function networkPrefix(address: string): string | undefined {
+  const plain = address.replace(/%.*$/, '').replace(/^::ffff:(?=\d+\.)/i, '');
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(plain)) {
+    return `${plain.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+  if (!plain.includes(':')) {
+    return undefined;
+  }
+
+  // Expand "::" so the first three groups can be read
+  const [head, tail] = plain.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups =
+    tail === undefined ? headGroups : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+  return `${groups
+    .slice(0, 3)
+    .map((group) => parseInt(group, 16).toString(16))
+    .join(':')}::/48`;
+}
+
+/**
+ * Derive the ID shown for a session; the session ID itself stays secret
+ */
+function publicSessionId(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Copy of a session with the account added to or removed from the expired list
+ */
+function withExpired(session: WebSession, did: DID, expired: boolean): WebSession {
+  const { expired: current = [], ...rest } = session;
+  const accounts = current.filter((account) => account !== did);
+  if (expired) {
+    accounts.push(did);
+  }
+  return accounts.length ? { ...rest, expired: accounts } : rest;
+}
@@ -3,13 +3,15 @@
 // This demonstrates the OAuth flow - JWT signing can be added later for production
 import { NodeOAuthClient } from '@atproto/oauth-client-node';
 import { Agent } from '@atproto/api';
+import { formatScope, resolveScopes, scopeOptionsFromEnv } from './bluesky/scopes.js';
+import { buildClientMetadata, loopbackClientId } from './bluesky/client-metadata.js';
 
 // Get environment variables with fallbacks for development
 // For localhost development, use special client_id format with embedded redirect_uri and scope
 const PUBLIC_URL = process.env.PUBLIC_URL || 'http://127.0.0.1:5174';
-const REDIRECT_URI = `${PUBLIC_URL}/`;
-const SCOPE = 'atproto transition:generic';
-const CLIENT_ID = process.env.CLIENT_ID || `http://localhost?redirect_uri=${encodeURIComponent(REDIRECT_URI)}&scope=${encodeURIComponent(SCOPE)}`;
+// Sign-in scopes come from OAUTH_SCOPES (see bluesky/scopes.ts); this client never re-authorizes
+const SCOPE = formatScope(resolveScopes(scopeOptionsFromEnv()).requested);
+const CLIENT_ID = process.env.CLIENT_ID || loopbackClientId(PUBLIC_URL, SCOPE);
 
 // Simple in-memory stores for development
 // In production, these should be persistent (Redis, database, etc.)
@@ -40,18 +42,13 @@ export const createOAuthClient = async () => {
 	// This embeds the redirect_uri and scope in the client_id for localhost development
 	oauthClient = new NodeOAuthClient({
 		// Using localhost development pattern with embedded parameters
-		clientMetadata: {
-			client_id: CLIENT_ID, // Special localhost format with embedded redirect_uri and scope
-			client_name: 'SvelteKit Bsky Guide',
-			client_uri: PUBLIC_URL,
-			redirect_uris: [REDIRECT_URI],
-			grant_types: ['authorization_code', 'refresh_token'],
-			scope: SCOPE,
-			response_types: ['code'],
-			application_type: 'native',
-			token_endpoint_auth_method: 'none',
-			dpop_bound_access_tokens: true,
-		},
+		// Same validated builder as BlueskyOAuthService, always as a public client
+		clientMetadata: buildClientMetadata({
+			clientId: CLIENT_ID, // Special localhost format with embedded redirect_uri and scope
+			publicUrl: PUBLIC_URL,
+			clientAuth: 'public',
+			scope: SCOPE
+		}),
 
 		// No keyset needed for 'none' authentication method
 		
@@ -0,0 +1,11 @@
+// Root layout - tells every page when the signed-in account has to sign in again
+import type { LayoutServerLoad } from './$types';
+
+export const load: LayoutServerLoad = async ({ locals }) => {
+	const user = locals.user;
+
+	return {
+		// Shown as an in-page prompt instead of redirecting to the login page
+		sessionExpired: user?.sessionExpired ? { did: user.did, handle: user.handle } : null
+	};
+};
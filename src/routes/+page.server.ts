@@ -1,19 +1,43 @@
 // Page server load function that handles OAuth callback at root
 // Per atproto OAuth spec, localhost redirect URIs must be http://127.0.0.1/
-import { redirect } from '@sveltejs/kit';
+import { isRedirect, redirect } from '@sveltejs/kit';
 import type { PageServerLoad } from './$types';
-import { getBlueskyService } from '$lib/server/bluesky';
+import {
+	DEFAULT_RETURN_TO,
+	LOGIN_ERRORS,
+	describeDevice,
+	getBlueskyService,
+	isLoginErrorCode,
+	oauthErrorPath,
+	sanitizeReturnTo
+} from '$lib/server/bluesky';
 
-export const load: PageServerLoad = async ({ url, cookies }) => {
-	// Check if this is a REAL OAuth callback (must have both 'code' AND 'state' parameters)
-	// Don't confuse our own 'error=oauth_failed' parameter with OAuth errors
-	const isRealOAuthCallback = url.searchParams.has('code') && url.searchParams.has('state');
+export const load: PageServerLoad = async (event) => {
+	const { url, cookies } = event;
+	// Check if this is a REAL OAuth callback: 'state' plus either 'code' or the server's 'error'
+	// Don't confuse our own 'error=HANDLE_NOT_FOUND' style parameter with OAuth errors
+	const isRealOAuthCallback =
+		url.searchParams.has('state') && (url.searchParams.has('code') || url.searchParams.has('error'));
 	
 	if (!isRealOAuthCallback) {
+		// A failed login preflight sends its code back here
+		const error = url.searchParams.get('error');
+		const loginError = isLoginErrorCode(error) ? { code: error, message: LOGIN_ERRORS[error].message } : null;
+
+		// On a self-hosted network an empty handle signs in at the configured entryway
+		const entryway = getBlueskyService().getConfig().network?.entryway;
+
 		// Not an OAuth callback, return normal page data
 		return {
 			isOAuthCallback: false,
-			hasError: url.searchParams.get('error') === 'oauth_failed'
+			loginError,
+			// Handle to put back in the form after a failed attempt
+			handle: url.searchParams.get('handle') || '',
+			// Signing in from the account switcher links another account to the session
+			addAccount: url.searchParams.has('add_account'),
+			entryway: entryway ? new URL(entryway).host : null,
+			// Page the auth guard sent the user away from, passed on to /auth/login
+			returnTo: sanitizeReturnTo(url.searchParams.get('returnTo')) ?? null
 		};
 	}
 
@@ -25,7 +49,8 @@ export const load: PageServerLoad = async ({ url, cookies }) => {
 		const bluesky = getBlueskyService();
 
 		// Handle the OAuth callback using the refactored service
-		const result = await bluesky.handleOAuthCallback(url.toString(), cookies);
+		// The device is listed on the account's active sessions page
+		const result = await bluesky.handleOAuthCallback(url.toString(), cookies, describeDevice(event));
 
 		if (result.success && result.userDid) {
 			console.log('Agent created successfully - OAuth flow complete!');
@@ -37,20 +62,21 @@ export const load: PageServerLoad = async ({ url, cookies }) => {
 				isOAuthCallback: true,
 				success: true,
 				userDid: result.userDid,
-				redirectTo: '/dashboard'
+				// The page requested before sign-in (or re-authorization), if any
+				redirectTo: result.redirectTo || DEFAULT_RETURN_TO
 			};
 		} else {
-			console.error('OAuth callback failed:', result.error);
-			throw redirect(302, '/?error=oauth_failed');
+			console.error('OAuth callback failed:', result.errorCode, result.error);
+			throw redirect(302, oauthErrorPath(result.errorCode ?? 'TOKEN_EXCHANGE_FAILED', result.handle, result.redirectTo));
 		}
 	} catch (error) {
-		if (error instanceof Response) {
+		if (isRedirect(error)) {
 			throw error; // Re-throw redirects
 		}
 		
 		console.error('OAuth callback error:', error);
 		
-		// Redirect to home with error indication
-		throw redirect(302, '/?error=oauth_failed');
+		// Tokens were issued but the browser session could not be set up
+		throw redirect(302, oauthErrorPath('SESSION_CHECK_FAILED'));
 	}
 };
\ No newline at end of file
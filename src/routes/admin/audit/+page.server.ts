@@ -0,0 +1,55 @@
+// Admin audit log viewer - authentication events, filtered by type, account and date
+import type { PageServerLoad } from './$types';
+import { AUTH_EVENT_TYPES, getBlueskyService } from '$lib/server/bluesky';
+import type { AuthEventType } from '$lib/server/bluesky';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LIMITS = [50, 100, 250, 1000];
+
+export const load: PageServerLoad = async ({ url }) => {
+	// The auth guard in hooks.server.ts only lets admins through
+	const bluesky = getBlueskyService();
+
+	const types = url.searchParams
+		.getAll('type')
+		.filter((type): type is AuthEventType => AUTH_EVENT_TYPES.includes(type as AuthEventType));
+	const did = url.searchParams.get('did')?.trim() || '';
+	const since = parseDate(url.searchParams.get('since'));
+	const until = parseDate(url.searchParams.get('until'));
+	const requestedLimit = Number(url.searchParams.get('limit'));
+	const limit = LIMITS.includes(requestedLimit) ? requestedLimit : 100;
+
+	const events = await bluesky.queryAuditLog({
+		types,
+		did: did || undefined,
+		since: since?.toISOString(),
+		// The "until" day is included
+		until: until ? new Date(until.getTime() + DAY_MS).toISOString() : undefined,
+		limit
+	});
+
+	return {
+		events,
+		eventTypes: [...AUTH_EVENT_TYPES],
+		limits: LIMITS,
+		backend: bluesky.getConfig().auditLog?.backend ?? 'memory',
+		filter: {
+			types,
+			did,
+			since: since ? url.searchParams.get('since') : '',
+			until: until ? url.searchParams.get('until') : '',
+			limit
+		}
+	};
+};
+
+/**
+ * Parse a YYYY-MM-DD date input as UTC midnight
+ */
+function parseDate(value: string | null): Date | null {
+	if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+		return null;
+	}
+	const date = new Date(`${value}T00:00:00Z`);
+	return Number.isNaN(date.getTime()) ? null : date;
+}
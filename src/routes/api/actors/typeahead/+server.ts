@@ -0,0 +1,31 @@
+// Actor typeahead endpoint - account suggestions for ActorTypeahead as the user types
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getBlueskyService } from '$lib/server/bluesky';
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 25;
+// Handles are at most 253 characters; anything longer can't be a prefix of one
+const MAX_QUERY_LENGTH = 253;
+
+export const GET: RequestHandler = async ({ locals, url }) => {
+	const q = (url.searchParams.get('q') ?? '').slice(0, MAX_QUERY_LENGTH);
+	const requested = Number(url.searchParams.get('limit'));
+	const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_LIMIT) : DEFAULT_LIMIT;
+
+	try {
+		// The auth guard in hooks.server.ts answers 401 for signed-out or expired sessions
+		const agent = await locals.getAgent();
+		const response = await getBlueskyService().getAPIService().searchActorsTypeahead(agent, q, limit);
+
+		if (!response.success) {
+			return json({ error: { code: response.error?.code, message: response.error?.message } }, { status: 502 });
+		}
+
+		// Typing back over a prefix repeats requests; let the browser answer those
+		return json(response.data, { headers: { 'Cache-Control': 'private, max-age=30' } });
+	} catch (error) {
+		console.error('Error suggesting actors:', error);
+		return json({ error: { code: 'TYPEAHEAD_FAILED', message: 'Could not look up accounts.' } }, { status: 500 });
+	}
+};
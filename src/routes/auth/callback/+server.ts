@@ -1,9 +1,10 @@
 // OAuth callback endpoint - handles OAuth response (following README example)
-import { redirect } from '@sveltejs/kit';
+import { isRedirect, redirect } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getBlueskyService } from '$lib/server/bluesky';
+import { DEFAULT_RETURN_TO, describeDevice, getBlueskyService, oauthErrorPath } from '$lib/server/bluesky';
 
-export const GET: RequestHandler = async ({ url, cookies }) => {
+export const GET: RequestHandler = async (event) => {
+	const { url, cookies } = event;
 	console.log('OAuth callback received at root');
 	console.log('Callback URL:', url.toString());
 
@@ -12,26 +13,27 @@ export const GET: RequestHandler = async ({ url, cookies }) => {
 		const bluesky = getBlueskyService();
 
 		// Handle the OAuth callback using the refactored service
-		const result = await bluesky.handleOAuthCallback(url.toString(), cookies);
+		// The device is listed on the account's active sessions page
+		const result = await bluesky.handleOAuthCallback(url.toString(), cookies, describeDevice(event));
 
 		if (result.success && result.userDid) {
 			console.log('Agent created successfully - OAuth flow complete!');
 			console.log('Session established, will redirect to dashboard...');
 			
-			// Redirect to dashboard
-			throw redirect(302, '/dashboard');
+			// Redirect to the page requested before sign-in, or the dashboard
+			throw redirect(302, result.redirectTo || DEFAULT_RETURN_TO);
 		} else {
-			console.error('OAuth callback failed:', result.error);
-			throw redirect(302, '/?error=oauth_failed');
+			console.error('OAuth callback failed:', result.errorCode, result.error);
+			throw redirect(302, oauthErrorPath(result.errorCode ?? 'TOKEN_EXCHANGE_FAILED', result.handle, result.redirectTo));
 		}
 	} catch (error) {
-		if (error instanceof Response) {
+		if (isRedirect(error)) {
 			throw error; // Re-throw redirects
 		}
 		
 		console.error('OAuth callback error:', error);
 		
-		// Redirect to home with error indication
-		throw redirect(302, '/?error=oauth_failed');
+		// Tokens were issued but the browser session could not be set up
+		throw redirect(302, oauthErrorPath('SESSION_CHECK_FAILED'));
 	}
 };
\ No newline at end of file
@@ -0,0 +1,21 @@
+// Sign-in failure page - explains the OAuth error code and offers a retry with the same handle
+import type { PageServerLoad } from './$types';
+import { OAUTH_ERRORS, isOAuthErrorCode, sanitizeReturnTo } from '$lib/server/bluesky';
+
+// Links from before error codes existed, or a code we no longer use
+const UNKNOWN_ERROR = {
+	title: 'Sign-in failed',
+	message: 'Something went wrong while signing in.',
+	remedy: 'Try again. If it keeps failing, try again later.'
+};
+
+export const load: PageServerLoad = async ({ url }) => {
+	const code = url.searchParams.get('code');
+
+	return {
+		code: isOAuthErrorCode(code) ? code : null,
+		...(isOAuthErrorCode(code) ? OAUTH_ERRORS[code] : UNKNOWN_ERROR),
+		handle: url.searchParams.get('handle') || '',
+		returnTo: sanitizeReturnTo(url.searchParams.get('returnTo')) ?? null
+	};
+};
@@ -1,7 +1,7 @@
 // Login endpoint - initiates OAuth flow (following README example)
-import { redirect } from '@sveltejs/kit';
+import { isRedirect, redirect } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getBlueskyService } from '$lib/server/bluesky';
+import { OAuthError, getBlueskyService, isLoginErrorCode, oauthErrorPath } from '$lib/server/bluesky';
 
 export const GET: RequestHandler = async ({ url }) => {
 	console.log('Starting OAuth login flow...');
@@ -13,20 +13,40 @@ export const GET: RequestHandler = async ({ url }) => {
 		// Get handle from query parameters (optional)
 		const handle = url.searchParams.get('handle') || '';
 
+		// Page to come back to after the callback (validated by the service)
+		const returnTo = url.searchParams.get('returnTo') || undefined;
+
+		// Catch typos and unsupported servers before leaving the app
+		await bluesky.resolveLoginIdentity(handle);
+
 		console.log('Authorizing with handle:', handle);
 
 		// Generate the authorization URL using the refactored service
-		const authUrl = await bluesky.initiateLogin(handle);
+		const authUrl = await bluesky.initiateLogin(handle, undefined, returnTo);
 
 		console.log('Generated authorization URL:', authUrl);
 
 		// Redirect user to Bluesky for authorization
 		throw redirect(302, authUrl);
 	} catch (error) {
-		if (error instanceof Response) {
+		if (isRedirect(error)) {
 			throw error; // Re-throw redirects
 		}
+		if (error instanceof OAuthError && isLoginErrorCode(error.code)) {
+			// Back to the form with the handle kept, so it can be corrected
+			const params = new URLSearchParams({ error: error.code, handle: url.searchParams.get('handle') || '' });
+			const returnTo = url.searchParams.get('returnTo');
+			if (returnTo) {
+				params.set('returnTo', returnTo);
+			}
+			throw redirect(302, `/?${params}`);
+		}
 		console.error('Error during OAuth authorization:', error);
+		if (error instanceof OAuthError && error.code === 'AUTHORIZE_FAILED') {
+			// The handle resolved, so the request itself failed; explain and offer a retry
+			const returnTo = url.searchParams.get('returnTo') || undefined;
+			throw redirect(302, oauthErrorPath('AUTHORIZE_FAILED', url.searchParams.get('handle') || undefined, returnTo));
+		}
 		throw error;
 	}
 };
\ No newline at end of file
@@ -1,34 +1,39 @@
-// Logout endpoint - clears the session
+// Logout endpoint - signs out one account posted as `did`, or every linked account (POST, from sign-out forms)
 import { redirect } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getBlueskyService } from '$lib/server/bluesky';
+import { getBlueskyService, SESSION_COOKIE } from '$lib/server/bluesky';
+import type { LogoutResult } from '$lib/server/bluesky';
 
-export const GET: RequestHandler = async ({ cookies }) => {
-	console.log('Logging out user...');
+export const POST: RequestHandler = async ({ cookies, request }) => {
+	const posted = (await request.formData()).get('did');
+	const did = typeof posted === 'string' && posted ? posted : null;
+	console.log(did ? `Logging out account ${did}...` : 'Logging out all accounts...');
 
-	// Get the session ID from the cookie
-	const sessionId = cookies.get('bsky_session');
+	// Get the singleton Bluesky service instance
+	const bluesky = getBlueskyService();
 
-	if (sessionId) {
-		try {
-			// Get the singleton Bluesky service instance
-			const bluesky = getBlueskyService();
-			
-			// Logout user and clear session cookie
-			await bluesky.logout(sessionId, cookies);
-			console.log(`User ${sessionId} logged out successfully`);
-		} catch (error) {
-			console.error('Error during logout:', error);
-			// Continue with logout even if session deletion fails
-			cookies.delete('bsky_session', { path: '/' });
+	try {
+		// Revoke tokens at the authorization server, then unlink the account(s) from the session
+		const results: LogoutResult[] = did
+			? [await bluesky.logout(cookies, did)].filter((result) => result !== null)
+			: await bluesky.logoutAll(cookies);
+
+		for (const result of results) {
+			if (!result.revoked && result.error) {
+				// Recorded by the service; the account is still signed out locally
+				console.warn(`Token revocation failed for ${result.userDid}: ${result.error}`);
+			}
 		}
-	} else {
-		// Clear cookie even if no session ID
-		cookies.delete('bsky_session', { path: '/' });
+		console.log('User logged out successfully');
+	} catch (error) {
+		console.error('Error during logout:', error);
+		// Continue with logout even if session deletion fails
+		cookies.delete(SESSION_COOKIE, { path: '/' });
 	}
 
-	console.log('User logged out, redirecting to home...');
+	// Stay in the app if other linked accounts are still signed in
+	const remaining = await bluesky.getSessionDid(cookies);
+	console.log(remaining ? 'Other accounts still signed in, back to dashboard...' : 'User logged out, redirecting to home...');
 
-	// Redirect to home
-	throw redirect(302, '/');
-};
\ No newline at end of file
+	throw redirect(303, remaining ? '/dashboard' : '/');
+};
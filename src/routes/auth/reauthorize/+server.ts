@@ -0,0 +1,34 @@
+// Re-authorization endpoint - asks the active account to grant an additional scope
+import { isRedirect, redirect } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { DEFAULT_RETURN_TO, getBlueskyService, sanitizeReturnTo } from '$lib/server/bluesky';
+
+export const GET: RequestHandler = async ({ cookies, url }) => {
+	const scope = url.searchParams.get('scope');
+	// Come back to the exact page (demo, picked actor and all) that was refused
+	const returnTo = sanitizeReturnTo(url.searchParams.get('returnTo')) ?? DEFAULT_RETURN_TO;
+
+	// Get the singleton Bluesky service instance
+	const bluesky = getBlueskyService();
+
+	const userDid = await bluesky.getSessionDid(cookies);
+	if (!userDid) {
+		throw redirect(302, '/');
+	}
+
+	try {
+		if (!scope) {
+			throw new Error('Missing scope parameter');
+		}
+
+		const authUrl = await bluesky.reauthorize(userDid, scope, returnTo);
+		throw redirect(302, authUrl);
+	} catch (error) {
+		if (isRedirect(error)) {
+			throw error;
+		}
+
+		console.error('Error during OAuth re-authorization:', error);
+		throw redirect(302, returnTo);
+	}
+};
@@ -0,0 +1,23 @@
+// Login preflight endpoint - checks a handle before the OAuth redirect
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { LOGIN_ERRORS, OAuthError, getBlueskyService, isLoginErrorCode } from '$lib/server/bluesky';
+
+export const GET: RequestHandler = async ({ url }) => {
+	const bluesky = getBlueskyService();
+	const handle = url.searchParams.get('handle') || '';
+
+	try {
+		const identity = await bluesky.resolveLoginIdentity(handle);
+		return json(identity, { headers: { 'Cache-Control': 'private, max-age=60' } });
+	} catch (error) {
+		if (error instanceof OAuthError && isLoginErrorCode(error.code)) {
+			const { status, message } = LOGIN_ERRORS[error.code];
+			console.log(`Login preflight failed for "${handle}": ${error.code}`, error.originalError);
+			return json({ error: { code: error.code, message } }, { status });
+		}
+
+		console.error('Error during login preflight:', error);
+		return json({ error: { code: 'RESOLVE_FAILED', message: 'Could not check that handle. Please try again.' } }, { status: 500 });
+	}
+};
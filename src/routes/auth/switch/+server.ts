@@ -0,0 +1,20 @@
+// Account switch endpoint - makes a linked account the active one (POST, from the account switcher form)
+import { redirect } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getBlueskyService } from '$lib/server/bluesky';
+
+export const POST: RequestHandler = async ({ cookies, request }) => {
+	const did = (await request.formData()).get('did');
+
+	// Get the singleton Bluesky service instance
+	const bluesky = getBlueskyService();
+
+	// Only accounts already linked to this browser session can be selected
+	if (typeof did !== 'string' || !did || !(await bluesky.switchAccount(cookies, did))) {
+		console.log(`Cannot switch to unlinked account: ${did}`);
+		throw redirect(303, (await bluesky.getSessionDid(cookies)) ? '/dashboard' : '/');
+	}
+
+	console.log(`Switched active account to ${did}`);
+	throw redirect(303, '/dashboard');
+};
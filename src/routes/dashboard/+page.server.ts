@@ -1,66 +1,70 @@
 // Server-side code for the dashboard page
-import { redirect } from '@sveltejs/kit';
 import type { PageServerLoad } from './$types';
 import { getBlueskyService } from '$lib/server/bluesky';
 import type { DemoType } from '$lib/server/bluesky';
 
-export const load: PageServerLoad = async ({ cookies, url }) => {
-	// Get the session ID from the cookie
-	const sessionId = cookies.get('bsky_session');
+export const load: PageServerLoad = async ({ locals, url }) => {
+	// Get the singleton Bluesky service instance
+	const bluesky = getBlueskyService();
 
-	// If no session cookie, redirect to login
-	if (!sessionId) {
-		console.log('No session cookie found, redirecting to login...');
-		throw redirect(302, '/');
-	}
-
-	try {
-		// Get the singleton Bluesky service instance
-		const bluesky = getBlueskyService();
+	// The auth guard in hooks.server.ts only lets signed-in users through
+	const user = locals.user!;
 
-		// Check if user has valid session
-		const hasValidSession = await bluesky.hasValidSession(sessionId);
-		if (!hasValidSession) {
-			console.log('Invalid session, redirecting to login...');
-			cookies.delete('bsky_session', { path: '/' });
-			throw redirect(302, '/');
-		}
+	// Get which API to demonstrate from query params
+	const demo = (url.searchParams.get('demo') || 'profile') as DemoType;
 
-		// Get which API to demonstrate from query params
-		const demo = (url.searchParams.get('demo') || 'profile') as DemoType;
+	// Account the demos look at, picked with the actor typeahead; defaults to the user
+	const actor = url.searchParams.get('actor')?.trim().replace(/^@/, '') || user.did;
 
-		console.log(`Running demo: ${demo} for user: ${sessionId}`);
+	console.log(`Running demo: ${demo} for user: ${user.did} (actor: ${actor})`);
 
-		let apiData: any = null;
-		let apiError: string | null = null;
+	let apiData: any = null;
+	let apiError: string | null = null;
+	let reauthorizeUrl: string | null = null;
+	let unreadCount = 0;
 
+	// Nothing to call until the user signs in again; the layout asks them to
+	if (!user.sessionExpired) {
 		try {
-			// Use the unified demo API method
-			const response = await bluesky.executeDemoAPI(sessionId, demo, sessionId, 10);
-			
+			// Use the unified demo API method; the unread count is only for the header badge
+			const agent = await locals.getAgent();
+			const api = bluesky.getAPIService();
+			const [response, unread] = await Promise.all([
+				api.executeDemoAPI(agent, demo, actor, 10),
+				api.getUnreadCount(agent)
+			]);
+			unreadCount = unread.data?.count ?? 0;
+		
 			if (response.success) {
 				apiData = response.data;
 			} else {
 				apiError = response.error?.message || 'Unknown error occurred';
+
+				// Offer a one-click grant when a declared scope covers the missing permission
+				const requiredScope = response.error?.requiredScope;
+				const scope = response.error?.code === 'INSUFFICIENT_SCOPE' && requiredScope
+					? bluesky.getReauthorizationScope(requiredScope)
+					: null;
+				if (scope) {
+					reauthorizeUrl = `/auth/reauthorize?${new URLSearchParams({ scope, returnTo: url.pathname + url.search })}`;
+				}
 			}
 		} catch (error) {
 			console.error(`Error running ${demo} demo:`, error);
 			apiError = error instanceof Error ? error.message : 'Unknown error occurred';
 		}
-
-		// Return data to the page
-		// Convert API response to serializable plain objects for SvelteKit
-		return {
-			user: sessionId,
-			demo,
-			apiData: apiData ? JSON.parse(JSON.stringify(apiData)) : null,
-			apiError
-		};
-	} catch (error) {
-		console.error('Error with dashboard:', error);
-		
-		// If we can't access the service, redirect to login
-		cookies.delete('bsky_session', { path: '/' });
-		throw redirect(302, '/');
 	}
-};
\ No newline at end of file
+
+	// Return data to the page
+	// Convert API response to serializable plain objects for SvelteKit
+	return {
+		user: user.did,
+		accounts: user.accounts,
+		unreadCount,
+		demo,
+		actor: actor === user.did ? null : actor,
+		apiData: apiData ? JSON.parse(JSON.stringify(apiData)) : null,
+		apiError,
+		reauthorizeUrl
+	};
+};
@@ -0,0 +1,30 @@
+// OAuth flow tracer - step-by-step recordings of recent logins (development mode only)
+import { error } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { getBlueskyService } from '$lib/server/bluesky';
+
+// Traces show endpoints, DIDs and request bodies, so the page only exists in development
+function requireDevelopmentMode() {
+	const bluesky = getBlueskyService();
+	if (!bluesky.getConfig().developmentMode) {
+		throw error(404, 'Not found');
+	}
+	return bluesky;
+}
+
+export const load: PageServerLoad = async ({ url }) => {
+	const traces = requireDevelopmentMode().getFlowTraces();
+
+	// Newest login unless another one is picked
+	const selectedId = url.searchParams.get('trace');
+	const selected = traces.find((trace) => trace.id === selectedId) ?? traces[0] ?? null;
+
+	return { traces, selected };
+};
+
+export const actions: Actions = {
+	clear: async () => {
+		requireDevelopmentMode().clearFlowTraces();
+		return { message: 'Traces cleared.' };
+	}
+};
@@ -0,0 +1,78 @@
+// Feed browser - the user's saved custom feeds, and any feed's posts with pagination
+import type { PageServerLoad } from './$types';
+import { getBlueskyService } from '$lib/server/bluesky';
+import type { FeedGeneratorInfo, FeedGeneratorView, SavedFeed } from '$lib/server/bluesky';
+
+const PAGE_SIZE = 30;
+const MORE_BY_CREATOR = 10;
+
+// at://<creator DID>/app.bsky.feed.generator/<record key>
+const FEED_URI = /^at:\/\/(did:[a-z]+:[\w.:%-]+)\/app\.bsky\.feed\.generator\/[\w.~:-]+$/;
+
+interface SelectedFeed {
+	uri: string;
+	generator: FeedGeneratorInfo | null;
+	posts: unknown[];
+	cursor: string | null;
+	error: string | null;
+	moreByCreator: FeedGeneratorView[];
+}
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	// The auth guard in hooks.server.ts only lets signed-in users through
+	const user = locals.user!;
+
+	const feed = url.searchParams.get('feed');
+	const cursor = url.searchParams.get('cursor') ?? undefined;
+
+	let savedFeeds: SavedFeed[] = [];
+	let savedError: string | null = null;
+	let selected: SelectedFeed | null = null;
+
+	// The layout asks the user to sign in again; feeds wait until then
+	if (user.sessionExpired) {
+		return { savedFeeds, savedError, selected };
+	}
+
+	const api = getBlueskyService().getAPIService();
+	const creatorDid = feed?.match(FEED_URI)?.[1];
+
+	try {
+		const agent = await locals.getAgent();
+		const [saved, generator, posts, creatorFeeds] = await Promise.all([
+			api.getSavedFeeds(agent),
+			creatorDid ? api.getFeedGenerator(agent, feed!) : null,
+			creatorDid ? api.getFeed(agent, feed!, PAGE_SIZE, cursor) : null,
+			creatorDid ? api.getActorFeeds(agent, creatorDid, MORE_BY_CREATOR) : null
+		]);
+
+		if (saved.success) {
+			savedFeeds = saved.data!.feeds;
+		} else {
+			savedError = saved.error?.message || 'Failed to load saved feeds';
+		}
+
+		if (feed) {
+			selected = {
+				uri: feed,
+				generator: generator?.success ? generator.data! : null,
+				// Convert API response to serializable plain objects for SvelteKit
+				posts: posts?.success ? JSON.parse(JSON.stringify(posts.data!.feed)) : [],
+				cursor: posts?.pagination?.cursor ?? null,
+				error: !creatorDid
+					? 'That is not a feed generator URI.'
+					: posts?.success
+						? null
+						: posts?.error?.message || 'Failed to load this feed',
+				moreByCreator: creatorFeeds?.success
+					? creatorFeeds.data!.feeds.filter((other) => other.uri !== feed)
+					: []
+			};
+		}
+	} catch (error) {
+		console.error('Error loading feeds:', error);
+		savedError = 'Failed to load feeds';
+	}
+
+	return { savedFeeds, savedError, selected };
+};
@@ -1,20 +1,18 @@
 // JWKS endpoint for OAuth
-// Note: Currently using public client auth ('none'), so no JWKS needed
-// This endpoint exists for completeness but returns empty JWKS
+// Publishes the public half of the confidential client's signing keys
+// (private_key_jwt). Public clients ('none' auth) publish an empty set.
 import type { RequestHandler } from './$types';
+import { getBlueskyService } from '$lib/server/bluesky';
 
 export const GET: RequestHandler = async () => {
-	// Since we're using 'token_endpoint_auth_method: none', 
-	// we don't need JWT keys, so return empty JWKS
-	const emptyJWKS = {
-		keys: []
-	};
+	// Retired keys stay listed so sessions bound to them can still refresh
+	const jwks = await getBlueskyService().getJwks();
 	
-	return new Response(JSON.stringify(emptyJWKS, null, 2), {
+	return new Response(JSON.stringify(jwks, null, 2), {
 		headers: {
 			'Content-Type': 'application/json',
 			'Access-Control-Allow-Origin': '*',
 			'Cache-Control': 'public, max-age=3600'
 		}
 	});
-};
\ No newline at end of file
+};
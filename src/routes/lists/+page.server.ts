@@ -0,0 +1,108 @@
+// Lists page - the user's curation and moderation lists, and any list's members or feed
+import type { PageServerLoad } from './$types';
+import { getBlueskyService } from '$lib/server/bluesky';
+import type { BlueskyList, ListMember } from '$lib/server/bluesky';
+
+const PAGE_SIZE = 50;
+const FEED_PAGE_SIZE = 30;
+
+// at://<creator DID>/app.bsky.graph.list/<record key>
+const LIST_URI = /^at:\/\/did:[a-z]+:[\w.:%-]+\/app\.bsky\.graph\.list\/[\w.~:-]+$/;
+
+interface SelectedList {
+	uri: string;
+	view: 'members' | 'feed';
+	list: BlueskyList | null;
+	members: ListMember[];
+	feed: unknown[];
+	cursor: string | null;
+	error: string | null;
+}
+
+interface Overview {
+	curationLists: BlueskyList[];
+	moderationLists: BlueskyList[];
+	mutedLists: BlueskyList[];
+	blockedLists: BlueskyList[];
+	error: string | null;
+}
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	// The auth guard in hooks.server.ts only lets signed-in users through
+	const user = locals.user!;
+
+	const listUri = url.searchParams.get('list');
+	const view = url.searchParams.get('view') === 'feed' ? 'feed' : 'members';
+	const cursor = url.searchParams.get('cursor') ?? undefined;
+
+	let overview: Overview | null = null;
+	let selected: SelectedList | null = null;
+
+	// The layout asks the user to sign in again; lists wait until then
+	if (user.sessionExpired) {
+		return { overview, selected };
+	}
+
+	const api = getBlueskyService().getAPIService();
+
+	try {
+		const agent = await locals.getAgent();
+
+		if (listUri) {
+			selected = { uri: listUri, view, list: null, members: [], feed: [], cursor: null, error: null };
+
+			if (!LIST_URI.test(listUri)) {
+				selected.error = 'That is not a list URI.';
+				return { overview, selected };
+			}
+
+			const response = await api.getList(agent, listUri, PAGE_SIZE, view === 'members' ? cursor : undefined);
+			if (!response.success) {
+				selected.error = response.error?.message || 'Failed to load this list';
+				return { overview, selected };
+			}
+			selected.list = response.data!.list;
+
+			// Only curation lists can be read as a feed
+			if (view === 'feed' && selected.list.kind === 'curation') {
+				const feed = await api.getListFeed(agent, listUri, FEED_PAGE_SIZE, cursor);
+				if (feed.success) {
+					// Convert API response to serializable plain objects for SvelteKit
+					selected.feed = JSON.parse(JSON.stringify(feed.data!.feed));
+					selected.cursor = feed.pagination?.cursor ?? null;
+				} else {
+					selected.error = feed.error?.message || 'Failed to load the list feed';
+				}
+			} else {
+				selected.view = 'members';
+				selected.members = response.data!.members;
+				selected.cursor = response.pagination?.cursor ?? null;
+			}
+			return { overview, selected };
+		}
+
+		const [own, muted, blocked] = await Promise.all([
+			api.getLists(agent, user.did),
+			api.getListMutes(agent),
+			api.getListBlocks(agent)
+		]);
+		const lists = own.data?.lists ?? [];
+
+		overview = {
+			curationLists: lists.filter((list) => list.kind === 'curation'),
+			moderationLists: lists.filter((list) => list.kind === 'moderation'),
+			mutedLists: muted.data?.lists ?? [],
+			blockedLists: blocked.data?.lists ?? [],
+			error: [own, muted, blocked].find((response) => !response.success)?.error?.message ?? null
+		};
+	} catch (error) {
+		console.error('Error loading lists:', error);
+		if (selected) {
+			selected.error = 'Failed to load this list';
+		} else {
+			overview = { curationLists: [], moderationLists: [], mutedLists: [], blockedLists: [], error: 'Failed to load lists' };
+		}
+	}
+
+	return { overview, selected };
+};
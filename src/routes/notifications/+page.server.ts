@@ -0,0 +1,85 @@
+// Notifications inbox - grouped notifications with an explicit "mark all as read"
+import { fail } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { getBlueskyService } from '$lib/server/bluesky';
+import type { NotificationReason } from '$lib/server/bluesky';
+
+const PAGE_SIZE = 40;
+
+// Tabs of the inbox; "mentions" matches the official app's Mentions tab
+const FILTERS: Record<string, NotificationReason[] | undefined> = {
+	all: undefined,
+	mentions: ['mention', 'reply', 'quote']
+};
+
+const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Sign in again to mark notifications as read.';
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	// The auth guard in hooks.server.ts only lets signed-in users through
+	const user = locals.user!;
+
+	const filter = url.searchParams.get('filter') === 'mentions' ? 'mentions' : 'all';
+	const cursor = url.searchParams.get('cursor') ?? undefined;
+	// Only what was on screen is marked read, not notifications that arrive later
+	const loadedAt = new Date().toISOString();
+
+	const empty = { filter, groups: [], cursor: null, unreadCount: 0, loadedAt, error: null };
+
+	// The layout asks the user to sign in again; the inbox waits until then
+	if (user.sessionExpired) {
+		return empty;
+	}
+
+	try {
+		const agent = await locals.getAgent();
+		const api = getBlueskyService().getAPIService();
+		const [response, unread] = await Promise.all([
+			api.listNotifications(agent, { reasons: FILTERS[filter], limit: PAGE_SIZE, cursor }),
+			api.getUnreadCount(agent)
+		]);
+
+		if (!response.success) {
+			return { ...empty, error: response.error?.message || 'Failed to load notifications' };
+		}
+
+		// Convert API response to serializable plain objects for SvelteKit
+		return {
+			filter,
+			groups: JSON.parse(JSON.stringify(response.data!.groups)),
+			cursor: response.pagination?.cursor ?? null,
+			unreadCount: unread.data?.count ?? 0,
+			loadedAt,
+			error: null
+		};
+	} catch (error) {
+		console.error('Error loading notifications:', error);
+		return { ...empty, error: 'Failed to load notifications' };
+	}
+};
+
+export const actions: Actions = {
+	// Mark everything up to when the page was loaded as read
+	markSeen: async ({ locals, request }) => {
+		const user = locals.user!;
+		if (user.sessionExpired) {
+			return fail(401, { sessionExpired: true, error: SESSION_EXPIRED_MESSAGE });
+		}
+
+		const value = (await request.formData()).get('seenAt');
+		const loadedAt = typeof value === 'string' ? Date.parse(value) : NaN;
+		const seenAt = new Date(Number.isNaN(loadedAt) ? Date.now() : Math.min(loadedAt, Date.now()));
+
+		let response;
+		try {
+			response = await getBlueskyService().getAPIService().updateSeen(await locals.getAgent(), seenAt);
+		} catch (error) {
+			// The session could not be restored: it ended or was revoked since the page loaded
+			console.error('Error marking notifications as read:', error);
+			return fail(401, { sessionExpired: true, error: SESSION_EXPIRED_MESSAGE });
+		}
+		if (!response.success) {
+			return fail(502, { error: response.error?.message || 'Could not mark notifications as read.' });
+		}
+		return { message: 'All caught up.' };
+	}
+};
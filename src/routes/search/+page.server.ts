@@ -0,0 +1,54 @@
+// Post search page - filters live in the URL so searches can be shared and paged
+import type { PageServerLoad } from './$types';
+import { getBlueskyService, normalizePostSearch } from '$lib/server/bluesky';
+import type { PostSearchParams } from '$lib/server/bluesky';
+
+const PAGE_SIZE = 25;
+
+export const load: PageServerLoad = async ({ locals, url }) => {
+	// The auth guard in hooks.server.ts only lets signed-in users through
+	const user = locals.user!;
+
+	const params = url.searchParams;
+	const filters = normalizePostSearch({
+		q: params.get('q') ?? '',
+		sort: (params.get('sort') ?? undefined) as PostSearchParams['sort'],
+		author: params.get('author') ?? undefined,
+		mentions: params.get('mentions') ?? undefined,
+		since: params.get('since') ?? undefined,
+		until: params.get('until') ?? undefined,
+		lang: params.get('lang') ?? undefined,
+		domain: params.get('domain') ?? undefined,
+		tag: params.getAll('tag').flatMap((tag) => tag.split(/[\s,]+/))
+	});
+	const cursor = params.get('cursor') ?? undefined;
+
+	const empty = { filters, results: [], analytics: null, hitsTotal: null, cursor: null, error: null };
+
+	// Nothing to search until there is a query, or until the user signs in again
+	if (!filters.q || user.sessionExpired) {
+		return empty;
+	}
+
+	try {
+		const agent = await locals.getAgent();
+		const response = await getBlueskyService().getAPIService().searchPosts(agent, filters, PAGE_SIZE, cursor);
+
+		if (!response.success) {
+			return { ...empty, error: response.error?.message || 'Search failed' };
+		}
+
+		// Convert API response to serializable plain objects for SvelteKit
+		return {
+			filters,
+			results: JSON.parse(JSON.stringify(response.data!.feed)),
+			analytics: response.data!.analytics ?? null,
+			hitsTotal: response.data!.hitsTotal ?? null,
+			cursor: response.pagination?.cursor ?? null,
+			error: null
+		};
+	} catch (error) {
+		console.error('Error searching posts:', error);
+		return { ...empty, error: 'Search failed' };
+	}
+};
@@ -0,0 +1,44 @@
+// Active sessions page - lists where the active account is signed in and revokes sessions
+import { fail, redirect } from '@sveltejs/kit';
+import type { Actions, PageServerLoad } from './$types';
+import { getBlueskyService } from '$lib/server/bluesky';
+
+export const load: PageServerLoad = async ({ locals, cookies }) => {
+	// The auth guard in hooks.server.ts only lets signed-in users through
+	const user = locals.user!;
+
+	return {
+		user: { did: user.did, handle: user.handle },
+		sessions: await getBlueskyService().listSessions(cookies)
+	};
+};
+
+export const actions: Actions = {
+	// Sign out one other browser
+	revoke: async ({ cookies, request }) => {
+		const id = (await request.formData()).get('id');
+		if (typeof id !== 'string' || !(await getBlueskyService().revokeSession(cookies, id))) {
+			return fail(404, { error: 'That session no longer exists.' });
+		}
+		return { message: 'Session signed out.' };
+	},
+
+	// Keep this browser, sign out all the others
+	others: async ({ cookies }) => {
+		const revoked = await getBlueskyService().signOutOtherSessions(cookies);
+		return { message: revoked === 1 ? 'Signed out of 1 other session.' : `Signed out of ${revoked} other sessions.` };
+	},
+
+	// Sign out all browsers and revoke the account's tokens
+	everywhere: async ({ cookies }) => {
+		const bluesky = getBlueskyService();
+		const result = await bluesky.signOutEverywhere(cookies);
+		if (result && !result.revoked && result.error) {
+			// Recorded by the service; every session is signed out locally anyway
+			console.warn(`Token revocation failed for ${result.userDid}: ${result.error}`);
+		}
+
+		// Stay in the app if other linked accounts are still signed in
+		throw redirect(303, (await bluesky.getSessionDid(cookies)) ? '/dashboard' : '/');
+	}
+};
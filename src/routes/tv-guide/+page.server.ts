@@ -1,63 +1,45 @@
-import { redirect } from '@sveltejs/kit';
 import type { PageServerLoad } from './$types';
 import { getBlueskyService } from '$lib/server/bluesky';
 
-export const load: PageServerLoad = async ({ cookies }) => {
-	// Get the session ID from the cookie
-	const sessionId = cookies.get('bsky_session');
+export const load: PageServerLoad = async ({ locals }) => {
+	// Get the singleton Bluesky service instance
+	const bluesky = getBlueskyService();
 
-	// If no session cookie, redirect to login
-	if (!sessionId) {
-		console.log('No session cookie found, redirecting to login...');
-		throw redirect(302, '/');
+	// The auth guard in hooks.server.ts only lets signed-in users through
+	const user = locals.user!;
+
+	// The layout asks the user to sign in again; the timeline waits until then
+	if (user.sessionExpired) {
+		return { user: user.did, initialFeed: [], cursor: null };
 	}
 
+	// Get initial feed data
 	try {
-		// Get the singleton Bluesky service instance
-		const bluesky = getBlueskyService();
-
-		// Check if user has valid session
-		const hasValidSession = await bluesky.hasValidSession(sessionId);
-		if (!hasValidSession) {
-			console.log('Invalid session, redirecting to login...');
-			cookies.delete('bsky_session', { path: '/' });
-			throw redirect(302, '/');
-		}
-
-		// Get initial feed data
-		try {
-			const response = await bluesky.getTimelineEnriched(sessionId, 30);
-			
-			if (response.success) {
-				// Convert API response to serializable plain objects for SvelteKit
-				return {
-					user: sessionId,
-					initialFeed: response.data?.feed ? JSON.parse(JSON.stringify(response.data.feed)) : [],
-					cursor: response.data?.cursor || null
-				};
-			} else {
-				console.error('Error fetching timeline:', response.error);
-				return {
-					user: sessionId,
-					initialFeed: [],
-					cursor: null,
-					error: response.error?.message || 'Failed to load timeline'
-				};
-			}
-		} catch (error) {
-			console.error('Error fetching timeline:', error);
+		const response = await bluesky.getAPIService().getTimelineEnriched(await locals.getAgent(), 30);
+		
+		if (response.success) {
+			// Convert API response to serializable plain objects for SvelteKit
+			return {
+				user: user.did,
+				initialFeed: response.data?.feed ? JSON.parse(JSON.stringify(response.data.feed)) : [],
+				cursor: response.data?.cursor || null
+			};
+		} else {
+			console.error('Error fetching timeline:', response.error);
 			return {
-				user: sessionId,
+				user: user.did,
 				initialFeed: [],
 				cursor: null,
-				error: 'Failed to load timeline'
+				error: response.error?.message || 'Failed to load timeline'
 			};
 		}
 	} catch (error) {
-		console.error('Error with TV Guide:', error);
-		
-		// If we can't access the service, redirect to login
-		cookies.delete('bsky_session', { path: '/' });
-		throw redirect(302, '/');
+		console.error('Error fetching timeline:', error);
+		return {
+			user: user.did,
+			initialFeed: [],
+			cursor: null,
+			error: 'Failed to load timeline'
+		};
 	}
-};
\ No newline at end of file
+};